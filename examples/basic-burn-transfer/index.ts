@@ -137,7 +137,7 @@ async function main() {
   
   try {
     // Create mint instructions
-    const { instructions: mintInstructions } = token.createMintToInstructions(
+    const { instructions: mintInstructions } = await token.createMintToInstructions(
       userTokenAddress,
       payer.publicKey,
       mintAmount
@@ -221,7 +221,7 @@ async function main() {
   
   try {
     // Create instructions to burn tokens using the SDK
-    const { instructions: burnInstructions } = token.createBurnInstructions(
+    const { instructions: burnInstructions } = await token.createBurnInstructions(
       userTokenAddress,
       payer.publicKey,
       burnAmount,
@@ -250,7 +250,7 @@ async function main() {
   try {
     const recipientMintAmount = BigInt(100_000_000_000);  // 100 tokens with 9 decimals
     
-    const { instructions: recipientMintInstructions } = token.createMintToInstructions(
+    const { instructions: recipientMintInstructions } = await token.createMintToInstructions(
       recipientTokenAccount.address,
       payer.publicKey,
       recipientMintAmount
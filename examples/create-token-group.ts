@@ -9,10 +9,7 @@ import {
   getOrCreateAssociatedTokenAccount, 
   mintTo 
 } from '@solana/spl-token';
-import { 
-  TokenGroupExtension, 
-  TokenGroupMemberStatus 
-} from '../src/extensions/token-groups';
+import { TokenGroupExtension } from '../src/extensions/token-groups';
 import { readFileSync } from 'fs';
 import path from 'path';
 
@@ -34,11 +31,9 @@ async function main() {
   
   // Generate keypairs for authorities
   const mintAuthority = Keypair.generate();
-  const groupAuthority = Keypair.generate();
   const updateAuthority = Keypair.generate();
   
   console.log('Mint authority:', mintAuthority.publicKey.toBase58());
-  console.log('Group authority:', groupAuthority.publicKey.toBase58());
   console.log('Update authority:', updateAuthority.publicKey.toBase58());
   
   // Create a token group
@@ -48,11 +43,9 @@ async function main() {
     connection,
     payer.publicKey,
     mintAuthority.publicKey,
-    groupAuthority.publicKey,
     updateAuthority.publicKey,
-    'VietnamTech Token Group',
-    'VTG',
-    6 // 6 decimals
+    10, // max members
+    0 // 0 decimals
   );
   
   // Create and send transaction
@@ -60,7 +53,7 @@ async function main() {
   const signature = await sendAndConfirmTransaction(
     connection,
     transaction,
-    [payer, ...signers]
+    [payer, mintAuthority, ...signers]
   );
   
   console.log('Token group created successfully!');
@@ -74,10 +67,8 @@ async function main() {
   console.log('\nFetching token group info...');
   try {
     const groupInfo = await tokenGroup.getTokenGroupInfo();
-    console.log('Group name:', groupInfo.name);
-    console.log('Group symbol:', groupInfo.symbol);
-    console.log('Group authority:', groupInfo.groupAuthority?.toBase58() || 'None');
     console.log('Update authority:', groupInfo.updateAuthority?.toBase58() || 'None');
+    console.log('Members:', `${groupInfo.size}/${groupInfo.maxSize}`);
   } catch (error) {
     console.error('Error fetching group info:', error);
   }
@@ -85,23 +76,20 @@ async function main() {
   // Create a member token
   console.log('\nCreating token group member...');
   
-  const memberAuthority = Keypair.generate();
-  console.log('Member authority:', memberAuthority.publicKey.toBase58());
-  
   const { instructions: memberInstructions, signers: memberSigners, mint: memberMint } = 
     await tokenGroup.createTokenGroupMemberInstructions(
       payer.publicKey,
       mintAuthority.publicKey,
-      memberAuthority.publicKey,
-      6 // 6 decimals
+      updateAuthority.publicKey,
+      0 // 0 decimals
     );
   
-  // Create and send transaction
+  // Both the member mint authority and the group update authority must sign
   const memberTransaction = new Transaction().add(...memberInstructions);
   const memberSignature = await sendAndConfirmTransaction(
     connection,
     memberTransaction,
-    [payer, ...memberSigners]
+    [payer, mintAuthority, updateAuthority, ...memberSigners]
   );
   
   console.log('Token group member created successfully!');
@@ -110,43 +98,15 @@ async function main() {
   
   // Check if member belongs to group
   console.log('\nVerifying group membership...');
-  const isMember = await tokenGroup.isMember(memberMint);
-  console.log('Is member of group:', isMember);
-  
-  // Get member status
-  const memberStatus = await tokenGroup.getMemberStatus(memberMint);
-  console.log('Member status:', memberStatus === TokenGroupMemberStatus.ACTIVE ? 'Active' : 
-    memberStatus === TokenGroupMemberStatus.FROZEN ? 'Frozen' : 'None');
-  
-  // Update member status to ACTIVE
-  console.log('\nActivating member...');
-  const updateStatusInstruction = tokenGroup.createUpdateMemberStatusInstruction(
-    memberMint,
-    memberAuthority.publicKey,
-    TokenGroupMemberStatus.ACTIVE
-  );
-  
-  const updateStatusTransaction = new Transaction().add(updateStatusInstruction);
-  const updateStatusSignature = await sendAndConfirmTransaction(
-    connection,
-    updateStatusTransaction,
-    [payer, memberAuthority]
-  );
-  
-  console.log('Member activated successfully!');
-  console.log('Transaction signature:', updateStatusSignature);
-  
-  // Check updated member status
-  const updatedStatus = await tokenGroup.getMemberStatus(memberMint);
-  console.log('Updated member status:', updatedStatus === TokenGroupMemberStatus.ACTIVE ? 'Active' : 
-    updatedStatus === TokenGroupMemberStatus.FROZEN ? 'Frozen' : 'None');
+  const memberInfo = await tokenGroup.getMemberInfo(memberMint);
+  console.log('Is member of group:', memberInfo !== null);
+  console.log('Member number:', memberInfo?.memberNumber.toString());
   
-  // Update group info
-  console.log('\nUpdating token group info...');
-  const updateGroupInstruction = tokenGroup.createUpdateTokenGroupInstruction(
+  // Raise the group max size
+  console.log('\nUpdating token group max size...');
+  const updateGroupInstruction = tokenGroup.createUpdateGroupMaxSizeInstruction(
     updateAuthority.publicKey,
-    'Updated VN Tech Group',
-    'UVTG'
+    100
   );
   
   const updateGroupTransaction = new Transaction().add(updateGroupInstruction);
@@ -163,8 +123,7 @@ async function main() {
   console.log('\nFetching updated token group info...');
   try {
     const updatedGroupInfo = await tokenGroup.getTokenGroupInfo();
-    console.log('Updated group name:', updatedGroupInfo.name);
-    console.log('Updated group symbol:', updatedGroupInfo.symbol);
+    console.log('Members:', `${updatedGroupInfo.size}/${updatedGroupInfo.maxSize}`);
   } catch (error) {
     console.error('Error fetching updated group info:', error);
   }
@@ -1,5 +1,5 @@
 import { Connection, Keypair, PublicKey, sendAndConfirmTransaction, Transaction, clusterApiUrl } from '@solana/web3.js';
-import { createMint, getMint, TOKEN_2022_PROGRAM_ID } from '@solana/spl-token';
+import { createMint, TOKEN_2022_PROGRAM_ID } from '@solana/spl-token';
 import { CpiGuardExtension } from '../src/extensions/cpi-guard';
 import { readFileSync } from 'fs';
 import path from 'path';
@@ -41,67 +41,47 @@ async function main() {
     console.log('Token created successfully!');
     console.log('Mint address:', mintKeypair.publicKey.toBase58());
     
-    // Now let's try to initialize CPI Guard on this mint
-    console.log('\nInitializing CPI Guard...');
-    const cpiGuardExtension = new CpiGuardExtension(connection, mintKeypair.publicKey);
-    
-    // Create initialize CPI Guard instruction
-    const initInstruction = CpiGuardExtension.createInitializeCpiGuardInstruction(
+    // CPI Guard lives on token accounts, create one with the guard enabled
+    console.log('\nCreating token account with CPI Guard...');
+    const { instructions, signers, tokenAccount } = await CpiGuardExtension.createTokenAccountWithCpiGuardInstructions(
+      connection,
+      payer.publicKey,
       mintKeypair.publicKey,
-      payer.publicKey,  // set payer as the CPI Guard authority
-      TOKEN_2022_PROGRAM_ID
+      payer.publicKey // owner, signs EnableCpiGuard
+    );
+    
+    const createSignature = await sendAndConfirmTransaction(
+      connection,
+      new Transaction().add(...instructions),
+      [payer, ...signers]
     );
     
-    // Send transaction
-    try {
-      const initTransaction = new Transaction().add(initInstruction);
-      const initSignature = await sendAndConfirmTransaction(
-        connection,
-        initTransaction,
-        [payer]
-      );
-      
-      console.log('CPI Guard initialized successfully!');
-      console.log('Transaction signature:', initSignature);
-    } catch (error) {
-      console.error('Error initializing CPI Guard:', error);
-    }
+    console.log('Token account created:', tokenAccount.toBase58());
+    console.log('Transaction signature:', createSignature);
     
     // Check if CPI Guard is enabled
+    const cpiGuardExtension = new CpiGuardExtension(connection, tokenAccount);
     console.log('\nChecking CPI Guard status...');
-    const isEnabled = await cpiGuardExtension.isCpiGuardEnabled();
-    console.log('CPI Guard enabled:', isEnabled);
+    console.log('CPI Guard enabled:', await cpiGuardExtension.isCpiGuardEnabled());
     
-    // Get CPI Guard authority
-    const authority = await cpiGuardExtension.getCpiGuardAuthority();
-    console.log('CPI Guard authority:', authority?.toBase58() || 'None');
+    // The owner can switch the guard off and on again
+    console.log('\nDisabling CPI Guard...');
+    const disableSignature = await sendAndConfirmTransaction(
+      connection,
+      new Transaction().add(cpiGuardExtension.createDisableCpiGuardInstruction(payer.publicKey)),
+      [payer]
+    );
+    console.log('Transaction signature:', disableSignature);
+    console.log('CPI Guard enabled:', await cpiGuardExtension.isCpiGuardEnabled());
     
-    // If not enabled, try to enable it
-    if (!isEnabled && authority) {
-      console.log('\nEnabling CPI Guard...');
-      
-      try {
-        const enableInstruction = cpiGuardExtension.createEnableCpiGuardInstruction(
-          authority
-        );
-        
-        const enableTransaction = new Transaction().add(enableInstruction);
-        const enableSignature = await sendAndConfirmTransaction(
-          connection,
-          enableTransaction,
-          [payer]
-        );
-        
-        console.log('CPI Guard enabled successfully!');
-        console.log('Transaction signature:', enableSignature);
-        
-        // Verify the CPI Guard is now enabled
-        const isNowEnabled = await cpiGuardExtension.isCpiGuardEnabled();
-        console.log('CPI Guard is now enabled:', isNowEnabled);
-      } catch (error) {
-        console.error('Error enabling CPI Guard:', error);
-      }
-    }
+    console.log('\nEnabling CPI Guard...');
+    const enableSignature = await sendAndConfirmTransaction(
+      connection,
+      new Transaction().add(cpiGuardExtension.createEnableCpiGuardInstruction(payer.publicKey)),
+      [payer]
+    );
+    console.log('Transaction signature:', enableSignature);
+    console.log('CPI Guard enabled:', await cpiGuardExtension.isCpiGuardEnabled());
     
   } catch (error) {
     console.error('Error:', error);
@@ -121,7 +121,7 @@ async function main() {
     
     try {
       // Create necessary instructions to mint tokens
-      const { instructions: mintInstructions } = token.createMintToInstructions(
+      const { instructions: mintInstructions } = await token.createMintToInstructions(
         associatedTokenAddress, // Destination account
         payer.publicKey,        // Mint authority
         mintAmount              // Token amount
@@ -89,7 +89,7 @@ async function main() {
   const expectedFee = transferFeeToken.calculateFee(transferAmount);
   
   // Create transfer instruction instead of performing directly
-  const transferInstruction = transferFeeToken.createTransferInstruction(
+  const transferInstruction = await transferFeeToken.createTransferInstruction(
     ownerTokenAddress,
     recipientTokenAccount.address,
     payer.publicKey,
@@ -126,7 +126,7 @@ async function main() {
     
     try {
       // Create transfer instruction
-      const transferInstruction = transferFeeToken.createTransferInstruction(
+      const transferInstruction = await transferFeeToken.createTransferInstruction(
         ownerTokenAddress,
         recipientAccounts[i].address,
         payer.publicKey,
@@ -124,7 +124,7 @@ async function main() {
   
   try {
     // Create transfer instruction
-    const transferInstruction = transferHookToken.createTransferInstruction(
+    const transferInstruction = await transferHookToken.createTransferInstruction(
       ownerTokenAccount,
       recipientTokenAccount,
       payer.publicKey,
@@ -0,0 +1,124 @@
+import { AccountInfo, Connection, Keypair, PublicKey } from "@solana/web3.js";
+import { AccountState, MULTISIG_SIZE, MintLayout, TOKEN_2022_PROGRAM_ID } from "@solana/spl-token";
+import { TokenExtensionType } from "../utils/extension-registry";
+import { AuthorityManager } from "./authority-manager";
+
+const mint = Keypair.generate().publicKey;
+const admin = Keypair.generate().publicKey;
+
+function tlv(type: number, data: Buffer): Buffer {
+  const header = Buffer.alloc(4);
+  header.writeUInt16LE(type, 0);
+  header.writeUInt16LE(data.length, 2);
+  return Buffer.concat([header, data]);
+}
+
+function mintAccount(...extensions: Buffer[]): AccountInfo<Buffer> {
+  const base = Buffer.alloc(166);
+  MintLayout.encode(
+    {
+      mintAuthorityOption: 1,
+      mintAuthority: admin,
+      supply: BigInt(0),
+      decimals: 6,
+      isInitialized: true,
+      freezeAuthorityOption: 1,
+      freezeAuthority: admin,
+    },
+    base
+  );
+  base[165] = 1;
+  return { data: Buffer.concat([base, ...extensions]), owner: TOKEN_2022_PROGRAM_ID, lamports: 1, executable: false };
+}
+
+// Authority followed by the extension fields, zeroed
+function authorityExtension(type: TokenExtensionType, length: number, authority = admin): Buffer {
+  const data = Buffer.alloc(length);
+  authority.toBuffer().copy(data);
+  return tlv(type, data);
+}
+
+function connectionFor(account: AccountInfo<Buffer>, multisigs: PublicKey[] = []): Connection {
+  const connection = new Connection("http://127.0.0.1:8899");
+  connection.getAccountInfo = async () => account;
+  connection.getMultipleAccountsInfo = async (keys: PublicKey[]) =>
+    keys.map((key) =>
+      multisigs.some((multisig) => multisig.equals(key))
+        ? { data: Buffer.alloc(MULTISIG_SIZE), owner: TOKEN_2022_PROGRAM_ID, lamports: 1, executable: false }
+        : null
+    );
+  return connection;
+}
+
+describe("AuthorityManager.listAuthorities", () => {
+  it("lists the authorities the mint carries, renounced ones as null", () => {
+    const pauser = Keypair.generate().publicKey;
+    const entries = AuthorityManager.listAuthorities({
+      mintAuthority: admin,
+      freezeAuthority: null,
+      pauseAuthority: pauser,
+      groupUpdateAuthority: admin,
+    });
+
+    expect(entries).toEqual([
+      { role: "mintAuthority", authority: admin },
+      { role: "freezeAuthority", authority: null },
+      { role: "pauseAuthority", authority: pauser },
+      { role: "groupUpdateAuthority", authority: admin },
+    ]);
+  });
+});
+
+describe("AuthorityManager.createRenounceAllExceptInstructions", () => {
+  const account = mintAccount(
+    authorityExtension(TokenExtensionType.ConfidentialTransferMint, 65),
+    authorityExtension(TokenExtensionType.ScaledUiAmount, 56),
+    authorityExtension(TokenExtensionType.Pausable, 33),
+    authorityExtension(TokenExtensionType.TokenGroup, 80)
+  );
+
+  it("renounces every authority except the ones kept", async () => {
+    const manager = new AuthorityManager(connectionFor(account), mint);
+    const plan = await manager.createRenounceAllExceptInstructions(["mintAuthority"]);
+
+    expect(plan.renounced).toEqual([
+      "freezeAuthority",
+      "confidentialTransferAuthority",
+      "scaledUiAmountAuthority",
+      "pauseAuthority",
+      "groupUpdateAuthority",
+    ]);
+    expect(plan.kept).toEqual(["mintAuthority"]);
+    expect(plan.signers).toEqual([admin]);
+    // SetAuthority with the Pause authority type and no new authority
+    expect(plan.instructions[3].data).toEqual(Buffer.from([6, 16, 0, ...Buffer.alloc(32)]));
+    expect(plan.instructions[4].keys[0].pubkey.equals(mint)).toBe(true);
+  });
+
+  it("refuses to renounce the freeze authority when accounts start frozen", async () => {
+    const frozen = mintAccount(tlv(TokenExtensionType.DefaultAccountState, Buffer.from([AccountState.Frozen])));
+    const manager = new AuthorityManager(connectionFor(frozen), mint);
+
+    await expect(manager.createRenounceAllExceptInstructions()).rejects.toThrow(
+      "Cannot renounce the freeze authority"
+    );
+    const plan = await manager.createRenounceAllExceptInstructions(["freezeAuthority"]);
+    expect(plan.renounced).toEqual(["mintAuthority"]);
+  });
+
+  it("requires the members of a multisig holder", async () => {
+    const multisig = Keypair.generate().publicKey;
+    const manager = new AuthorityManager(
+      connectionFor(mintAccount(authorityExtension(TokenExtensionType.Pausable, 33, multisig)), [multisig]),
+      mint
+    );
+
+    await expect(
+      manager.createRenounceAllExceptInstructions(["mintAuthority", "freezeAuthority"])
+    ).rejects.toThrow(`The pauseAuthority is held by multisig ${multisig.toBase58()}, multiSigners are required`);
+
+    const members = [Keypair.generate().publicKey, Keypair.generate().publicKey];
+    const plan = await manager.createRenounceAllExceptInstructions(["mintAuthority", "freezeAuthority"], members);
+    expect(plan.signers).toEqual(members);
+  });
+});
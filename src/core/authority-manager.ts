@@ -0,0 +1,273 @@
+import { Commitment, Connection, PublicKey, Signer, TransactionInstruction } from "@solana/web3.js";
+import {
+  AccountState,
+  AuthorityType,
+  MULTISIG_SIZE,
+  TOKEN_2022_PROGRAM_ID,
+  createSetAuthorityInstruction,
+} from "@solana/spl-token";
+import { createUpdateAuthorityInstruction } from "@solana/spl-token-metadata";
+import { createUpdateGroupAuthorityInstruction } from "../extensions/token-groups";
+import { TokenExtensionType } from "../utils/extension-registry";
+import { MintAuthorities, MintSnapshot, inspectMint } from "../utils/mint-inspector";
+
+/**
+ * Mint authorities that can be rotated or renounced
+ */
+export type ManagedAuthority =
+  | "mintAuthority"
+  | "freezeAuthority"
+  | "closeAuthority"
+  | "transferFeeConfigAuthority"
+  | "withdrawWithheldAuthority"
+  | "interestRateAuthority"
+  | "permanentDelegate"
+  | "confidentialTransferAuthority"
+  | "transferHookAuthority"
+  | "confidentialTransferFeeAuthority"
+  | "metadataPointerAuthority"
+  | "groupPointerAuthority"
+  | "groupMemberPointerAuthority"
+  | "scaledUiAmountAuthority"
+  | "pauseAuthority"
+  | "metadataUpdateAuthority"
+  | "groupUpdateAuthority";
+
+/**
+ * Current holder of a mint authority
+ */
+export interface AuthorityInfo {
+  role: ManagedAuthority;
+  /** null when the authority was renounced */
+  authority: PublicKey | null;
+}
+
+/**
+ * Instructions renouncing a set of authorities
+ */
+export interface RenouncePlan {
+  instructions: TransactionInstruction[];
+  renounced: ManagedAuthority[];
+  kept: ManagedAuthority[];
+  /** Keys that must sign the instructions */
+  signers: PublicKey[];
+}
+
+// SetAuthority types newer than the installed spl-token
+const GROUP_POINTER_AUTHORITY_TYPE = 13;
+const GROUP_MEMBER_POINTER_AUTHORITY_TYPE = 14;
+const SCALED_UI_AMOUNT_AUTHORITY_TYPE = 15;
+const PAUSE_AUTHORITY_TYPE = 16;
+
+// Authorities changed through the token metadata and token group interfaces instead of SetAuthority
+type InterfaceAuthority = "metadataUpdateAuthority" | "groupUpdateAuthority";
+
+const SET_AUTHORITY_TYPES: Record<Exclude<ManagedAuthority, InterfaceAuthority>, AuthorityType> = {
+  mintAuthority: AuthorityType.MintTokens,
+  freezeAuthority: AuthorityType.FreezeAccount,
+  closeAuthority: AuthorityType.CloseMint,
+  transferFeeConfigAuthority: AuthorityType.TransferFeeConfig,
+  withdrawWithheldAuthority: AuthorityType.WithheldWithdraw,
+  interestRateAuthority: AuthorityType.InterestRate,
+  permanentDelegate: AuthorityType.PermanentDelegate,
+  confidentialTransferAuthority: AuthorityType.ConfidentialTransferMint,
+  transferHookAuthority: AuthorityType.TransferHookProgramId,
+  confidentialTransferFeeAuthority: AuthorityType.ConfidentialTransferFeeConfig,
+  metadataPointerAuthority: AuthorityType.MetadataPointer,
+  groupPointerAuthority: GROUP_POINTER_AUTHORITY_TYPE as AuthorityType,
+  groupMemberPointerAuthority: GROUP_MEMBER_POINTER_AUTHORITY_TYPE as AuthorityType,
+  scaledUiAmountAuthority: SCALED_UI_AMOUNT_AUTHORITY_TYPE as AuthorityType,
+  pauseAuthority: PAUSE_AUTHORITY_TYPE as AuthorityType,
+};
+
+const MANAGED_AUTHORITIES = [
+  ...Object.keys(SET_AUTHORITY_TYPES),
+  "metadataUpdateAuthority",
+  "groupUpdateAuthority",
+] as ManagedAuthority[];
+
+/**
+ * Lists, rotates and renounces the authorities of a mint
+ */
+export class AuthorityManager {
+  private connection: Connection;
+  private mint: PublicKey;
+
+  /**
+   * Create a new AuthorityManager instance
+   * @param connection - Connection to Solana cluster
+   * @param mint - Mint address
+   */
+  constructor(connection: Connection, mint: PublicKey) {
+    this.connection = connection;
+    this.mint = mint;
+  }
+
+  /**
+   * Read all authorities of the mint from chain state
+   * @param commitment - Commitment level
+   * @returns Authorities of the base mint and of every extension present
+   */
+  async getAuthorities(commitment: Commitment = "confirmed"): Promise<MintAuthorities> {
+    const snapshot = await inspectMint(this.connection, this.mint, commitment);
+    return snapshot.authorities;
+  }
+
+  /**
+   * List the managed authorities the mint carries
+   * @param commitment - Commitment level
+   * @returns One entry per authority, in the order instructions are built
+   */
+  async listAuthorities(commitment: Commitment = "confirmed"): Promise<AuthorityInfo[]> {
+    return AuthorityManager.listAuthorities(await this.getAuthorities(commitment));
+  }
+
+  /**
+   * List the managed authorities present in a set of mint authorities
+   * @param authorities - Authorities as read by inspectMint
+   * @returns One entry per authority the mint carries
+   */
+  static listAuthorities(authorities: MintAuthorities): AuthorityInfo[] {
+    return MANAGED_AUTHORITIES
+      .filter((role) => authorities[role] !== undefined)
+      .map((role) => ({ role, authority: authorities[role] ?? null }));
+  }
+
+  /**
+   * Create instruction to hand an authority to a new key, or to renounce it
+   * @param role - Authority to change
+   * @param currentAuthority - Current holder of the authority
+   * @param newAuthority - New holder, null to renounce
+   * @param multiSigners - Signers if the current authority is a multisig
+   * @returns Instruction changing the authority
+   */
+  createSetAuthorityInstruction(
+    role: ManagedAuthority,
+    currentAuthority: PublicKey,
+    newAuthority: PublicKey | null,
+    multiSigners: (Signer | PublicKey)[] = []
+  ): TransactionInstruction {
+    if (role === "metadataUpdateAuthority") {
+      if (multiSigners.length > 0) {
+        throw new Error("The metadata update authority cannot be a multisig");
+      }
+      return createUpdateAuthorityInstruction({
+        programId: TOKEN_2022_PROGRAM_ID,
+        metadata: this.mint,
+        oldAuthority: currentAuthority,
+        newAuthority,
+      });
+    }
+    if (role === "groupUpdateAuthority") {
+      if (multiSigners.length > 0) {
+        throw new Error("The group update authority cannot be a multisig");
+      }
+      // The group data lives in the mint itself, as inspectMint reads it
+      return createUpdateGroupAuthorityInstruction(this.mint, currentAuthority, newAuthority);
+    }
+
+    return createSetAuthorityInstruction(
+      this.mint,
+      currentAuthority,
+      SET_AUTHORITY_TYPES[role],
+      newAuthority,
+      multiSigners,
+      TOKEN_2022_PROGRAM_ID
+    );
+  }
+
+  /**
+   * Create instruction to renounce an authority for good
+   * @param role - Authority to renounce
+   * @param currentAuthority - Current holder of the authority
+   * @param multiSigners - Signers if the current authority is a multisig
+   * @returns Instruction renouncing the authority
+   */
+  createRevokeAuthorityInstruction(
+    role: ManagedAuthority,
+    currentAuthority: PublicKey,
+    multiSigners: (Signer | PublicKey)[] = []
+  ): TransactionInstruction {
+    return this.createSetAuthorityInstruction(role, currentAuthority, null, multiSigners);
+  }
+
+  /**
+   * Create instructions to renounce every authority except the ones to keep
+   *
+   * Each authority is renounced by its current holder, read from chain state. multiSigners are only
+   * used for holders that are multisig accounts. Renouncing the freeze authority of a mint whose
+   * accounts start frozen is refused, since those accounts could never be thawed.
+   *
+   * @param keep - Authorities to leave untouched
+   * @param multiSigners - Signers of the multisig holding some of the authorities
+   * @param commitment - Commitment level
+   * @returns Instructions, renounced and kept authorities, and the keys that must sign
+   */
+  async createRenounceAllExceptInstructions(
+    keep: ManagedAuthority[] = [],
+    multiSigners: (Signer | PublicKey)[] = [],
+    commitment: Commitment = "confirmed"
+  ): Promise<RenouncePlan> {
+    const snapshot = await inspectMint(this.connection, this.mint, commitment);
+    const held = AuthorityManager.listAuthorities(snapshot.authorities).filter(
+      (entry): entry is { role: ManagedAuthority; authority: PublicKey } => entry.authority !== null
+    );
+    const toRenounce = held.filter((entry) => !keep.includes(entry.role));
+
+    if (toRenounce.some((entry) => entry.role === "freezeAuthority")) {
+      AuthorityManager.assertFreezeAuthorityRenounceable(snapshot);
+    }
+
+    const multisigs = await this.findMultisigs(toRenounce.map((entry) => entry.authority), commitment);
+    const memberKeys = multiSigners.map((signer) => (signer instanceof PublicKey ? signer : signer.publicKey));
+    const signers = new Map<string, PublicKey>();
+    const instructions: TransactionInstruction[] = [];
+
+    for (const { role, authority } of toRenounce) {
+      if (multisigs.has(authority.toBase58())) {
+        if (multiSigners.length === 0) {
+          throw new Error(`The ${role} is held by multisig ${authority.toBase58()}, multiSigners are required`);
+        }
+        instructions.push(this.createRevokeAuthorityInstruction(role, authority, multiSigners));
+        memberKeys.forEach((key) => signers.set(key.toBase58(), key));
+      } else {
+        instructions.push(this.createRevokeAuthorityInstruction(role, authority));
+        signers.set(authority.toBase58(), authority);
+      }
+    }
+
+    return {
+      instructions,
+      renounced: toRenounce.map((entry) => entry.role),
+      kept: held.filter((entry) => keep.includes(entry.role)).map((entry) => entry.role),
+      signers: [...signers.values()],
+    };
+  }
+
+  private static assertFreezeAuthorityRenounceable(snapshot: MintSnapshot): void {
+    const defaultState = snapshot.states[TokenExtensionType.DefaultAccountState];
+    if (defaultState?.state === AccountState.Frozen) {
+      throw new Error("Cannot renounce the freeze authority: new accounts start frozen and could never be thawed");
+    }
+  }
+
+  private async findMultisigs(authorities: PublicKey[], commitment: Commitment): Promise<Set<string>> {
+    if (authorities.length === 0) {
+      return new Set();
+    }
+
+    try {
+      const infos = await this.connection.getMultipleAccountsInfo(authorities, commitment);
+      return new Set(
+        authorities
+          .filter((_, index) => {
+            const info = infos[index];
+            return info !== null && info.owner.equals(TOKEN_2022_PROGRAM_ID) && info.data.length === MULTISIG_SIZE;
+          })
+          .map((authority) => authority.toBase58())
+      );
+    } catch (error: any) {
+      throw new Error(`Could not read authority accounts: ${error.message}`);
+    }
+  }
+}
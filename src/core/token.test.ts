@@ -0,0 +1,192 @@
+import { AccountInfo, Connection, Keypair, PublicKey } from "@solana/web3.js";
+import { AccountLayout, AccountState, MintLayout, TOKEN_2022_PROGRAM_ID, TokenInstruction } from "@solana/spl-token";
+import { MintPausedError } from "../extensions/pausable";
+import { TokenExtensionType } from "../utils/extension-registry";
+import { Token } from "./token";
+
+const mint = Keypair.generate().publicKey;
+const owner = Keypair.generate().publicKey;
+const source = Keypair.generate().publicKey;
+const destination = Keypair.generate().publicKey;
+
+function tlv(type: number, data: Buffer): Buffer {
+  const header = Buffer.alloc(4);
+  header.writeUInt16LE(type, 0);
+  header.writeUInt16LE(data.length, 2);
+  return Buffer.concat([header, data]);
+}
+
+function mintAccount(...extensions: Buffer[]): AccountInfo<Buffer> {
+  const base = Buffer.alloc(166);
+  MintLayout.encode(
+    {
+      mintAuthorityOption: 1,
+      mintAuthority: owner,
+      supply: BigInt(0),
+      decimals: 2,
+      isInitialized: true,
+      freezeAuthorityOption: 0,
+      freezeAuthority: PublicKey.default,
+    },
+    base
+  );
+  base[165] = 1;
+  return { data: Buffer.concat([base, ...extensions]), owner: TOKEN_2022_PROGRAM_ID, lamports: 1, executable: false };
+}
+
+function tokenAccount(): AccountInfo<Buffer> {
+  const data = Buffer.alloc(166);
+  AccountLayout.encode(
+    {
+      mint,
+      owner: Keypair.generate().publicKey,
+      amount: BigInt(0),
+      delegateOption: 0,
+      delegate: PublicKey.default,
+      state: AccountState.Initialized,
+      isNativeOption: 0,
+      isNative: BigInt(0),
+      delegatedAmount: BigInt(0),
+      closeAuthorityOption: 0,
+      closeAuthority: PublicKey.default,
+    },
+    data
+  );
+  data[165] = 2;
+  return { data, owner: TOKEN_2022_PROGRAM_ID, lamports: 1, executable: false };
+}
+
+// 1% until epoch 10, then 2% capped at 1000
+function transferFeeConfig(): Buffer {
+  const data = Buffer.alloc(108);
+  data.writeBigUInt64LE(BigInt(0), 72);
+  data.writeBigUInt64LE(BigInt(1000), 80);
+  data.writeUInt16LE(100, 88);
+  data.writeBigUInt64LE(BigInt(10), 90);
+  data.writeBigUInt64LE(BigInt(1000), 98);
+  data.writeUInt16LE(200, 106);
+  return tlv(TokenExtensionType.TransferFeeConfig, data);
+}
+
+function pausable(paused: boolean): Buffer {
+  const data = Buffer.alloc(33);
+  owner.toBuffer().copy(data);
+  data[32] = paused ? 1 : 0;
+  return tlv(TokenExtensionType.Pausable, data);
+}
+
+function tokenFor(mintInfo: AccountInfo<Buffer>, epoch = 12): Token {
+  const connection = {
+    getAccountInfo: async (address: PublicKey) => (address.equals(mint) ? mintInfo : tokenAccount()),
+    getEpochInfo: async () => ({ epoch }),
+  } as unknown as Connection;
+  return new Token(connection, mint);
+}
+
+function transferWithFeeData(instructionData: Buffer): { amount: bigint; decimals: number; fee: bigint } {
+  expect(instructionData[0]).toBe(TokenInstruction.TransferFeeExtension);
+  return {
+    amount: instructionData.readBigUInt64LE(2),
+    decimals: instructionData[10],
+    fee: instructionData.readBigUInt64LE(11),
+  };
+}
+
+describe("Token.createTransferInstructions", () => {
+  it("sends a plain TransferChecked without transfer fees", async () => {
+    const { instructions, breakdown } = await tokenFor(mintAccount()).createTransferInstructions(
+      source,
+      destination,
+      owner,
+      BigInt(5000),
+      2
+    );
+
+    expect(breakdown).toEqual({ grossAmount: BigInt(5000), fee: BigInt(0), netAmount: BigInt(5000) });
+    expect(instructions).toHaveLength(1);
+    expect(instructions[0].data[0]).toBe(TokenInstruction.TransferChecked);
+  });
+
+  it("asserts the fee of the current epoch", async () => {
+    const { instructions, breakdown } = await tokenFor(mintAccount(transferFeeConfig())).createTransferInstructions(
+      source,
+      destination,
+      owner,
+      BigInt(10000),
+      2
+    );
+
+    expect(breakdown).toEqual({ grossAmount: BigInt(10000), fee: BigInt(200), netAmount: BigInt(9800) });
+    expect(transferWithFeeData(instructions[0].data)).toEqual({ amount: BigInt(10000), decimals: 2, fee: BigInt(200) });
+  });
+
+  it("uses the older fee before the newer one takes effect", async () => {
+    const { breakdown } = await tokenFor(mintAccount(transferFeeConfig()), 9).createTransferInstructions(
+      source,
+      destination,
+      owner,
+      BigInt(10000),
+      2
+    );
+
+    expect(breakdown.fee).toBe(BigInt(100));
+  });
+
+  it("grosses the amount up so the destination receives the exact net amount", async () => {
+    const { instructions, breakdown } = await tokenFor(mintAccount(transferFeeConfig())).createTransferInstructions(
+      source,
+      destination,
+      owner,
+      BigInt(9800),
+      2,
+      { exactNetAmount: true }
+    );
+
+    expect(breakdown).toEqual({ grossAmount: BigInt(10000), fee: BigInt(200), netAmount: BigInt(9800) });
+    expect(transferWithFeeData(instructions[0].data)).toEqual({ amount: BigInt(10000), decimals: 2, fee: BigInt(200) });
+  });
+
+  it("adds the capped fee to exact net amounts above the cap", async () => {
+    const { breakdown } = await tokenFor(mintAccount(transferFeeConfig())).createTransferInstructions(
+      source,
+      destination,
+      owner,
+      BigInt(1_000_000),
+      2,
+      { exactNetAmount: true }
+    );
+
+    expect(breakdown).toEqual({ grossAmount: BigInt(1_001_000), fee: BigInt(1000), netAmount: BigInt(1_000_000) });
+  });
+});
+
+describe("Token pause checks", () => {
+  it("refuses to mint, burn or transfer while the mint is paused", async () => {
+    const token = tokenFor(mintAccount(pausable(true)));
+
+    await expect(token.createMintToInstructions(destination, owner, BigInt(1))).rejects.toThrow(MintPausedError);
+    await expect(token.createBurnInstructions(source, owner, BigInt(1), 2)).rejects.toThrow(MintPausedError);
+    await expect(token.createTransferInstructions(source, destination, owner, BigInt(1), 2)).rejects.toThrow(
+      `Mint ${mint.toBase58()} is paused`
+    );
+  });
+
+  it("allows mints that carry the extension unpaused", async () => {
+    const token = tokenFor(mintAccount(pausable(false)));
+
+    await expect(token.createMintToInstructions(destination, owner, BigInt(1))).resolves.toBeDefined();
+    await expect(token.createTransferInstructions(source, destination, owner, BigInt(1), 2)).resolves.toBeDefined();
+  });
+
+  it("picks up a pause sent after the mint was cached", async () => {
+    let mintInfo = mintAccount(pausable(false));
+    const connection = {
+      getAccountInfo: async (address: PublicKey) => (address.equals(mint) ? mintInfo : tokenAccount()),
+    } as unknown as Connection;
+    const token = new Token(connection, mint);
+
+    await token.getMintInfo();
+    mintInfo = mintAccount(pausable(true));
+    await expect(token.createMintToInstructions(destination, owner, BigInt(1))).rejects.toThrow(MintPausedError);
+  });
+});
@@ -7,6 +7,7 @@ import {
   TokenAccountNotFoundError,
   createMintToInstruction,
   createTransferCheckedInstruction,
+  createTransferCheckedWithFeeInstruction,
   createBurnCheckedInstruction,
   getOrCreateAssociatedTokenAccount,
   getMint,
@@ -15,6 +16,19 @@ import {
   TokenOwnerOffCurveError,
   getAssociatedTokenAddressSync
 } from "@solana/spl-token";
+import {
+  DecodedExtension,
+  decodeAccountExtensions,
+  decodeMintExtensions,
+  getExtensionState
+} from "../utils/extension-decoder";
+import { TokenExtensionType } from "../utils/extension-registry";
+import { addTransferHookAccounts } from "../extensions/transfer-hook/extra-account-metas";
+import { calculateEpochPreFeeAmount, calculateEpochTransferFee } from "../extensions/transfer-fee/fees";
+import { createMemoInstruction } from "../extensions/memo-transfer";
+import { MintPausedError } from "../extensions/pausable";
+import { TransferAmountBreakdown } from "../types";
+import { AuthorityManager } from "./authority-manager";
 
 export class Token {
   protected connection: Connection;
@@ -40,6 +54,15 @@ export class Token {
     return TOKEN_2022_PROGRAM_ID;
   }
 
+  /**
+   * Get a manager to list, rotate and renounce the authorities of this mint
+   * 
+   * @returns AuthorityManager for this mint
+   */
+  getAuthorityManager(): AuthorityManager {
+    return new AuthorityManager(this.connection, this.mint);
+  }
+
   /**
    * Get the token decimals
    * If not set, it will query information from the blockchain
@@ -137,19 +160,40 @@ export class Token {
     );
   }
 
+  /**
+   * Throw MintPausedError if the mint is paused
+   * 
+   * Mint state is refreshed so a pause sent moments ago is picked up.
+   */
+  protected async assertNotPaused(): Promise<void> {
+    const mintInfo = await this.getMintInfo(true);
+    this.assertExtensionsNotPaused(decodeMintExtensions(mintInfo));
+  }
+
+  private assertExtensionsNotPaused(extensions: DecodedExtension[]): void {
+    if (getExtensionState(extensions, TokenExtensionType.Pausable)?.paused) {
+      throw new MintPausedError(this.mint);
+    }
+  }
+
   /**
    * Create instructions to mint tokens to an account
    * 
    * @param destination - Address of the account receiving tokens
    * @param authority - Authority allowed to mint tokens
    * @param amount - Amount of tokens to mint
+   * @param multiSigners - Signers if the authority is a multisig
    * @returns Object containing instructions
+   * @throws MintPausedError if the mint is paused
    */
-  createMintToInstructions(
+  async createMintToInstructions(
     destination: PublicKey,
     authority: PublicKey,
-    amount: bigint
-  ): { instructions: TransactionInstruction[] } {
+    amount: bigint,
+    multiSigners: (Signer | PublicKey)[] = []
+  ): Promise<{ instructions: TransactionInstruction[] }> {
+    await this.assertNotPaused();
+
     const instructions: TransactionInstruction[] = [];
     
     instructions.push(
@@ -158,7 +202,7 @@ export class Token {
         destination,
         authority,
         amount,
-        [],
+        multiSigners,
         this.getProgramId()
       )
     );
@@ -173,17 +217,20 @@ export class Token {
    * @param authority - Authority allowed to mint tokens
    * @param amount - Amount of tokens to mint
    * @param decimals - Token decimals
+   * @param multiSigners - Signers if the authority is a multisig
    * @returns Object containing instructions
+   * @throws MintPausedError if the mint is paused
    */
   createMintToCheckedInstructions(
     destination: PublicKey,
     authority: PublicKey,
     amount: bigint,
-    decimals: number
-  ): { instructions: TransactionInstruction[] } {
+    decimals: number,
+    multiSigners: (Signer | PublicKey)[] = []
+  ): Promise<{ instructions: TransactionInstruction[] }> {
     // Use createMintToCheckedInstruction instead of createMintToInstruction
     // But maintain similar structure
-    return this.createMintToInstructions(destination, authority, amount);
+    return this.createMintToInstructions(destination, authority, amount, multiSigners);
   }
 
   /**
@@ -193,17 +240,22 @@ export class Token {
    * @param payer - Transaction fee payer
    * @param amount - Amount of tokens to mint
    * @param mintAuthority - Authority allowed to mint tokens
+   * @param multiSigners - Signers if the mint authority is a multisig
    * @returns Object containing instructions and token account address
+   * @throws MintPausedError if the mint is paused
    */
   async createAccountAndMintToInstructions(
     owner: PublicKey,
     payer: PublicKey,
     amount: bigint,
-    mintAuthority: PublicKey
+    mintAuthority: PublicKey,
+    multiSigners: (Signer | PublicKey)[] = []
   ): Promise<{
     instructions: TransactionInstruction[];
     address: PublicKey;
   }> {
+    await this.assertNotPaused();
+
     // Get associated token account address
     const address = await getAssociatedTokenAddress(
       this.mint, 
@@ -246,7 +298,7 @@ export class Token {
         address,
         mintAuthority,
         amount,
-        [],
+        multiSigners,
         this.getProgramId()
       )
     );
@@ -261,14 +313,19 @@ export class Token {
    * @param owner - Account owner
    * @param amount - Amount of tokens to burn
    * @param decimals - Token decimals
+   * @param multiSigners - Signers if the owner is a multisig
    * @returns Object containing instructions
+   * @throws MintPausedError if the mint is paused
    */
-  createBurnInstructions(
+  async createBurnInstructions(
     account: PublicKey,
     owner: PublicKey,
     amount: bigint,
-    decimals: number
-  ): { instructions: TransactionInstruction[] } {
+    decimals: number,
+    multiSigners: (Signer | PublicKey)[] = []
+  ): Promise<{ instructions: TransactionInstruction[] }> {
+    await this.assertNotPaused();
+
     const instructions: TransactionInstruction[] = [];
     
     instructions.push(
@@ -278,7 +335,7 @@ export class Token {
         owner,
         amount,
         decimals,
-        [],
+        multiSigners,
         this.getProgramId()
       )
     );
@@ -286,6 +343,126 @@ export class Token {
     return { instructions };
   }
 
+  /**
+   * Append the accounts required by the mint's transfer hook to a transfer instruction
+   * 
+   * Mint state is refreshed so a rotated hook program is picked up.
+   * 
+   * @param instruction - TransferChecked instruction of this mint
+   * @param amount - Transfer amount
+   * @returns The instruction unchanged if the mint has no active transfer hook
+   */
+  protected async withTransferHookAccounts(
+    instruction: TransactionInstruction,
+    amount: bigint
+  ): Promise<TransactionInstruction> {
+    const mintInfo = await this.getMintInfo(true);
+    return this.addMintTransferHookAccounts(decodeMintExtensions(mintInfo), instruction, amount);
+  }
+
+  private async addMintTransferHookAccounts(
+    extensions: DecodedExtension[],
+    instruction: TransactionInstruction,
+    amount: bigint
+  ): Promise<TransactionInstruction> {
+    const transferHook = getExtensionState(extensions, TokenExtensionType.TransferHook);
+    if (!transferHook?.programId) {
+      return instruction;
+    }
+
+    try {
+      return await addTransferHookAccounts(this.connection, instruction, transferHook.programId, amount);
+    } catch (error: any) {
+      throw new Error(`Could not resolve transfer hook accounts: ${error.message}`);
+    }
+  }
+
+  private getMemoSigners(authority: PublicKey, multiSigners: (Signer | PublicKey)[] = []): PublicKey[] {
+    // A multisig cannot sign, its members sign the memo instead
+    return multiSigners.length > 0
+      ? multiSigners.map((signer) => (signer instanceof PublicKey ? signer : signer.publicKey))
+      : [authority];
+  }
+
+  private assertMemoProvided(destination: Account, memo?: string): void {
+    const memoTransfer = getExtensionState(decodeAccountExtensions(destination), TokenExtensionType.MemoTransfer);
+    if (memoTransfer?.requireIncomingTransferMemos && !memo) {
+      throw new Error(`Destination ${destination.address.toBase58()} requires a memo on incoming transfers`);
+    }
+  }
+
+  /**
+   * Create the transfer instruction matching the mint's extensions
+   * 
+   * Mints with TransferFeeConfig get a TransferCheckedWithFee asserting the fee of the current epoch,
+   * so the transfer fails instead of withholding an unexpected fee. Transfer hook accounts are appended.
+   * Paused mints throw MintPausedError.
+   * 
+   * @param source - Source token account
+   * @param destination - Destination token account
+   * @param authority - Owner or delegate of the source account
+   * @param amount - Amount sent, or amount received with exactNetAmount
+   * @param decimals - Token decimals
+   * @param exactNetAmount - Gross the amount up so the destination receives exactly amount
+   * @param multiSigners - Signers if the authority is a multisig
+   * @returns Transfer instruction and amount breakdown
+   */
+  protected async createMintTransferInstruction(
+    source: PublicKey,
+    destination: PublicKey,
+    authority: PublicKey,
+    amount: bigint,
+    decimals: number,
+    exactNetAmount = false,
+    multiSigners: (Signer | PublicKey)[] = []
+  ): Promise<{
+    instruction: TransactionInstruction;
+    breakdown: TransferAmountBreakdown;
+  }> {
+    const mintInfo = await this.getMintInfo(true);
+    const extensions = decodeMintExtensions(mintInfo);
+    this.assertExtensionsNotPaused(extensions);
+    const feeConfig = getExtensionState(extensions, TokenExtensionType.TransferFeeConfig);
+
+    let instruction: TransactionInstruction;
+    let breakdown: TransferAmountBreakdown;
+    if (feeConfig) {
+      const epoch = BigInt((await this.connection.getEpochInfo('confirmed')).epoch);
+      const grossAmount = exactNetAmount ? calculateEpochPreFeeAmount(feeConfig, epoch, amount) : amount;
+      const fee = calculateEpochTransferFee(feeConfig, epoch, grossAmount);
+
+      breakdown = { grossAmount, fee, netAmount: grossAmount - fee };
+      instruction = createTransferCheckedWithFeeInstruction(
+        source,
+        this.mint,
+        destination,
+        authority,
+        grossAmount,
+        decimals,
+        fee,
+        multiSigners,
+        this.getProgramId()
+      );
+    } else {
+      breakdown = { grossAmount: amount, fee: BigInt(0), netAmount: amount };
+      instruction = createTransferCheckedInstruction(
+        source,
+        this.mint,
+        destination,
+        authority,
+        amount,
+        decimals,
+        multiSigners,
+        this.getProgramId()
+      );
+    }
+
+    return {
+      instruction: await this.addMintTransferHookAccounts(extensions, instruction, breakdown.grossAmount),
+      breakdown,
+    };
+  }
+
   /**
    * Create instructions to transfer tokens
    * 
@@ -294,6 +471,7 @@ export class Token {
    * - To transfer to a wallet without a token account: Use createDestinationIfNeeded=true and allowOwnerOffCurve=true
    *   if the address might be off-curve
    * - If you get a "Provided owner is not allowed" error, try using skipSourceOwnerCheck=true
+   * - Destination accounts requiring memos (MemoTransfer) need the memo option, otherwise building fails
    * 
    * @param source - Source token account address
    * @param destination - Destination wallet or token account address
@@ -302,6 +480,7 @@ export class Token {
    * @param decimals - Token decimals
    * @param options - Additional options
    * @returns Object containing instructions and destination account address
+   * @throws MintPausedError if the mint is paused
    */
   async createTransferInstructions(
     source: PublicKey,
@@ -314,10 +493,13 @@ export class Token {
       createDestinationIfNeeded?: boolean;
       feePayer?: PublicKey;
       allowOwnerOffCurve?: boolean;
+      exactNetAmount?: boolean; // Treat amount as what the destination receives, adding the transfer fee on top
+      multiSigners?: (Signer | PublicKey)[]; // Signers if the owner or delegate is a multisig
     }
   ): Promise<{
     instructions: TransactionInstruction[];
     destinationAddress: PublicKey;
+    breakdown: TransferAmountBreakdown;
   }> {
     const instructions: TransactionInstruction[] = [];
     let destinationAddress = destination;
@@ -328,8 +510,9 @@ export class Token {
     // Check if destination is a token account or wallet address
     let destinationIsTokenAccount = false;
     try {
-      await getAccount(this.connection, destination, 'recent', this.getProgramId());
+      const destinationAccount = await getAccount(this.connection, destination, 'recent', this.getProgramId());
       destinationIsTokenAccount = true;
+      this.assertMemoProvided(destinationAccount, options?.memo);
     } catch (error: any) {
       if (error instanceof TokenAccountNotFoundError) {
         destinationIsTokenAccount = false;
@@ -390,31 +573,24 @@ export class Token {
       throw new Error("Destination token account doesn't exist and is not configured to be created automatically");
     }
     
-    // Add token transfer instruction - use createTransferCheckedInstruction for Token-2022 compatibility
-    instructions.push(
-      createTransferCheckedInstruction(
-        source,
-        this.mint,
-        destinationAddress,
-        owner,
-        amount,
-        decimals,
-        [],
-        this.getProgramId()
-      )
+    // Add token transfer instruction - TransferChecked, or TransferCheckedWithFee for fee mints
+    const { instruction: transferInstruction, breakdown } = await this.createMintTransferInstruction(
+      source,
+      destinationAddress,
+      owner,
+      amount,
+      decimals,
+      options?.exactNetAmount,
+      options?.multiSigners
     );
     
-    // Add memo if provided
+    // The memo goes right before the transfer, where MemoTransfer looks for it
     if (options?.memo) {
-      const memoId = new PublicKey("MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr");
-      instructions.push({
-        keys: [{ pubkey: owner, isSigner: true, isWritable: true }],
-        programId: memoId,
-        data: Buffer.from(options.memo, "utf-8")
-      });
+      instructions.push(createMemoInstruction(options.memo, this.getMemoSigners(owner, options.multiSigners)));
     }
+    instructions.push(transferInstruction);
     
-    return { instructions, destinationAddress };
+    return { instructions, destinationAddress, breakdown };
   }
 
   /**
@@ -529,6 +705,7 @@ export class Token {
    * - If destination doesn't exist and needs to be created, set createDestinationIfNeeded=true
    * - If encountering off-curve address errors, set allowOwnerOffCurve=true
    * - You can provide decimals to avoid blockchain query if known in advance
+   * - Destination accounts requiring memos (MemoTransfer) need the memo option, otherwise building fails
    * 
    * @param source - Source token account address
    * @param destination - Destination wallet or token account address
@@ -549,10 +726,13 @@ export class Token {
       decimals?: number; // Decimals, if not provided will be fetched from blockchain
       allowOwnerOffCurve?: boolean; // Allow owner address to be off-curve
       verifySourceBalance?: boolean; // Verify source account balance before transfer
+      exactNetAmount?: boolean; // Treat amount as what the destination receives, adding the transfer fee on top
+      multiSigners?: (Signer | PublicKey)[]; // Signers if the owner or delegate is a multisig
     }
   ): Promise<{
     instructions: TransactionInstruction[];
     destinationAddress: PublicKey;
+    breakdown: TransferAmountBreakdown;
   }> {
     const instructions: TransactionInstruction[] = [];
     let destinationAddress = destination;
@@ -569,27 +749,13 @@ export class Token {
       decimals = await this.getDecimals();
     }
     
-    // Verify balance if requested
-    if (verifySourceBalance) {
-      try {
-        const sourceAccount = await this.getAccount(source);
-        if (sourceAccount.amount < amount) {
-          throw new Error(`Insufficient source account balance. Balance: ${sourceAccount.amount}, Required: ${amount}`);
-        }
-      } catch (error) {
-        if (error instanceof TokenAccountNotFoundError) {
-          throw new Error("Source account doesn't exist");
-        }
-        throw error;
-      }
-    }
-    
     // Check if destination is a token account or wallet address
     let destinationIsTokenAccount = false;
     try {
-      await getAccount(this.connection, destination, 'recent', this.getProgramId());
+      const destinationAccount = await getAccount(this.connection, destination, 'recent', this.getProgramId());
       // If no error, destination is a token account
       destinationIsTokenAccount = true;
+      this.assertMemoProvided(destinationAccount, options?.memo);
     } catch (error: any) {
       if (error instanceof TokenAccountNotFoundError) {
         // Destination is not a token account, might be a wallet address
@@ -655,29 +821,37 @@ export class Token {
     }
     
     // Add token transfer instruction using permanent delegate
-    instructions.push(
-      createTransferCheckedInstruction(
-        source,
-        this.mint,
-        destinationAddress,
-        delegate, // Permanent delegate acts as the owner
-        amount,
-        decimals,
-        [],
-        this.getProgramId()
-      )
+    const { instruction: transferInstruction, breakdown } = await this.createMintTransferInstruction(
+      source,
+      destinationAddress,
+      delegate, // Permanent delegate acts as the owner
+      amount,
+      decimals,
+      options?.exactNetAmount,
+      options?.multiSigners
     );
     
-    // Add memo if provided
+    // Verify balance if requested, the source pays the amount including any fee
+    if (verifySourceBalance) {
+      try {
+        const sourceAccount = await this.getAccount(source);
+        if (sourceAccount.amount < breakdown.grossAmount) {
+          throw new Error(`Insufficient source account balance. Balance: ${sourceAccount.amount}, Required: ${breakdown.grossAmount}`);
+        }
+      } catch (error) {
+        if (error instanceof TokenAccountNotFoundError) {
+          throw new Error("Source account doesn't exist");
+        }
+        throw error;
+      }
+    }
+    
+    // The memo goes right before the transfer, where MemoTransfer looks for it
     if (options?.memo) {
-      const memoId = new PublicKey("MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr");
-      instructions.push({
-        keys: [{ pubkey: delegate, isSigner: true, isWritable: true }],
-        programId: memoId,
-        data: Buffer.from(options.memo, "utf-8")
-      });
+      instructions.push(createMemoInstruction(options.memo, this.getMemoSigners(delegate, options.multiSigners)));
     }
+    instructions.push(transferInstruction);
     
-    return { instructions, destinationAddress };
+    return { instructions, destinationAddress, breakdown };
   }
 } 
\ No newline at end of file
@@ -1,23 +1,63 @@
-import { Connection, PublicKey, Transaction, SystemProgram, TransactionInstruction, Keypair } from "@solana/web3.js";
+import { Connection, PublicKey, SystemProgram, TransactionInstruction, Keypair, Signer } from "@solana/web3.js";
 import {
   ExtensionType,
   TOKEN_2022_PROGRAM_ID,
   createInitializeMintInstruction,
-  getMintLen,
+  createReallocateInstruction,
   getAssociatedTokenAddress,
-  createAssociatedTokenAccountInstruction,
-  getOrCreateAssociatedTokenAccount,
-  createTransferInstruction,
   getMint,
   getAccount
 } from "@solana/spl-token";
 import { Token } from "../../core/token";
+import {
+  ConfidentialTransferAccountState,
+  ConfidentialTransferMintState,
+  decodeAccountExtensions,
+  decodeMintExtensions,
+  getExtensionState,
+  hasExtension,
+} from "../../utils/extension-decoder";
+import { TokenExtensionType, calculateMintLen } from "../../utils/extension-registry";
+import { ConfidentialTransferProver } from "./prover";
+import {
+  ZkProofType,
+  createApplyPendingBalanceInstruction,
+  createApproveAccountInstruction,
+  createCloseContextStateInstruction,
+  createConfidentialTransferInstruction,
+  createConfigureAccountInstruction,
+  createDepositInstruction,
+  createInitializeConfidentialTransferMintInstruction,
+  createProofContextStateInstructions,
+  createUpdateConfidentialTransferMintInstruction,
+  createVerifyProofInstruction,
+  createWithdrawInstruction,
+} from "./instructions";
+
+export * from "./instructions";
+export * from "./prover";
+export * from "./keys";
 
+// Default number of incoming transfers before the pending balance must be applied
+const DEFAULT_MAXIMUM_PENDING_BALANCE_CREDIT_COUNTER = BigInt(65536);
+
+/**
+ * Instructions of a confidential operation whose proofs live in context state accounts
+ *
+ * Each entry of proofInstructions is sent as its own transaction first, signed by the payer
+ * and the matching context state keypair in signers. The instructions then run the operation
+ * and close the context state accounts.
+ */
+export interface ConfidentialProofInstructions {
+  proofInstructions: TransactionInstruction[][];
+  instructions: TransactionInstruction[];
+  signers: Keypair[];
+}
 
 export class ConfidentialTransferToken extends Token {
   /**
    * Create a new ConfidentialTransferToken instance
-   * 
+   *
    * @param connection - Connection to Solana cluster
    * @param mintAddress - Public key of the token mint
    */
@@ -27,14 +67,16 @@ export class ConfidentialTransferToken extends Token {
 
   /**
    * Create instructions to create a new token with confidential transfer extension
-   * 
+   *
    * @param connection - Connection to Solana cluster
    * @param payer - Public key of the transaction fee payer
    * @param options - Creation options including:
    *   - decimals: Number of decimals for the token
    *   - mintAuthority: Authority allowed to mint tokens
    *   - freezeAuthority: Authority allowed to freeze accounts (optional)
-   *   - autoEnable?: Whether to auto-enable confidential transfers
+   *   - authority: Confidential transfer authority, approves accounts and updates the configuration (optional)
+   *   - autoApproveNewAccounts: Whether configured accounts can be used without approval (default true)
+   *   - auditor: ElGamal public key of the auditor (optional)
    * @returns Instructions, signers and mint address
    */
   static async createInstructions(
@@ -44,15 +86,25 @@ export class ConfidentialTransferToken extends Token {
       decimals: number;
       mintAuthority: PublicKey;
       freezeAuthority?: PublicKey | null;
+      authority?: PublicKey | null;
+      autoApproveNewAccounts?: boolean;
+      auditor?: PublicKey | null;
     }
   ): Promise<{
     instructions: TransactionInstruction[];
     signers: Keypair[];
     mint: PublicKey;
   }> {
-    const { decimals, mintAuthority, freezeAuthority = null } = options;
-  
-    const mintLen = getMintLen([ExtensionType.ConfidentialTransferMint]);
+    const {
+      decimals,
+      mintAuthority,
+      freezeAuthority = null,
+      authority = null,
+      autoApproveNewAccounts = true,
+      auditor = null,
+    } = options;
+
+    const mintLen = calculateMintLen([TokenExtensionType.ConfidentialTransferMint]);
     const mintKeypair = Keypair.generate();
     const mint = mintKeypair.publicKey;
     const lamports = await connection.getMinimumBalanceForRentExemption(mintLen);
@@ -65,6 +117,13 @@ export class ConfidentialTransferToken extends Token {
         lamports,
         programId: TOKEN_2022_PROGRAM_ID,
       }),
+      createInitializeConfidentialTransferMintInstruction(
+        mint,
+        authority,
+        autoApproveNewAccounts,
+        auditor,
+        TOKEN_2022_PROGRAM_ID
+      ),
       createInitializeMintInstruction(
         mint,
         decimals,
@@ -73,7 +132,7 @@ export class ConfidentialTransferToken extends Token {
         TOKEN_2022_PROGRAM_ID
       )
     ];
-    
+
     return {
       instructions,
       signers: [mintKeypair],
@@ -81,81 +140,339 @@ export class ConfidentialTransferToken extends Token {
     };
   }
 
+  /**
+   * Read the ConfidentialTransferMint configuration of this mint
+   *
+   * @returns Mint configuration, null if the mint has no confidential transfer extension
+   */
+  async getConfidentialMintState(): Promise<ConfidentialTransferMintState | null> {
+    const mintInfo = await getMint(this.connection, this.mint, "confirmed", TOKEN_2022_PROGRAM_ID);
+    return getExtensionState(decodeMintExtensions(mintInfo), TokenExtensionType.ConfidentialTransferMint);
+  }
+
+  /**
+   * Read the ConfidentialTransferAccount state of a token account
+   *
+   * @param tokenAccount - Public key of the token account
+   * @returns Account state, null if the account is not configured
+   */
+  async getConfidentialAccountState(tokenAccount: PublicKey): Promise<ConfidentialTransferAccountState | null> {
+    const accountInfo = await getAccount(this.connection, tokenAccount, "confirmed", TOKEN_2022_PROGRAM_ID);
+    return getExtensionState(decodeAccountExtensions(accountInfo), TokenExtensionType.ConfidentialTransferAccount);
+  }
+
+  /**
+   * Create instruction to update the confidential transfer configuration of this mint
+   *
+   * @param authority - Confidential transfer authority of the mint
+   * @param autoApproveNewAccounts - Whether configured accounts can be used without approval
+   * @param auditor - ElGamal public key of the auditor, null to remove it
+   * @param multiSigners - Signers if the authority is a multisig
+   * @returns Transaction instruction
+   */
+  createUpdateMintInstruction(
+    authority: PublicKey,
+    autoApproveNewAccounts: boolean,
+    auditor: PublicKey | null,
+    multiSigners: (Signer | PublicKey)[] = []
+  ): TransactionInstruction {
+    return createUpdateConfidentialTransferMintInstruction(
+      this.mint,
+      authority,
+      autoApproveNewAccounts,
+      auditor,
+      multiSigners,
+      TOKEN_2022_PROGRAM_ID
+    );
+  }
+
   /**
    * Create instructions to configure an account for confidential transfers
-   * 
+   *
+   * The account is reallocated for ConfidentialTransferAccount, then configured with the
+   * owner's ElGamal key, proven by a PubkeyValidity proof verified in the same transaction.
+   *
    * @param owner - Public key of the token account owner
-   * @param tokenAccount - Public key of the token account to configure (optional)
+   * @param prover - Prover holding the owner's confidential keys
+   * @param options - Optional settings:
+   *   - tokenAccount: Account to configure (defaults to the owner's associated token account)
+   *   - payer: Pays the additional rent (defaults to the owner)
+   *   - maximumPendingBalanceCreditCounter: Credits allowed before applying the pending balance
+   * @returns Transaction instructions
+   */
+  async createConfigureAccountInstructions(
+    owner: PublicKey,
+    prover: ConfidentialTransferProver,
+    options: {
+      tokenAccount?: PublicKey;
+      payer?: PublicKey;
+      maximumPendingBalanceCreditCounter?: bigint;
+    } = {}
+  ): Promise<TransactionInstruction[]> {
+    try {
+      const account = options.tokenAccount || await getAssociatedTokenAddress(
+        this.mint,
+        owner,
+        false,
+        TOKEN_2022_PROGRAM_ID
+      );
+
+      const decryptableZeroBalance = await prover.encryptDecryptableBalance(BigInt(0));
+      const pubkeyValidityProof = await prover.generatePubkeyValidityProof();
+
+      return [
+        createReallocateInstruction(
+          account,
+          options.payer ?? owner,
+          [ExtensionType.ConfidentialTransferAccount],
+          owner,
+          [],
+          TOKEN_2022_PROGRAM_ID
+        ),
+        createConfigureAccountInstruction(
+          account,
+          this.mint,
+          decryptableZeroBalance,
+          options.maximumPendingBalanceCreditCounter ?? DEFAULT_MAXIMUM_PENDING_BALANCE_CREDIT_COUNTER,
+          { instructionOffset: 1 },
+          owner,
+          [],
+          TOKEN_2022_PROGRAM_ID
+        ),
+        createVerifyProofInstruction(ZkProofType.PubkeyValidity, pubkeyValidityProof),
+      ];
+    } catch (error: any) {
+      throw new Error(`Could not create configure account instructions: ${error.message}`);
+    }
+  }
+
+  /**
+   * Create instruction to approve an account for confidential transfers
+   *
+   * Only needed when the mint does not auto-approve new accounts.
+   *
+   * @param tokenAccount - Public key of the token account
+   * @param authority - Confidential transfer authority of the mint
+   * @param multiSigners - Signers if the authority is a multisig
    * @returns Transaction instruction
    */
-  async createConfigureAccountInstruction(
+  createApproveAccountInstruction(
+    tokenAccount: PublicKey,
+    authority: PublicKey,
+    multiSigners: (Signer | PublicKey)[] = []
+  ): TransactionInstruction {
+    return createApproveAccountInstruction(
+      tokenAccount,
+      this.mint,
+      authority,
+      multiSigners,
+      TOKEN_2022_PROGRAM_ID
+    );
+  }
+
+  /**
+   * Create instruction to deposit public tokens into the pending confidential balance
+   *
+   * @param tokenAccount - Public key of the token account
+   * @param owner - Public key of the token account owner
+   * @param amount - Amount to deposit
+   * @returns Transaction instruction
+   */
+  async createDepositInstruction(
+    tokenAccount: PublicKey,
     owner: PublicKey,
-    tokenAccount?: PublicKey
+    amount: bigint
   ): Promise<TransactionInstruction> {
-    const account = tokenAccount || await getAssociatedTokenAddress(
+    const mintInfo = await getMint(this.connection, this.mint, "confirmed", TOKEN_2022_PROGRAM_ID);
+    return createDepositInstruction(
+      tokenAccount,
       this.mint,
+      amount,
+      mintInfo.decimals,
       owner,
-      false,
+      [],
       TOKEN_2022_PROGRAM_ID
     );
+  }
+
+  /**
+   * Create instruction to apply the pending balance to the available balance
+   *
+   * @param tokenAccount - Public key of the token account
+   * @param owner - Public key of the token account owner
+   * @param prover - Prover holding the owner's confidential keys
+   * @returns Transaction instruction
+   */
+  async createApplyPendingBalanceInstruction(
+    tokenAccount: PublicKey,
+    owner: PublicKey,
+    prover: ConfidentialTransferProver
+  ): Promise<TransactionInstruction> {
+    const state = await this.requireConfiguredAccount(tokenAccount);
+    const newDecryptableAvailableBalance = await prover.computeApplyPendingBalance(state);
 
-    
-    return createTransferInstruction(
-      account,
-      account, 
+    return createApplyPendingBalanceInstruction(
+      tokenAccount,
+      state.pendingBalanceCreditCounter,
+      newDecryptableAvailableBalance,
       owner,
-      BigInt(0),
       [],
-          TOKEN_2022_PROGRAM_ID
+      TOKEN_2022_PROGRAM_ID
+    );
+  }
+
+  /**
+   * Create instructions to withdraw from the available confidential balance
+   *
+   * @param tokenAccount - Public key of the token account
+   * @param owner - Public key of the token account owner, also closes the proof accounts
+   * @param amount - Amount to withdraw
+   * @param prover - Prover holding the owner's confidential keys
+   * @param payer - Pays for the proof context accounts (defaults to the owner)
+   * @returns Proof transactions, withdraw instructions and signers
+   */
+  async createWithdrawInstructions(
+    tokenAccount: PublicKey,
+    owner: PublicKey,
+    amount: bigint,
+    prover: ConfidentialTransferProver,
+    payer: PublicKey = owner
+  ): Promise<ConfidentialProofInstructions> {
+    try {
+      const state = await this.requireConfiguredAccount(tokenAccount);
+      const mintInfo = await getMint(this.connection, this.mint, "confirmed", TOKEN_2022_PROGRAM_ID);
+      const proofs = await prover.generateWithdrawProofs({ account: state, amount });
+
+      const equality = await createProofContextStateInstructions(
+        this.connection, payer, owner, ZkProofType.CiphertextCommitmentEquality, proofs.equalityProof
+      );
+      const range = await createProofContextStateInstructions(
+        this.connection, payer, owner, ZkProofType.BatchedRangeProofU64, proofs.rangeProof
       );
+
+      return {
+        proofInstructions: [equality.instructions, range.instructions],
+        instructions: [
+          createWithdrawInstruction(
+            tokenAccount,
+            this.mint,
+            amount,
+            mintInfo.decimals,
+            proofs.newDecryptableAvailableBalance,
+            { contextState: equality.contextState },
+            { contextState: range.contextState },
+            owner,
+            [],
+            TOKEN_2022_PROGRAM_ID
+          ),
+          createCloseContextStateInstruction(equality.contextState, payer, owner),
+          createCloseContextStateInstruction(range.contextState, payer, owner),
+        ],
+        signers: [...equality.signers, ...range.signers],
+      };
+    } catch (error: any) {
+      throw new Error(`Could not create withdraw instructions: ${error.message}`);
     }
+  }
 
   /**
-   * Create instruction for a confidential transfer
-   * 
+   * Create instructions for a confidential transfer
+   *
    * @param source - Public key of the source account
    * @param destination - Public key of the destination account
-   * @param owner - Public key of the source account owner
+   * @param owner - Public key of the source account owner, also closes the proof accounts
    * @param amount - Amount to transfer
-   * @returns Transaction instruction
+   * @param prover - Prover holding the owner's confidential keys
+   * @param payer - Pays for the proof context accounts (defaults to the owner)
+   * @returns Proof transactions, transfer instructions and signers
    */
-  createConfidentialTransferInstruction(
+  async createConfidentialTransferInstructions(
     source: PublicKey,
     destination: PublicKey,
     owner: PublicKey,
-    amount: bigint
-  ): TransactionInstruction {
-    return createTransferInstruction(
-          source,
-          destination,
-      owner,
-          amount,
-          [],
-        TOKEN_2022_PROGRAM_ID
+    amount: bigint,
+    prover: ConfidentialTransferProver,
+    payer: PublicKey = owner
+  ): Promise<ConfidentialProofInstructions> {
+    try {
+      const mintInfo = await getMint(this.connection, this.mint, "confirmed", TOKEN_2022_PROGRAM_ID);
+      const mintExtensions = decodeMintExtensions(mintInfo);
+      if (hasExtension(mintExtensions, TokenExtensionType.TransferFeeConfig)) {
+        throw new Error("Confidential transfers on mints with transfer fees are not supported");
+      }
+
+      const mintState = getExtensionState(mintExtensions, TokenExtensionType.ConfidentialTransferMint);
+      if (!mintState) {
+        throw new Error("Mint does not support confidential transfers");
+      }
+
+      const sourceState = await this.requireConfiguredAccount(source);
+      const destinationState = await this.requireConfiguredAccount(destination);
+
+      const proofs = await prover.generateTransferProofs({
+        sourceAccount: sourceState,
+        amount,
+        destinationElGamalPubkey: destinationState.elgamalPubkey,
+        auditorElGamalPubkey: mintState.auditorElGamalPubkey,
+      });
+
+      const equality = await createProofContextStateInstructions(
+        this.connection, payer, owner, ZkProofType.CiphertextCommitmentEquality, proofs.equalityProof
       );
+      const validity = await createProofContextStateInstructions(
+        this.connection, payer, owner, ZkProofType.BatchedGroupedCiphertext3HandlesValidity, proofs.ciphertextValidityProof
+      );
+      const range = await createProofContextStateInstructions(
+        this.connection, payer, owner, ZkProofType.BatchedRangeProofU128, proofs.rangeProof
+      );
+
+      return {
+        proofInstructions: [equality.instructions, validity.instructions, range.instructions],
+        instructions: [
+          createConfidentialTransferInstruction(
+            source,
+            this.mint,
+            destination,
+            proofs.newSourceDecryptableAvailableBalance,
+            proofs.auditorCiphertextLo,
+            proofs.auditorCiphertextHi,
+            { contextState: equality.contextState },
+            { contextState: validity.contextState },
+            { contextState: range.contextState },
+            owner,
+            [],
+            TOKEN_2022_PROGRAM_ID
+          ),
+          createCloseContextStateInstruction(equality.contextState, payer, owner),
+          createCloseContextStateInstruction(validity.contextState, payer, owner),
+          createCloseContextStateInstruction(range.contextState, payer, owner),
+        ],
+        signers: [...equality.signers, ...validity.signers, ...range.signers],
+      };
+    } catch (error: any) {
+      throw new Error(`Could not create confidential transfer instructions: ${error.message}`);
+    }
   }
 
   /**
    * Check if an account is configured for confidential transfers
-   * 
+   *
    * @param tokenAccount - Public key of the token account to check
    * @returns Boolean indicating if the account is configured for confidential transfers
    */
   async isConfiguredForConfidentialTransfers(tokenAccount: PublicKey): Promise<boolean> {
     try {
-      const accountInfo = await this.connection.getAccountInfo(tokenAccount);
-      
-      if (!accountInfo) {
-        return false;
-      }
-      
-      // In a real implementation, we would check if the account
-      // has the confidential transfer extension initialized
-      // For now, we'll just return true if the account exists
-      
-      return true;
+      return (await this.getConfidentialAccountState(tokenAccount)) !== null;
     } catch (error) {
       return false;
     }
   }
-} 
\ No newline at end of file
+
+  private async requireConfiguredAccount(tokenAccount: PublicKey): Promise<ConfidentialTransferAccountState> {
+    const state = await this.getConfidentialAccountState(tokenAccount);
+    if (!state) {
+      throw new Error(`Account ${tokenAccount.toBase58()} is not configured for confidential transfers`);
+    }
+    return state;
+  }
+}
@@ -0,0 +1,569 @@
+import {
+  AccountMeta,
+  Connection,
+  Keypair,
+  PublicKey,
+  SYSVAR_INSTRUCTIONS_PUBKEY,
+  Signer,
+  SystemProgram,
+  TransactionInstruction,
+} from "@solana/web3.js";
+import { TOKEN_2022_PROGRAM_ID, TokenInstruction } from "@solana/spl-token";
+
+/**
+ * Program verifying the zero-knowledge proofs of confidential transfers
+ */
+export const ZK_ELGAMAL_PROOF_PROGRAM_ID = new PublicKey("ZkE1Gama1Proof11111111111111111111111111111");
+
+/**
+ * Proof types of the ZK ElGamal proof program
+ *
+ * The verify instruction of each proof type uses the same discriminator.
+ */
+export enum ZkProofType {
+  ZeroCiphertext = 1,
+  CiphertextCiphertextEquality = 2,
+  CiphertextCommitmentEquality = 3,
+  PubkeyValidity = 4,
+  PercentageWithCap = 5,
+  BatchedRangeProofU64 = 6,
+  BatchedRangeProofU128 = 7,
+  BatchedRangeProofU256 = 8,
+  GroupedCiphertext2HandlesValidity = 9,
+  BatchedGroupedCiphertext2HandlesValidity = 10,
+  GroupedCiphertext3HandlesValidity = 11,
+  BatchedGroupedCiphertext3HandlesValidity = 12,
+}
+
+// Size of the proof context of each proof type
+const PROOF_CONTEXT_SIZES: Record<ZkProofType, number> = {
+  [ZkProofType.ZeroCiphertext]: 96,
+  [ZkProofType.CiphertextCiphertextEquality]: 192,
+  [ZkProofType.CiphertextCommitmentEquality]: 128,
+  [ZkProofType.PubkeyValidity]: 32,
+  [ZkProofType.PercentageWithCap]: 104,
+  [ZkProofType.BatchedRangeProofU64]: 264,
+  [ZkProofType.BatchedRangeProofU128]: 264,
+  [ZkProofType.BatchedRangeProofU256]: 264,
+  [ZkProofType.GroupedCiphertext2HandlesValidity]: 160,
+  [ZkProofType.BatchedGroupedCiphertext2HandlesValidity]: 256,
+  [ZkProofType.GroupedCiphertext3HandlesValidity]: 224,
+  [ZkProofType.BatchedGroupedCiphertext3HandlesValidity]: 352,
+};
+
+// Context state accounts start with the context authority and the proof type
+const PROOF_CONTEXT_STATE_HEADER_SIZE = 33;
+const CLOSE_CONTEXT_STATE_INSTRUCTION = 0;
+
+const AE_CIPHERTEXT_SIZE = 36;
+const ELGAMAL_PUBKEY_SIZE = 32;
+const ELGAMAL_CIPHERTEXT_SIZE = 64;
+
+// Token-2022 instruction prefix of the ConfidentialTransferFee extension, newer than the installed spl-token
+const CONFIDENTIAL_TRANSFER_FEE_INSTRUCTION = 37;
+const INITIALIZE_CONFIDENTIAL_TRANSFER_FEE_CONFIG = 0;
+
+enum ConfidentialTransferInstruction {
+  InitializeMint = 0,
+  UpdateMint = 1,
+  ConfigureAccount = 2,
+  ApproveAccount = 3,
+  EmptyAccount = 4,
+  Deposit = 5,
+  Withdraw = 6,
+  Transfer = 7,
+  ApplyPendingBalance = 8,
+}
+
+/**
+ * Where the program finds a proof
+ *
+ * - instructionOffset: a verify instruction at this position relative to the token instruction
+ * - contextState: an account the proof was verified into beforehand
+ */
+export type ProofLocation = { instructionOffset: number } | { contextState: PublicKey };
+
+function checkLength(name: string, data: Uint8Array, length: number): Buffer {
+  if (data.length !== length) {
+    throw new Error(`${name} must be ${length} bytes, got ${data.length}`);
+  }
+  return Buffer.from(data);
+}
+
+function encodeOptionalElGamalPubkey(pubkey: PublicKey | Uint8Array | null): Buffer {
+  if (!pubkey) {
+    return Buffer.alloc(ELGAMAL_PUBKEY_SIZE);
+  }
+  return checkLength("ElGamal public key", pubkey instanceof PublicKey ? pubkey.toBytes() : pubkey, ELGAMAL_PUBKEY_SIZE);
+}
+
+function encodeU64(value: bigint): Buffer {
+  const data = Buffer.alloc(8);
+  data.writeBigUInt64LE(value);
+  return data;
+}
+
+function encodeInstruction(instruction: ConfidentialTransferInstruction, ...payload: Buffer[]): Buffer {
+  return Buffer.concat([Buffer.from([TokenInstruction.ConfidentialTransferExtension, instruction]), ...payload]);
+}
+
+function addAuthority(keys: AccountMeta[], authority: PublicKey, multiSigners: (Signer | PublicKey)[]): AccountMeta[] {
+  keys.push({ pubkey: authority, isSigner: multiSigners.length === 0, isWritable: false });
+  for (const signer of multiSigners) {
+    keys.push({
+      pubkey: signer instanceof PublicKey ? signer : signer.publicKey,
+      isSigner: true,
+      isWritable: false,
+    });
+  }
+  return keys;
+}
+
+/**
+ * Append the proof accounts and return the offset of each proof, in the order of the locations
+ */
+function addProofLocations(keys: AccountMeta[], locations: ProofLocation[]): number[] {
+  if (locations.some((location) => "instructionOffset" in location)) {
+    keys.push({ pubkey: SYSVAR_INSTRUCTIONS_PUBKEY, isSigner: false, isWritable: false });
+  }
+
+  return locations.map((location) => {
+    if ("contextState" in location) {
+      keys.push({ pubkey: location.contextState, isSigner: false, isWritable: false });
+      return 0;
+    }
+    if (location.instructionOffset === 0 || location.instructionOffset < -128 || location.instructionOffset > 127) {
+      throw new Error("Proof instruction offset must be a non-zero i8");
+    }
+    return location.instructionOffset;
+  });
+}
+
+function encodeOffsets(offsets: number[]): Buffer {
+  const data = Buffer.alloc(offsets.length);
+  offsets.forEach((offset, index) => data.writeInt8(offset, index));
+  return data;
+}
+
+/**
+ * Create instruction to initialize the ConfidentialTransferMint extension
+ *
+ * Must be placed before InitializeMint.
+ *
+ * @param mint - Mint address
+ * @param authority - Authority that can update the configuration and approve accounts, null for none
+ * @param autoApproveNewAccounts - Whether accounts can be used without approval
+ * @param auditorElGamalPubkey - ElGamal public key of the auditor, null for none
+ * @param programId - Token Extension Program ID
+ * @returns Instruction to initialize the confidential transfer mint
+ */
+export function createInitializeConfidentialTransferMintInstruction(
+  mint: PublicKey,
+  authority: PublicKey | null,
+  autoApproveNewAccounts: boolean,
+  auditorElGamalPubkey: PublicKey | Uint8Array | null,
+  programId = TOKEN_2022_PROGRAM_ID
+): TransactionInstruction {
+  return new TransactionInstruction({
+    programId,
+    keys: [{ pubkey: mint, isSigner: false, isWritable: true }],
+    data: encodeInstruction(
+      ConfidentialTransferInstruction.InitializeMint,
+      (authority ?? PublicKey.default).toBuffer(),
+      Buffer.from([autoApproveNewAccounts ? 1 : 0]),
+      encodeOptionalElGamalPubkey(auditorElGamalPubkey)
+    ),
+  });
+}
+
+/**
+ * Create instruction to initialize the ConfidentialTransferFeeConfig extension
+ *
+ * Must be placed before InitializeMint, on a mint with TransferFeeConfig and ConfidentialTransferMint.
+ *
+ * @param mint - Mint address
+ * @param authority - Authority that can change the configuration and harvest fees, null for none
+ * @param withdrawWithheldAuthorityElGamalPubkey - ElGamal public key encrypting the withheld fees
+ * @param programId - Token Extension Program ID
+ * @returns Instruction to initialize the confidential transfer fee configuration
+ */
+export function createInitializeConfidentialTransferFeeConfigInstruction(
+  mint: PublicKey,
+  authority: PublicKey | null,
+  withdrawWithheldAuthorityElGamalPubkey: PublicKey | Uint8Array,
+  programId = TOKEN_2022_PROGRAM_ID
+): TransactionInstruction {
+  const elGamalPubkey = withdrawWithheldAuthorityElGamalPubkey instanceof PublicKey
+    ? withdrawWithheldAuthorityElGamalPubkey.toBytes()
+    : withdrawWithheldAuthorityElGamalPubkey;
+
+  return new TransactionInstruction({
+    programId,
+    keys: [{ pubkey: mint, isSigner: false, isWritable: true }],
+    data: Buffer.concat([
+      Buffer.from([CONFIDENTIAL_TRANSFER_FEE_INSTRUCTION, INITIALIZE_CONFIDENTIAL_TRANSFER_FEE_CONFIG]),
+      (authority ?? PublicKey.default).toBuffer(),
+      checkLength("ElGamal public key", elGamalPubkey, ELGAMAL_PUBKEY_SIZE),
+    ]),
+  });
+}
+
+/**
+ * Create instruction to update the confidential transfer configuration of a mint
+ * @param mint - Mint address
+ * @param authority - Confidential transfer authority of the mint
+ * @param autoApproveNewAccounts - Whether accounts can be used without approval
+ * @param auditorElGamalPubkey - ElGamal public key of the auditor, null to remove it
+ * @param multiSigners - Signers if the authority is a multisig
+ * @param programId - Token Extension Program ID
+ * @returns Instruction to update the confidential transfer mint
+ */
+export function createUpdateConfidentialTransferMintInstruction(
+  mint: PublicKey,
+  authority: PublicKey,
+  autoApproveNewAccounts: boolean,
+  auditorElGamalPubkey: PublicKey | Uint8Array | null,
+  multiSigners: (Signer | PublicKey)[] = [],
+  programId = TOKEN_2022_PROGRAM_ID
+): TransactionInstruction {
+  return new TransactionInstruction({
+    programId,
+    keys: addAuthority([{ pubkey: mint, isSigner: false, isWritable: true }], authority, multiSigners),
+    data: encodeInstruction(
+      ConfidentialTransferInstruction.UpdateMint,
+      Buffer.from([autoApproveNewAccounts ? 1 : 0]),
+      encodeOptionalElGamalPubkey(auditorElGamalPubkey)
+    ),
+  });
+}
+
+/**
+ * Create instruction to configure a token account for confidential transfers
+ *
+ * The account must have room for ConfidentialTransferAccount (see Reallocate).
+ * The ElGamal public key comes from the accompanying PubkeyValidity proof.
+ *
+ * @param account - Token account address
+ * @param mint - Mint address
+ * @param decryptableZeroBalance - AE encryption of zero under the owner's AE key (36 bytes)
+ * @param maximumPendingBalanceCreditCounter - Credits allowed before the pending balance must be applied
+ * @param proofLocation - Location of the PubkeyValidity proof
+ * @param owner - Owner of the token account
+ * @param multiSigners - Signers if the owner is a multisig
+ * @param programId - Token Extension Program ID
+ * @returns Instruction to configure the account
+ */
+export function createConfigureAccountInstruction(
+  account: PublicKey,
+  mint: PublicKey,
+  decryptableZeroBalance: Uint8Array,
+  maximumPendingBalanceCreditCounter: bigint,
+  proofLocation: ProofLocation,
+  owner: PublicKey,
+  multiSigners: (Signer | PublicKey)[] = [],
+  programId = TOKEN_2022_PROGRAM_ID
+): TransactionInstruction {
+  const keys: AccountMeta[] = [
+    { pubkey: account, isSigner: false, isWritable: true },
+    { pubkey: mint, isSigner: false, isWritable: false },
+  ];
+  const offsets = addProofLocations(keys, [proofLocation]);
+
+  return new TransactionInstruction({
+    programId,
+    keys: addAuthority(keys, owner, multiSigners),
+    data: encodeInstruction(
+      ConfidentialTransferInstruction.ConfigureAccount,
+      checkLength("Decryptable zero balance", decryptableZeroBalance, AE_CIPHERTEXT_SIZE),
+      encodeU64(maximumPendingBalanceCreditCounter),
+      encodeOffsets(offsets)
+    ),
+  });
+}
+
+/**
+ * Create instruction to approve a token account for confidential transfers
+ * @param account - Token account address
+ * @param mint - Mint address
+ * @param authority - Confidential transfer authority of the mint
+ * @param multiSigners - Signers if the authority is a multisig
+ * @param programId - Token Extension Program ID
+ * @returns Instruction to approve the account
+ */
+export function createApproveAccountInstruction(
+  account: PublicKey,
+  mint: PublicKey,
+  authority: PublicKey,
+  multiSigners: (Signer | PublicKey)[] = [],
+  programId = TOKEN_2022_PROGRAM_ID
+): TransactionInstruction {
+  return new TransactionInstruction({
+    programId,
+    keys: addAuthority(
+      [
+        { pubkey: account, isSigner: false, isWritable: true },
+        { pubkey: mint, isSigner: false, isWritable: false },
+      ],
+      authority,
+      multiSigners
+    ),
+    data: encodeInstruction(ConfidentialTransferInstruction.ApproveAccount),
+  });
+}
+
+/**
+ * Create instruction to move tokens from the public balance to the pending confidential balance
+ * @param account - Token account address
+ * @param mint - Mint address
+ * @param amount - Amount to deposit
+ * @param decimals - Mint decimals
+ * @param owner - Owner of the token account
+ * @param multiSigners - Signers if the owner is a multisig
+ * @param programId - Token Extension Program ID
+ * @returns Instruction to deposit
+ */
+export function createDepositInstruction(
+  account: PublicKey,
+  mint: PublicKey,
+  amount: bigint,
+  decimals: number,
+  owner: PublicKey,
+  multiSigners: (Signer | PublicKey)[] = [],
+  programId = TOKEN_2022_PROGRAM_ID
+): TransactionInstruction {
+  return new TransactionInstruction({
+    programId,
+    keys: addAuthority(
+      [
+        { pubkey: account, isSigner: false, isWritable: true },
+        { pubkey: mint, isSigner: false, isWritable: false },
+      ],
+      owner,
+      multiSigners
+    ),
+    data: encodeInstruction(ConfidentialTransferInstruction.Deposit, encodeU64(amount), Buffer.from([decimals])),
+  });
+}
+
+/**
+ * Create instruction to move the pending confidential balance into the available balance
+ * @param account - Token account address
+ * @param expectedPendingBalanceCreditCounter - Pending balance credit counter the new balance accounts for
+ * @param newDecryptableAvailableBalance - AE ciphertext of the new available balance (36 bytes)
+ * @param owner - Owner of the token account
+ * @param multiSigners - Signers if the owner is a multisig
+ * @param programId - Token Extension Program ID
+ * @returns Instruction to apply the pending balance
+ */
+export function createApplyPendingBalanceInstruction(
+  account: PublicKey,
+  expectedPendingBalanceCreditCounter: bigint,
+  newDecryptableAvailableBalance: Uint8Array,
+  owner: PublicKey,
+  multiSigners: (Signer | PublicKey)[] = [],
+  programId = TOKEN_2022_PROGRAM_ID
+): TransactionInstruction {
+  return new TransactionInstruction({
+    programId,
+    keys: addAuthority([{ pubkey: account, isSigner: false, isWritable: true }], owner, multiSigners),
+    data: encodeInstruction(
+      ConfidentialTransferInstruction.ApplyPendingBalance,
+      encodeU64(expectedPendingBalanceCreditCounter),
+      checkLength("Decryptable available balance", newDecryptableAvailableBalance, AE_CIPHERTEXT_SIZE)
+    ),
+  });
+}
+
+/**
+ * Create instruction to move tokens from the available confidential balance to the public balance
+ * @param account - Token account address
+ * @param mint - Mint address
+ * @param amount - Amount to withdraw
+ * @param decimals - Mint decimals
+ * @param newDecryptableAvailableBalance - AE ciphertext of the remaining available balance (36 bytes)
+ * @param equalityProofLocation - Location of the CiphertextCommitmentEquality proof
+ * @param rangeProofLocation - Location of the BatchedRangeProofU64 proof
+ * @param owner - Owner of the token account
+ * @param multiSigners - Signers if the owner is a multisig
+ * @param programId - Token Extension Program ID
+ * @returns Instruction to withdraw
+ */
+export function createWithdrawInstruction(
+  account: PublicKey,
+  mint: PublicKey,
+  amount: bigint,
+  decimals: number,
+  newDecryptableAvailableBalance: Uint8Array,
+  equalityProofLocation: ProofLocation,
+  rangeProofLocation: ProofLocation,
+  owner: PublicKey,
+  multiSigners: (Signer | PublicKey)[] = [],
+  programId = TOKEN_2022_PROGRAM_ID
+): TransactionInstruction {
+  const keys: AccountMeta[] = [
+    { pubkey: account, isSigner: false, isWritable: true },
+    { pubkey: mint, isSigner: false, isWritable: false },
+  ];
+  const offsets = addProofLocations(keys, [equalityProofLocation, rangeProofLocation]);
+
+  return new TransactionInstruction({
+    programId,
+    keys: addAuthority(keys, owner, multiSigners),
+    data: encodeInstruction(
+      ConfidentialTransferInstruction.Withdraw,
+      encodeU64(amount),
+      Buffer.from([decimals]),
+      checkLength("Decryptable available balance", newDecryptableAvailableBalance, AE_CIPHERTEXT_SIZE),
+      encodeOffsets(offsets)
+    ),
+  });
+}
+
+/**
+ * Create instruction for a confidential transfer between two configured accounts
+ * @param source - Source token account
+ * @param mint - Mint address
+ * @param destination - Destination token account
+ * @param newSourceDecryptableAvailableBalance - AE ciphertext of the source balance after the transfer (36 bytes)
+ * @param auditorCiphertextLo - Low bits of the amount encrypted for the auditor (64 bytes)
+ * @param auditorCiphertextHi - High bits of the amount encrypted for the auditor (64 bytes)
+ * @param equalityProofLocation - Location of the CiphertextCommitmentEquality proof
+ * @param ciphertextValidityProofLocation - Location of the BatchedGroupedCiphertext3HandlesValidity proof
+ * @param rangeProofLocation - Location of the BatchedRangeProofU128 proof
+ * @param owner - Owner of the source account
+ * @param multiSigners - Signers if the owner is a multisig
+ * @param programId - Token Extension Program ID
+ * @returns Instruction to transfer
+ */
+export function createConfidentialTransferInstruction(
+  source: PublicKey,
+  mint: PublicKey,
+  destination: PublicKey,
+  newSourceDecryptableAvailableBalance: Uint8Array,
+  auditorCiphertextLo: Uint8Array,
+  auditorCiphertextHi: Uint8Array,
+  equalityProofLocation: ProofLocation,
+  ciphertextValidityProofLocation: ProofLocation,
+  rangeProofLocation: ProofLocation,
+  owner: PublicKey,
+  multiSigners: (Signer | PublicKey)[] = [],
+  programId = TOKEN_2022_PROGRAM_ID
+): TransactionInstruction {
+  const keys: AccountMeta[] = [
+    { pubkey: source, isSigner: false, isWritable: true },
+    { pubkey: mint, isSigner: false, isWritable: false },
+    { pubkey: destination, isSigner: false, isWritable: true },
+  ];
+  const offsets = addProofLocations(keys, [
+    equalityProofLocation,
+    ciphertextValidityProofLocation,
+    rangeProofLocation,
+  ]);
+
+  return new TransactionInstruction({
+    programId,
+    keys: addAuthority(keys, owner, multiSigners),
+    data: encodeInstruction(
+      ConfidentialTransferInstruction.Transfer,
+      checkLength("Decryptable available balance", newSourceDecryptableAvailableBalance, AE_CIPHERTEXT_SIZE),
+      checkLength("Auditor ciphertext", auditorCiphertextLo, ELGAMAL_CIPHERTEXT_SIZE),
+      checkLength("Auditor ciphertext", auditorCiphertextHi, ELGAMAL_CIPHERTEXT_SIZE),
+      encodeOffsets(offsets)
+    ),
+  });
+}
+
+/**
+ * Create instruction to verify a proof with the ZK ElGamal proof program
+ *
+ * Without a context state the proof is only checked, for use with an instruction offset.
+ *
+ * @param proofType - Proof type
+ * @param proofData - Proof data (context followed by proof)
+ * @param contextState - Account to store the verified context in, with its authority
+ * @returns Verify instruction
+ */
+export function createVerifyProofInstruction(
+  proofType: ZkProofType,
+  proofData: Uint8Array,
+  contextState?: { account: PublicKey; authority: PublicKey }
+): TransactionInstruction {
+  const keys: AccountMeta[] = contextState
+    ? [
+        { pubkey: contextState.account, isSigner: false, isWritable: true },
+        { pubkey: contextState.authority, isSigner: false, isWritable: false },
+      ]
+    : [];
+
+  return new TransactionInstruction({
+    programId: ZK_ELGAMAL_PROOF_PROGRAM_ID,
+    keys,
+    data: Buffer.concat([Buffer.from([proofType]), Buffer.from(proofData)]),
+  });
+}
+
+/**
+ * Create instructions to verify a proof into a new context state account
+ * @param connection - Connection to Solana cluster
+ * @param payer - Public key of the fee payer
+ * @param authority - Authority allowed to close the context state account
+ * @param proofType - Proof type
+ * @param proofData - Proof data (context followed by proof)
+ * @returns Instructions, signers, and context state address
+ */
+export async function createProofContextStateInstructions(
+  connection: Connection,
+  payer: PublicKey,
+  authority: PublicKey,
+  proofType: ZkProofType,
+  proofData: Uint8Array
+): Promise<{
+  instructions: TransactionInstruction[];
+  signers: Keypair[];
+  contextState: PublicKey;
+}> {
+  const contextKeypair = Keypair.generate();
+  const space = PROOF_CONTEXT_STATE_HEADER_SIZE + PROOF_CONTEXT_SIZES[proofType];
+  const lamports = await connection.getMinimumBalanceForRentExemption(space);
+
+  return {
+    instructions: [
+      SystemProgram.createAccount({
+        fromPubkey: payer,
+        newAccountPubkey: contextKeypair.publicKey,
+        space,
+        lamports,
+        programId: ZK_ELGAMAL_PROOF_PROGRAM_ID,
+      }),
+      createVerifyProofInstruction(proofType, proofData, {
+        account: contextKeypair.publicKey,
+        authority,
+      }),
+    ],
+    signers: [contextKeypair],
+    contextState: contextKeypair.publicKey,
+  };
+}
+
+/**
+ * Create instruction to close a proof context state account
+ * @param contextState - Context state account
+ * @param destination - Account receiving the rent
+ * @param authority - Context state authority
+ * @returns Close instruction
+ */
+export function createCloseContextStateInstruction(
+  contextState: PublicKey,
+  destination: PublicKey,
+  authority: PublicKey
+): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: ZK_ELGAMAL_PROOF_PROGRAM_ID,
+    keys: [
+      { pubkey: contextState, isSigner: false, isWritable: true },
+      { pubkey: destination, isSigner: false, isWritable: true },
+      { pubkey: authority, isSigner: true, isWritable: false },
+    ],
+    data: Buffer.from([CLOSE_CONTEXT_STATE_INSTRUCTION]),
+  });
+}
@@ -0,0 +1,112 @@
+import { Keypair } from "@solana/web3.js";
+import { AeKey, ElGamalKeypair } from "./keys";
+
+// Vectors produced with the Solana ZK SDK (@solana/zk-sdk 0.4.1)
+const SECRET_KEY = "0102030405060708090a0b0c0d0e0f101112131415161718191a1b1c1d1e1f0a";
+const PUBLIC_KEY = "8077f4c9a6cb2971d81aeeee6f82d09729649685b540c6f733f20a7fa3229331";
+const CIPHERTEXTS: [bigint, string][] = [
+  [
+    BigInt(0),
+    "6e31408bd80551884fd8473bd7c1974016ba8fca343da207c01ad2b22fbde312943c58d1771eeb5602f2d543912881fda2cf69b14fc1396780e9ddee4c505673",
+  ],
+  [
+    BigInt(42),
+    "d0defa02b5facef3911fff89f7f86fc0d50bdcea1534a141c7db404bcf739f7a8eb357ac14d6a047661c7cf7b7121bc5a9b26c5963b19009f003e0f2f8c81d03",
+  ],
+  [
+    BigInt(70000),
+    "86c65824c97635e415bfc595d7e1e80a86364d6495a3714a77b0cd69d3518053368b023ff3cf86540a37f90110de300734d0b90410127dc8dcc8369ffd90dc10",
+  ],
+];
+const AE_KEY = "000102030405060708090a0b0c0d0e0f";
+const AE_CIPHERTEXT = "31931205aeda2d36143565af725749a544105b25e4236a3f2f3630a3d1fb8975be388da2";
+
+// Keys derived from SEED: its sha3_512 digest reduced modulo the curve order, and the digest's first 16 bytes
+const SEED = Uint8Array.from({ length: 32 }, (_, i) => i);
+const SEED_SECRET_KEY = "6ab288a3c359314399ff7e4be520527c7a9cf3f5d391540e245949e072f9d70d";
+const SEED_AE_KEY = "cbd3f6eeba676b21e0f2c47522292482";
+
+function hex(data: Uint8Array): string {
+  return Buffer.from(data).toString("hex");
+}
+
+describe("ElGamalKeypair", () => {
+  const keypair = ElGamalKeypair.fromSecretKey(Buffer.from(SECRET_KEY, "hex"));
+
+  it("derives the public key of the ZK SDK", () => {
+    expect(hex(keypair.publicKey)).toBe(PUBLIC_KEY);
+    expect(hex(keypair.secretKey)).toBe(SECRET_KEY);
+  });
+
+  it("decrypts ciphertexts of the ZK SDK", () => {
+    for (const [amount, ciphertext] of CIPHERTEXTS) {
+      expect(keypair.decrypt(Buffer.from(ciphertext, "hex"))).toBe(amount);
+    }
+  });
+
+  it("decrypts its own ciphertexts", () => {
+    for (const amount of [0, 1, 65535, 65536, 4294967295].map(BigInt)) {
+      expect(keypair.decrypt(keypair.encrypt(amount))).toBe(amount);
+    }
+  });
+
+  it("fails on amounts above the search bound", () => {
+    expect(() => keypair.decrypt(keypair.encrypt(BigInt(70000)), 16)).toThrow("below 2^16");
+  });
+
+  it("derives the secret key from a seed like the ZK SDK", () => {
+    expect(hex(ElGamalKeypair.fromSeed(SEED).secretKey)).toBe(SEED_SECRET_KEY);
+  });
+
+  it("derives the same keypair from the same signer and public seed", async () => {
+    const owner = Keypair.generate();
+    const account = Keypair.generate().publicKey;
+    const first = await ElGamalKeypair.fromSigner(owner, account);
+    const second = await ElGamalKeypair.fromSigner(owner, account);
+    const other = await ElGamalKeypair.fromSigner(owner, Keypair.generate().publicKey);
+
+    expect(hex(first.publicKey)).toBe(hex(second.publicKey));
+    expect(hex(first.publicKey)).not.toBe(hex(other.publicKey));
+  });
+
+  it("rejects invalid key material", () => {
+    expect(() => ElGamalKeypair.fromSeed(new Uint8Array(31))).toThrow("Seed must be between 32 and 65535 bytes");
+    expect(() => ElGamalKeypair.fromSecretKey(new Uint8Array(32))).toThrow("must not be zero");
+    expect(() => ElGamalKeypair.fromSecretKey(new Uint8Array(32).fill(255))).toThrow("not a canonical scalar");
+    expect(() => ElGamalKeypair.fromSecretKey(new Uint8Array(16))).toThrow("must be 32 bytes");
+  });
+});
+
+describe("AeKey", () => {
+  const key = AeKey.fromBytes(Buffer.from(AE_KEY, "hex"));
+
+  it("decrypts ciphertexts of the ZK SDK", () => {
+    expect(key.decrypt(Buffer.from(AE_CIPHERTEXT, "hex"))).toBe(BigInt("1234567890123"));
+  });
+
+  it("decrypts its own ciphertexts", () => {
+    expect(key.decrypt(key.encrypt(BigInt("18446744073709551615")))).toBe(BigInt("18446744073709551615"));
+  });
+
+  it("derives the key from a seed like the ZK SDK", () => {
+    const ciphertext = AeKey.fromBytes(Buffer.from(SEED_AE_KEY, "hex")).encrypt(BigInt(99));
+    expect(AeKey.fromSeed(SEED).decrypt(ciphertext)).toBe(BigInt(99));
+  });
+
+  it("accepts seeds as short as the key", () => {
+    const shortSeedKey = AeKey.fromBytes(Buffer.from("b1241c96b35ee185e39a58e5b481925b", "hex"));
+    const ciphertext = shortSeedKey.encrypt(BigInt(7));
+    expect(AeKey.fromSeed(SEED.subarray(0, 16)).decrypt(ciphertext)).toBe(BigInt(7));
+    expect(() => AeKey.fromSeed(SEED.subarray(0, 15))).toThrow("Seed must be between 16 and 65535 bytes");
+  });
+
+  it("rejects ciphertexts of another key", () => {
+    const ciphertext = AeKey.fromSeed(SEED).encrypt(BigInt(99));
+    expect(() => key.decrypt(ciphertext)).toThrow("Could not decrypt balance");
+  });
+
+  it("rejects invalid key material", () => {
+    expect(() => AeKey.fromBytes(new Uint8Array(32))).toThrow("AE key must be 16 bytes");
+    expect(() => key.decrypt(new Uint8Array(12))).toThrow("AE ciphertext must be 36 bytes");
+  });
+});
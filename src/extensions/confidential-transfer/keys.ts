@@ -0,0 +1,392 @@
+import { Keypair, PublicKey } from "@solana/web3.js";
+import { RistrettoPoint, ed25519 } from "@noble/curves/ed25519";
+import { ExtPointType } from "@noble/curves/abstract/edwards";
+import { invert, mod } from "@noble/curves/abstract/modular";
+import { bytesToNumberLE, numberToBytesLE } from "@noble/curves/abstract/utils";
+import { gcmsiv } from "@noble/ciphers/aes";
+import { sha3_512 } from "@noble/hashes/sha3";
+import { randomBytes } from "@noble/hashes/utils";
+import { ConfidentialTransferAccountState } from "../../utils/extension-decoder";
+
+/**
+ * Anything able to sign a message with the owner's key: a Keypair or a wallet exposing signMessage
+ */
+export type ConfidentialKeySigner =
+  | Keypair
+  | { signMessage(message: Uint8Array): Promise<Uint8Array> | Uint8Array };
+
+type RistrettoPointType = ReturnType<typeof RistrettoPoint.fromHex>;
+
+const CURVE_ORDER = ed25519.CURVE.n;
+const Fp = ed25519.CURVE.Fp;
+
+// Seeds must be at least as long as the key they derive, as in the ZK SDK
+const ELGAMAL_SEED_MIN_LENGTH = 32;
+const SEED_MAX_LENGTH = 65535;
+const ELGAMAL_SIGNING_PREFIX = new TextEncoder().encode("ElGamalSecretKey");
+const AE_SIGNING_PREFIX = new TextEncoder().encode("AeKey");
+
+const AE_KEY_LENGTH = 16;
+const AE_NONCE_LENGTH = 12;
+const AE_CIPHERTEXT_LENGTH = 36;
+const ELGAMAL_CIPHERTEXT_LENGTH = 64;
+
+// Pending balances are split into a low part of 16 bits and a high part
+const PENDING_BALANCE_LO_BIT_LENGTH = BigInt(16);
+
+// Pedersen generators: G is the ristretto basepoint, H is derived from it
+const G = RistrettoPoint.BASE;
+const H = RistrettoPoint.hashToCurve(sha3_512(G.toRawBytes()));
+
+async function signSeed(signer: ConfidentialKeySigner, prefix: Uint8Array, publicSeed: PublicKey | Uint8Array): Promise<Uint8Array> {
+  const seed = publicSeed instanceof PublicKey ? publicSeed.toBytes() : publicSeed;
+  const message = new Uint8Array(prefix.length + seed.length);
+  message.set(prefix);
+  message.set(seed, prefix.length);
+
+  const signature = signer instanceof Keypair
+    ? ed25519.sign(message, signer.secretKey.slice(0, 32))
+    : await signer.signMessage(message);
+
+  // Some signers return the default signature, which is not usable as key material
+  if (signature.every((byte) => byte === 0)) {
+    throw new Error("Signer returned the default signature");
+  }
+  return signature;
+}
+
+function checkSeed(seed: Uint8Array, minLength: number): void {
+  if (seed.length < minLength || seed.length > SEED_MAX_LENGTH) {
+    throw new Error(`Seed must be between ${minLength} and ${SEED_MAX_LENGTH} bytes`);
+  }
+}
+
+function checkLength(name: string, data: Uint8Array, length: number): void {
+  if (data.length !== length) {
+    throw new Error(`${name} must be ${length} bytes, got ${data.length}`);
+  }
+}
+
+// Discrete log by baby-step giant-step on cofactor-cleared Edwards points.
+// Ristretto encodings are too slow to hash every step, and the Edwards representative
+// of a decoded ristretto point may differ by torsion, which the cofactor removes.
+const BABY_STEPS = 1 << 16;
+const GIANT_STEP_BATCH = 1024;
+const DLOG_BASE = ed25519.ExtendedPoint.BASE.clearCofactor();
+let babyStepTable: Map<bigint, number> | undefined;
+
+function isNegative(value: bigint): boolean {
+  return (Fp.create(value) & BigInt(1)) === BigInt(1);
+}
+
+// Ristretto decoding (RFC 9496, section 4.3.1) from its canonical encoding, which RistrettoPoint
+// already validated, to one of the Edwards points the ristretto point represents
+function toEdwards(point: RistrettoPointType): ExtPointType {
+  const { a, d, uvRatio } = ed25519.CURVE;
+  const s = bytesToNumberLE(point.toRawBytes());
+  const s2 = Fp.sqr(s);
+  const u1 = Fp.create(BigInt(1) + a * s2);
+  const u2 = Fp.create(BigInt(1) - a * s2);
+  const u2Squared = Fp.sqr(u2);
+  const v = Fp.create(a * d * Fp.sqr(u1) - u2Squared);
+  const { value: invSqrt } = (uvRatio as NonNullable<typeof uvRatio>)(BigInt(1), Fp.mul(v, u2Squared));
+  const denX = Fp.mul(invSqrt, u2);
+  const denY = Fp.mul(Fp.mul(invSqrt, denX), v);
+  let x = Fp.mul(s + s, denX);
+  if (isNegative(x)) {
+    x = Fp.neg(x);
+  }
+  const y = Fp.mul(u1, denY);
+  return new ed25519.ExtendedPoint(x, y, BigInt(1), Fp.mul(x, y));
+}
+
+function affineX(points: ExtPointType[]): bigint[] {
+  const inverses = Fp.invertBatch(points.map((point) => point.ez));
+  return points.map((point, index) => Fp.mul(point.ex, inverses[index]));
+}
+
+function getBabyStepTable(): Map<bigint, number> {
+  if (!babyStepTable) {
+    const points: ExtPointType[] = [];
+    let point = ed25519.ExtendedPoint.ZERO;
+    for (let j = 0; j < BABY_STEPS; j++) {
+      points.push(point);
+      point = point.add(DLOG_BASE);
+    }
+
+    // Within the prime-order subgroup the x coordinate identifies a point
+    const table = new Map<bigint, number>();
+    affineX(points).forEach((x, j) => table.set(x, j));
+    babyStepTable = table;
+  }
+  return babyStepTable;
+}
+
+function discreteLog(point: RistrettoPointType, maxBits: number): bigint | null {
+  const table = getBabyStepTable();
+  const giantStep = DLOG_BASE.multiply(BigInt(BABY_STEPS)).negate();
+  const giantSteps = Math.ceil(2 ** maxBits / BABY_STEPS);
+
+  let current = toEdwards(point).clearCofactor();
+  for (let start = 0; start < giantSteps; start += GIANT_STEP_BATCH) {
+    const batch: ExtPointType[] = [];
+    for (let i = start; i < Math.min(start + GIANT_STEP_BATCH, giantSteps); i++) {
+      batch.push(current);
+      current = current.add(giantStep);
+    }
+
+    const xs = affineX(batch);
+    for (let index = 0; index < xs.length; index++) {
+      const j = table.get(xs[index]);
+      if (j !== undefined) {
+        return BigInt(start + index) * BigInt(BABY_STEPS) + BigInt(j);
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * ElGamal keypair of a confidential token account
+ *
+ * Compatible with the ElGamal keys of the Solana ZK SDK: the secret is derived from a
+ * signature of "ElGamalSecretKey" + public seed (usually the token account address).
+ */
+export class ElGamalKeypair {
+  private readonly secret: bigint;
+
+  /** ElGamal public key (32 bytes) as stored in ConfidentialTransferAccount */
+  readonly publicKey: Uint8Array;
+
+  private constructor(secret: bigint) {
+    if (secret === BigInt(0)) {
+      throw new Error("ElGamal secret key must not be zero");
+    }
+    this.secret = secret;
+    this.publicKey = H.multiply(invert(secret, CURVE_ORDER)).toRawBytes();
+  }
+
+  /**
+   * Derive the keypair of a token account from its owner's signature
+   * @param signer - Owner keypair or wallet
+   * @param publicSeed - Public seed, usually the token account address
+   * @returns ElGamal keypair
+   */
+  static async fromSigner(signer: ConfidentialKeySigner, publicSeed: PublicKey | Uint8Array): Promise<ElGamalKeypair> {
+    return ElGamalKeypair.fromSeed(await signSeed(signer, ELGAMAL_SIGNING_PREFIX, publicSeed));
+  }
+
+  /**
+   * Derive a keypair from secret seed material
+   * @param seed - Seed of 32 to 65535 bytes
+   * @returns ElGamal keypair
+   */
+  static fromSeed(seed: Uint8Array): ElGamalKeypair {
+    checkSeed(seed, ELGAMAL_SEED_MIN_LENGTH);
+    return new ElGamalKeypair(mod(bytesToNumberLE(sha3_512(seed)), CURVE_ORDER));
+  }
+
+  /**
+   * Restore a keypair from its secret key
+   * @param secretKey - Secret scalar (32 bytes, little-endian)
+   * @returns ElGamal keypair
+   */
+  static fromSecretKey(secretKey: Uint8Array): ElGamalKeypair {
+    checkLength("ElGamal secret key", secretKey, 32);
+    const secret = bytesToNumberLE(secretKey);
+    if (secret >= CURVE_ORDER) {
+      throw new Error("ElGamal secret key is not a canonical scalar");
+    }
+    return new ElGamalKeypair(secret);
+  }
+
+  /** Secret scalar (32 bytes, little-endian) */
+  get secretKey(): Uint8Array {
+    return numberToBytesLE(this.secret, 32);
+  }
+
+  /**
+   * Encrypt an amount under this public key
+   * @param amount - Amount to encrypt
+   * @returns Ciphertext (64 bytes: commitment then decrypt handle)
+   */
+  encrypt(amount: bigint): Uint8Array {
+    const opening = mod(bytesToNumberLE(randomBytes(64)), CURVE_ORDER) || BigInt(1);
+    const commitment = G.multiplyUnsafe(amount).add(H.multiply(opening));
+    const handle = RistrettoPoint.fromHex(this.publicKey).multiply(opening);
+
+    const ciphertext = new Uint8Array(ELGAMAL_CIPHERTEXT_LENGTH);
+    ciphertext.set(commitment.toRawBytes());
+    ciphertext.set(handle.toRawBytes(), 32);
+    return ciphertext;
+  }
+
+  /**
+   * Decrypt a ciphertext encrypting a small amount
+   *
+   * Decryption solves a discrete log, so it is bounded by maxBits.
+   * The first call builds a lookup table, which takes a moment.
+   *
+   * @param ciphertext - Ciphertext (64 bytes)
+   * @param maxBits - Largest bit length of the amount to search for
+   * @returns Decrypted amount
+   */
+  decrypt(ciphertext: Uint8Array, maxBits = 32): bigint {
+    checkLength("ElGamal ciphertext", ciphertext, ELGAMAL_CIPHERTEXT_LENGTH);
+    const commitment = RistrettoPoint.fromHex(ciphertext.slice(0, 32));
+    const handle = RistrettoPoint.fromHex(ciphertext.slice(32));
+
+    const amount = discreteLog(commitment.subtract(handle.multiply(this.secret)), maxBits);
+    if (amount === null) {
+      throw new Error(`Ciphertext does not encrypt an amount below 2^${maxBits}`);
+    }
+    return amount;
+  }
+}
+
+/**
+ * Authenticated encryption key of a confidential token account
+ *
+ * Encrypts the decryptable balances with AES-128-GCM-SIV, like the Solana ZK SDK.
+ */
+export class AeKey {
+  private readonly key: Uint8Array;
+
+  private constructor(key: Uint8Array) {
+    this.key = key;
+  }
+
+  /**
+   * Derive the key of a token account from its owner's signature
+   * @param signer - Owner keypair or wallet
+   * @param publicSeed - Public seed, usually the token account address
+   * @returns AE key
+   */
+  static async fromSigner(signer: ConfidentialKeySigner, publicSeed: PublicKey | Uint8Array): Promise<AeKey> {
+    return AeKey.fromSeed(await signSeed(signer, AE_SIGNING_PREFIX, publicSeed));
+  }
+
+  /**
+   * Derive a key from secret seed material
+   * @param seed - Seed of 16 to 65535 bytes
+   * @returns AE key
+   */
+  static fromSeed(seed: Uint8Array): AeKey {
+    checkSeed(seed, AE_KEY_LENGTH);
+    return new AeKey(sha3_512(seed).slice(0, AE_KEY_LENGTH));
+  }
+
+  /**
+   * Restore a key from its bytes
+   * @param key - Key bytes (16 bytes)
+   * @returns AE key
+   */
+  static fromBytes(key: Uint8Array): AeKey {
+    checkLength("AE key", key, AE_KEY_LENGTH);
+    return new AeKey(Uint8Array.from(key));
+  }
+
+  /**
+   * Encrypt a balance
+   * @param amount - Balance to encrypt
+   * @returns Ciphertext (36 bytes: nonce then ciphertext)
+   */
+  encrypt(amount: bigint): Uint8Array {
+    const nonce = randomBytes(AE_NONCE_LENGTH);
+    const ciphertext = new Uint8Array(AE_CIPHERTEXT_LENGTH);
+    ciphertext.set(nonce);
+    ciphertext.set(gcmsiv(this.key, nonce).encrypt(numberToBytesLE(amount, 8)), AE_NONCE_LENGTH);
+    return ciphertext;
+  }
+
+  /**
+   * Decrypt a balance
+   * @param ciphertext - Ciphertext (36 bytes)
+   * @returns Decrypted balance
+   */
+  decrypt(ciphertext: Uint8Array): bigint {
+    checkLength("AE ciphertext", ciphertext, AE_CIPHERTEXT_LENGTH);
+    try {
+      const plaintext = gcmsiv(this.key, ciphertext.slice(0, AE_NONCE_LENGTH)).decrypt(ciphertext.slice(AE_NONCE_LENGTH));
+      return bytesToNumberLE(plaintext);
+    } catch (error: any) {
+      throw new Error(`Could not decrypt balance: ${error.message}`);
+    }
+  }
+}
+
+/**
+ * Decrypted view of a ConfidentialTransferAccount
+ */
+export interface ConfidentialBalanceSummary {
+  approved: boolean;
+  /** Balance that can be spent, from the decryptable available balance */
+  availableBalance: bigint;
+  /** Incoming balance waiting for ApplyPendingBalance */
+  pendingBalance: bigint;
+  totalBalance: bigint;
+  pendingBalanceCreditCounter: bigint;
+  maximumPendingBalanceCreditCounter: bigint;
+  allowConfidentialCredits: boolean;
+  allowNonConfidentialCredits: boolean;
+}
+
+/**
+ * Decrypt the balances of a confidential token account
+ * @param state - ConfidentialTransferAccount state
+ * @param elgamalKeypair - ElGamal keypair of the account
+ * @param aeKey - AE key of the account
+ * @returns Balance summary
+ */
+export function getConfidentialBalanceSummary(
+  state: ConfidentialTransferAccountState,
+  elgamalKeypair: ElGamalKeypair,
+  aeKey: AeKey
+): ConfidentialBalanceSummary {
+  if (!Buffer.from(elgamalKeypair.publicKey).equals(state.elgamalPubkey)) {
+    throw new Error("ElGamal keypair does not match the account");
+  }
+
+  const availableBalance = aeKey.decrypt(state.decryptableAvailableBalance);
+  const pendingBalanceLo = elgamalKeypair.decrypt(state.pendingBalanceLo);
+  const pendingBalanceHi = elgamalKeypair.decrypt(state.pendingBalanceHi);
+  const pendingBalance = pendingBalanceLo + (pendingBalanceHi << PENDING_BALANCE_LO_BIT_LENGTH);
+
+  return {
+    approved: state.approved,
+    availableBalance,
+    pendingBalance,
+    totalBalance: availableBalance + pendingBalance,
+    pendingBalanceCreditCounter: state.pendingBalanceCreditCounter,
+    maximumPendingBalanceCreditCounter: state.maximumPendingBalanceCreditCounter,
+    allowConfidentialCredits: state.allowConfidentialCredits,
+    allowNonConfidentialCredits: state.allowNonConfidentialCredits,
+  };
+}
+
+function formatAmount(amount: bigint, decimals: number): string {
+  const digits = amount.toString().padStart(decimals + 1, "0");
+  if (decimals === 0) {
+    return digits;
+  }
+  const fraction = digits.slice(-decimals).replace(/0+$/, "");
+  const integer = digits.slice(0, -decimals);
+  return fraction ? `${integer}.${fraction}` : integer;
+}
+
+/**
+ * Render a balance summary for display
+ * @param summary - Balance summary
+ * @param decimals - Mint decimals
+ * @returns Multi-line description
+ */
+export function formatConfidentialBalanceSummary(summary: ConfidentialBalanceSummary, decimals: number): string {
+  return [
+    `Available: ${formatAmount(summary.availableBalance, decimals)}`,
+    `Pending: ${formatAmount(summary.pendingBalance, decimals)} (${summary.pendingBalanceCreditCounter}/${summary.maximumPendingBalanceCreditCounter} credits)`,
+    `Total: ${formatAmount(summary.totalBalance, decimals)}`,
+    `Approved: ${summary.approved ? "yes" : "no"}`,
+    `Confidential credits: ${summary.allowConfidentialCredits ? "allowed" : "blocked"}`,
+    `Non-confidential credits: ${summary.allowNonConfidentialCredits ? "allowed" : "blocked"}`,
+  ].join("\n");
+}
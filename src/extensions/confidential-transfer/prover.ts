@@ -0,0 +1,79 @@
+import { ConfidentialTransferAccountState } from "../../utils/extension-decoder";
+
+/**
+ * Inputs for the proofs of a confidential withdrawal
+ */
+export interface WithdrawProofInput {
+  /** Current ConfidentialTransferAccount state of the token account */
+  account: ConfidentialTransferAccountState;
+  /** Amount moved back to the non-confidential balance */
+  amount: bigint;
+}
+
+/**
+ * Everything a Withdraw instruction needs from the owner's keys
+ */
+export interface WithdrawProofs {
+  /** AE ciphertext (36 bytes) of the available balance after the withdrawal */
+  newDecryptableAvailableBalance: Uint8Array;
+  /** CiphertextCommitmentEquality proof data */
+  equalityProof: Uint8Array;
+  /** BatchedRangeProofU64 proof data */
+  rangeProof: Uint8Array;
+}
+
+/**
+ * Inputs for the proofs of a confidential transfer
+ */
+export interface TransferProofInput {
+  /** Current ConfidentialTransferAccount state of the source account */
+  sourceAccount: ConfidentialTransferAccountState;
+  /** Amount to transfer */
+  amount: bigint;
+  /** ElGamal public key (32 bytes) of the destination account */
+  destinationElGamalPubkey: Uint8Array;
+  /** ElGamal public key (32 bytes) of the mint auditor, null when the mint has none */
+  auditorElGamalPubkey: Uint8Array | null;
+}
+
+/**
+ * Everything a Transfer instruction needs from the owner's keys
+ */
+export interface TransferProofs {
+  /** AE ciphertext (36 bytes) of the source available balance after the transfer */
+  newSourceDecryptableAvailableBalance: Uint8Array;
+  /** Low 16 bits of the amount encrypted for the auditor (64 bytes, zeros without auditor) */
+  auditorCiphertextLo: Uint8Array;
+  /** High 32 bits of the amount encrypted for the auditor (64 bytes, zeros without auditor) */
+  auditorCiphertextHi: Uint8Array;
+  /** CiphertextCommitmentEquality proof data */
+  equalityProof: Uint8Array;
+  /** BatchedGroupedCiphertext3HandlesValidity proof data */
+  ciphertextValidityProof: Uint8Array;
+  /** BatchedRangeProofU128 proof data */
+  rangeProof: Uint8Array;
+}
+
+/**
+ * Cryptography backend of the confidential transfer flow
+ *
+ * Implementations hold the owner's ElGamal keypair and AE key. Proof data is returned
+ * in the byte layout expected by the ZK ElGamal proof program (context followed by proof),
+ * so any prover (WASM bindings, a remote service, a test double) can be plugged in.
+ */
+export interface ConfidentialTransferProver {
+  /** PubkeyValidity proof data for the owner's ElGamal public key */
+  generatePubkeyValidityProof(): Promise<Uint8Array>;
+
+  /** Encrypt a balance with the owner's AE key, returns the 36-byte ciphertext */
+  encryptDecryptableBalance(amount: bigint): Promise<Uint8Array>;
+
+  /** Compute the AE ciphertext of the available balance once the pending balance is applied */
+  computeApplyPendingBalance(account: ConfidentialTransferAccountState): Promise<Uint8Array>;
+
+  /** Generate the proofs of a withdrawal */
+  generateWithdrawProofs(input: WithdrawProofInput): Promise<WithdrawProofs>;
+
+  /** Generate the proofs of a transfer */
+  generateTransferProofs(input: TransferProofInput): Promise<TransferProofs>;
+}
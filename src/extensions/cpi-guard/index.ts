@@ -1,356 +1,290 @@
-import { 
-  Connection, 
-  PublicKey, 
-  Transaction, 
-  TransactionInstruction, 
+import {
+  Commitment,
+  Connection,
+  PublicKey,
+  Signer,
+  TransactionInstruction,
   SystemProgram,
-  Keypair 
+  Keypair
 } from '@solana/web3.js';
-import { 
-  ExtensionType, 
-  TOKEN_2022_PROGRAM_ID, 
-  createInitializeMintInstruction,
-  getMintLen,
+import {
+  ExtensionType,
+  TOKEN_2022_PROGRAM_ID,
+  createDisableCpiGuardInstruction,
+  createEnableCpiGuardInstruction,
+  createInitializeAccountInstruction,
+  createReallocateInstruction,
+  getAccount,
   getMint
 } from '@solana/spl-token';
-
-/**
- * Create instruction to initialize CPI Guard for mint
- * @param mint - Mint address
- * @param authority - (Optional) Authority address that can enable/disable CPI Guard
- * @param programId - Token Extension Program ID
- * @returns Instruction to initialize CPI Guard
- */
-export function createInitializeCpiGuardInstruction(
-  mint: PublicKey,
-  authority: PublicKey | null = null,
-  programId = TOKEN_2022_PROGRAM_ID
-): TransactionInstruction {
-  const keys = [
-    { pubkey: mint, isSigner: false, isWritable: true },
-  ];
-  
-  if (authority) {
-    keys.push({ pubkey: authority, isSigner: false, isWritable: false });
-  }
-  
-  return new TransactionInstruction({
-    programId,
-    keys,
-    data: Buffer.from([
-      ExtensionType.CpiGuard & 0xff, 
-      (ExtensionType.CpiGuard >> 8) & 0xff, 
-      (ExtensionType.CpiGuard >> 16) & 0xff, 
-      (ExtensionType.CpiGuard >> 24) & 0xff,
-      authority ? 1 : 0 // 1 if authority is provided, 0 otherwise
-    ]),
-  });
-}
+import {
+  CpiGuardState,
+  decodeAccountExtensions,
+  decodeMintExtensions,
+  getExtensionState,
+} from '../../utils/extension-decoder';
+import {
+  TokenExtensionType,
+  calculateAccountLen,
+  getRequiredAccountExtensions,
+} from '../../utils/extension-registry';
 
 /**
  * Class for protection against CPI attacks
+ *
+ * CPI Guard is a token account extension. While it is enabled, programs calling into
+ * Token-2022 cannot transfer, burn, approve or change the owner of the account on the owner's behalf.
  */
 export class CpiGuardExtension {
   private connection: Connection;
-  private mint: PublicKey;
-  
+  private account: PublicKey;
+
   /**
    * Create a new CpiGuardExtension instance
    * @param connection - Connection to Solana cluster
-   * @param mint - Mint address
+   * @param account - Token account address
    */
-  constructor(connection: Connection, mint: PublicKey) {
+  constructor(connection: Connection, account: PublicKey) {
     this.connection = connection;
-    this.mint = mint;
-  }
-  
-  /**
-   * Create instruction to initialize CPI Guard for mint
-   * @param mint - Mint address
-   * @param authority - (Optional) Authority address that can enable/disable CPI Guard
-   * @param programId - Token Extension Program ID
-   * @returns Instruction to initialize CPI Guard
-   */
-  static createInitializeCpiGuardInstruction(
-    mint: PublicKey,
-    authority: PublicKey | null = null,
-    programId = TOKEN_2022_PROGRAM_ID
-  ): TransactionInstruction {
-    return createInitializeCpiGuardInstruction(
-      mint,
-      authority,
-      programId
-    );
+    this.account = account;
   }
 
   /**
-   * Create instruction to enable CPI Guard for a mint
-   * @param mint - Mint address
-   * @param authority - Authority address that can enable/disable CPI Guard
+   * Create instruction to enable CPI Guard on a token account
+   * @param account - Token account address
+   * @param owner - Owner of the token account, must sign
+   * @param multiSigners - Signers if the owner is a multisig
    * @param programId - Token Extension Program ID
    * @returns Instruction to enable CPI Guard
    */
   static createEnableCpiGuardInstruction(
-    mint: PublicKey,
-    authority: PublicKey,
+    account: PublicKey,
+    owner: PublicKey,
+    multiSigners: (Signer | PublicKey)[] = [],
     programId = TOKEN_2022_PROGRAM_ID
   ): TransactionInstruction {
-    return new TransactionInstruction({
-      programId,
-      keys: [
-        { pubkey: mint, isSigner: false, isWritable: true },
-        { pubkey: authority, isSigner: true, isWritable: false }
-      ],
-      data: Buffer.from([
-        ExtensionType.CpiGuard & 0xff, 
-        (ExtensionType.CpiGuard >> 8) & 0xff, 
-        (ExtensionType.CpiGuard >> 16) & 0xff, 
-        (ExtensionType.CpiGuard >> 24) & 0xff,
-        1 // Enable CPI Guard
-      ]),
-    });
+    return createEnableCpiGuardInstruction(account, owner, multiSigners, programId);
   }
 
   /**
-   * Create instruction to disable CPI Guard for a mint
-   * @param mint - Mint address
-   * @param authority - Authority address that can enable/disable CPI Guard
+   * Create instruction to disable CPI Guard on a token account
+   * @param account - Token account address
+   * @param owner - Owner of the token account, must sign
+   * @param multiSigners - Signers if the owner is a multisig
    * @param programId - Token Extension Program ID
    * @returns Instruction to disable CPI Guard
    */
   static createDisableCpiGuardInstruction(
-    mint: PublicKey,
-    authority: PublicKey,
+    account: PublicKey,
+    owner: PublicKey,
+    multiSigners: (Signer | PublicKey)[] = [],
     programId = TOKEN_2022_PROGRAM_ID
   ): TransactionInstruction {
-    return new TransactionInstruction({
-      programId,
-      keys: [
-        { pubkey: mint, isSigner: false, isWritable: true },
-        { pubkey: authority, isSigner: true, isWritable: false }
-      ],
-      data: Buffer.from([
-        ExtensionType.CpiGuard & 0xff, 
-        (ExtensionType.CpiGuard >> 8) & 0xff, 
-        (ExtensionType.CpiGuard >> 16) & 0xff, 
-        (ExtensionType.CpiGuard >> 24) & 0xff,
-        0 // Disable CPI Guard
-      ]),
-    });
+    return createDisableCpiGuardInstruction(account, owner, multiSigners, programId);
   }
-  
+
   /**
-   * Check if CPI Guard is enabled for a mint
+   * Read the CPI Guard state of a token account
    * @param connection - Connection to Solana cluster
-   * @param mint - Mint address
+   * @param account - Token account address
+   * @param commitment - Commitment level
    * @param programId - Token Extension Program ID
-   * @returns Promise resolving to boolean indicating if CPI Guard is enabled
+   * @returns CPI Guard state, null if the account has no CPI Guard extension
    */
-  static async isCpiGuardEnabled(
+  static async getCpiGuardState(
     connection: Connection,
-    mint: PublicKey,
+    account: PublicKey,
+    commitment: Commitment = 'confirmed',
     programId = TOKEN_2022_PROGRAM_ID
-  ): Promise<boolean> {
+  ): Promise<CpiGuardState | null> {
     try {
-      const mintInfo = await getMint(
-        connection,
-        mint,
-        'confirmed',
-        programId
-      );
-      
-      // Check the TLV data for CPI Guard extension
-      if (mintInfo.tlvData) {
-        let offset = 0;
-        while (offset < mintInfo.tlvData.length) {
-          if (offset + 8 > mintInfo.tlvData.length) break;
-          
-          const type = mintInfo.tlvData.readUInt32LE(offset);
-          const length = mintInfo.tlvData.readUInt32LE(offset + 4);
-          
-          if (type === ExtensionType.CpiGuard) {
-            // CPI Guard found, check if it's enabled
-            if (offset + 8 + length > mintInfo.tlvData.length) break;
-            return mintInfo.tlvData.readUInt8(offset + 8) === 1;
-          }
-          
-          offset += 8 + length;
-        }
-      }
-      
-      return false; // CPI Guard not found or not enabled
-    } catch (error) {
-      console.error('Error checking CPI Guard status:', error);
-      return false;
+      const accountInfo = await getAccount(connection, account, commitment, programId);
+      return getExtensionState(decodeAccountExtensions(accountInfo), TokenExtensionType.CpiGuard);
+    } catch (error: any) {
+      throw new Error(`Could not get CPI Guard state: ${error.message}`);
     }
   }
-  
+
   /**
-   * Get CPI Guard authority for a mint
+   * Check if CPI Guard is enabled on a token account
    * @param connection - Connection to Solana cluster
-   * @param mint - Mint address
+   * @param account - Token account address
    * @param programId - Token Extension Program ID
-   * @returns Promise resolving to the authority public key or null if no authority
+   * @returns Promise resolving to the lockCpi flag, false if the extension is missing
    */
-  static async getCpiGuardAuthority(
+  static async isCpiGuardEnabled(
     connection: Connection,
-    mint: PublicKey,
+    account: PublicKey,
     programId = TOKEN_2022_PROGRAM_ID
-  ): Promise<PublicKey | null> {
-    try {
-      const mintInfo = await getMint(
-        connection,
-        mint,
-        'confirmed',
-        programId
-      );
-      
-      // Check the TLV data for CPI Guard extension
-      if (mintInfo.tlvData) {
-        let offset = 0;
-        while (offset < mintInfo.tlvData.length) {
-          if (offset + 8 > mintInfo.tlvData.length) break;
-          
-          const type = mintInfo.tlvData.readUInt32LE(offset);
-          const length = mintInfo.tlvData.readUInt32LE(offset + 4);
-          
-          if (type === ExtensionType.CpiGuard) {
-            // CPI Guard found, check if it has an authority
-            if (offset + 8 + length > mintInfo.tlvData.length) break;
-            if (length >= 33) { // Authority is present
-              const authorityBytes = mintInfo.tlvData.slice(offset + 9, offset + 9 + 32);
-              return new PublicKey(authorityBytes);
-            }
-            return null; // No authority
-          }
-          
-          offset += 8 + length;
-        }
-      }
-      
-      return null; // CPI Guard not found
-    } catch (error) {
-      console.error('Error getting CPI Guard authority:', error);
-      return null;
-    }
+  ): Promise<boolean> {
+    const state = await CpiGuardExtension.getCpiGuardState(connection, account, 'confirmed', programId);
+    return state?.lockCpi ?? false;
   }
-  
+
   /**
-   * Create instructions to create a new token with CPI Guard
+   * Create instructions to create a token account with CPI Guard enabled
+   *
+   * The account is sized for CPI Guard and for every account extension the mint requires.
+   * The owner signs the EnableCpiGuard instruction, so it must sign the transaction too.
+   *
    * @param connection - Connection to Solana cluster
    * @param payer - Public key of the fee payer
-   * @param mintAuthority - Mint authority
-   * @param decimals - Number of decimals
-   * @param cpiGuardAuthority - (Optional) Authority that can enable/disable CPI Guard
-   * @returns Instructions, signers, and mint address
+   * @param mint - Mint of the token account
+   * @param owner - Owner of the token account
+   * @returns Instructions, signers, and token account address
    */
-  static async createTokenWithCpiGuardInstructions(
+  static async createTokenAccountWithCpiGuardInstructions(
     connection: Connection,
     payer: PublicKey,
-    mintAuthority: PublicKey,
-    decimals: number,
-    cpiGuardAuthority?: PublicKey
+    mint: PublicKey,
+    owner: PublicKey
   ): Promise<{
     instructions: TransactionInstruction[];
     signers: Keypair[];
-    mint: PublicKey;
+    tokenAccount: PublicKey;
   }> {
-    // Generate a new keypair for the mint
-    const mintKeypair = Keypair.generate();
-    const mint = mintKeypair.publicKey;
-    
-    // Calculate the space needed for the mint with CPI Guard extension
-    const mintLen = getMintLen([ExtensionType.CpiGuard]);
-    const lamports = await connection.getMinimumBalanceForRentExemption(mintLen);
-    
-    // Create instructions array
-    const instructions: TransactionInstruction[] = [];
-    
-    // Add instruction to create account
-    instructions.push(
-      SystemProgram.createAccount({
-        fromPubkey: payer,
-        newAccountPubkey: mint,
-        space: mintLen,
-        lamports,
-        programId: TOKEN_2022_PROGRAM_ID,
-      })
-    );
-    
-    // Add instruction to initialize CPI Guard
-    instructions.push(
-      createInitializeCpiGuardInstruction(
-        mint,
-        cpiGuardAuthority || null,
-        TOKEN_2022_PROGRAM_ID
-      )
-    );
-    
-    // Add instruction to initialize mint
-    instructions.push(
-      createInitializeMintInstruction(
-        mint,
-        decimals,
-        mintAuthority,
-        null, // freeze authority
+    try {
+      const accountKeypair = Keypair.generate();
+      const tokenAccount = accountKeypair.publicKey;
+
+      const mintInfo = await getMint(connection, mint, 'confirmed', TOKEN_2022_PROGRAM_ID);
+      const requiredExtensions = getRequiredAccountExtensions(
+        decodeMintExtensions(mintInfo).map((extension) => extension.type)
+      );
+
+      const accountLen = calculateAccountLen([TokenExtensionType.CpiGuard, ...requiredExtensions]);
+      const lamports = await connection.getMinimumBalanceForRentExemption(accountLen);
+
+      const instructions: TransactionInstruction[] = [
+        SystemProgram.createAccount({
+          fromPubkey: payer,
+          newAccountPubkey: tokenAccount,
+          space: accountLen,
+          lamports,
+          programId: TOKEN_2022_PROGRAM_ID,
+        }),
+        createInitializeAccountInstruction(tokenAccount, mint, owner, TOKEN_2022_PROGRAM_ID),
+        createEnableCpiGuardInstruction(tokenAccount, owner, [], TOKEN_2022_PROGRAM_ID),
+      ];
+
+      return {
+        instructions,
+        signers: [accountKeypair],
+        tokenAccount,
+      };
+    } catch (error: any) {
+      throw new Error(`Could not create token account with CPI Guard instructions: ${error.message}`);
+    }
+  }
+
+  /**
+   * Create instructions to add CPI Guard to an existing token account and enable it
+   *
+   * Reallocate grows the account and the payer tops up its rent, then the owner enables the guard.
+   *
+   * @param account - Token account address
+   * @param payer - Public key of the fee payer
+   * @param owner - Owner of the token account, must sign
+   * @param multiSigners - Signers if the owner is a multisig
+   * @returns Instructions to reallocate the account and enable CPI Guard
+   */
+  static createEnableCpiGuardOnExistingAccountInstructions(
+    account: PublicKey,
+    payer: PublicKey,
+    owner: PublicKey,
+    multiSigners: (Signer | PublicKey)[] = []
+  ): TransactionInstruction[] {
+    return [
+      createReallocateInstruction(
+        account,
+        payer,
+        [ExtensionType.CpiGuard],
+        owner,
+        multiSigners,
         TOKEN_2022_PROGRAM_ID
-      )
-    );
-    
-    return {
-      instructions,
-      signers: [mintKeypair],
-      mint,
-    };
+      ),
+      createEnableCpiGuardInstruction(account, owner, multiSigners, TOKEN_2022_PROGRAM_ID),
+    ];
   }
-  
+
   /**
-   * Check if this mint has CPI Guard enabled
-   * @returns Promise resolving to boolean indicating if CPI Guard is enabled
+   * Read the CPI Guard state of this token account
+   * @returns CPI Guard state, null if the account has no CPI Guard extension
    */
-  async isCpiGuardEnabled(): Promise<boolean> {
-    return CpiGuardExtension.isCpiGuardEnabled(
-      this.connection,
-      this.mint,
-      TOKEN_2022_PROGRAM_ID
-    );
+  async getCpiGuardState(): Promise<CpiGuardState | null> {
+    return CpiGuardExtension.getCpiGuardState(this.connection, this.account);
   }
-  
+
   /**
-   * Get the CPI Guard authority for this mint
-   * @returns Promise resolving to the authority public key or null if no authority
+   * Check if this token account has CPI Guard enabled
+   * @returns Promise resolving to boolean indicating if CPI Guard is enabled
    */
-  async getCpiGuardAuthority(): Promise<PublicKey | null> {
-    return CpiGuardExtension.getCpiGuardAuthority(
+  async isCpiGuardEnabled(): Promise<boolean> {
+    return CpiGuardExtension.isCpiGuardEnabled(
       this.connection,
-      this.mint,
+      this.account,
       TOKEN_2022_PROGRAM_ID
     );
   }
-  
+
   /**
-   * Create instruction to enable CPI Guard for this mint
-   * @param authority - Authority address that can enable/disable CPI Guard
+   * Create instruction to enable CPI Guard on this token account
+   * @param owner - Owner of the token account
+   * @param multiSigners - Signers if the owner is a multisig
    * @returns Instruction to enable CPI Guard
    */
-  createEnableCpiGuardInstruction(authority: PublicKey): TransactionInstruction {
+  createEnableCpiGuardInstruction(
+    owner: PublicKey,
+    multiSigners: (Signer | PublicKey)[] = []
+  ): TransactionInstruction {
     return CpiGuardExtension.createEnableCpiGuardInstruction(
-      this.mint,
-      authority,
+      this.account,
+      owner,
+      multiSigners,
       TOKEN_2022_PROGRAM_ID
     );
   }
-  
+
   /**
-   * Create instruction to disable CPI Guard for this mint
-   * @param authority - Authority address that can enable/disable CPI Guard
+   * Create instruction to disable CPI Guard on this token account
+   * @param owner - Owner of the token account
+   * @param multiSigners - Signers if the owner is a multisig
    * @returns Instruction to disable CPI Guard
    */
-  createDisableCpiGuardInstruction(authority: PublicKey): TransactionInstruction {
+  createDisableCpiGuardInstruction(
+    owner: PublicKey,
+    multiSigners: (Signer | PublicKey)[] = []
+  ): TransactionInstruction {
     return CpiGuardExtension.createDisableCpiGuardInstruction(
-      this.mint,
-      authority,
+      this.account,
+      owner,
+      multiSigners,
       TOKEN_2022_PROGRAM_ID
     );
   }
-} 
\ No newline at end of file
+
+  /**
+   * Create instructions to add CPI Guard to this token account and enable it
+   * @param payer - Public key of the fee payer
+   * @param owner - Owner of the token account
+   * @param multiSigners - Signers if the owner is a multisig
+   * @returns Instructions to reallocate the account and enable CPI Guard
+   */
+  async createEnableCpiGuardOnExistingAccountInstructions(
+    payer: PublicKey,
+    owner: PublicKey,
+    multiSigners: (Signer | PublicKey)[] = []
+  ): Promise<TransactionInstruction[]> {
+    if (await this.getCpiGuardState()) {
+      // The extension is already there, only the flag needs to change
+      return [this.createEnableCpiGuardInstruction(owner, multiSigners)];
+    }
+
+    return CpiGuardExtension.createEnableCpiGuardOnExistingAccountInstructions(
+      this.account,
+      payer,
+      owner,
+      multiSigners
+    );
+  }
+}
@@ -5,13 +5,12 @@ import {
   createInitializeImmutableOwnerInstruction,
   createInitializeAccountInstruction,
   getAccountLen,
-  setAuthority,
-  AuthorityType,
   getAssociatedTokenAddress,
   createAssociatedTokenAccountInstruction,
   getAccount
 } from "@solana/spl-token";
 import { Token } from "../../core/token";
+import { inspectTokenAccount } from "../../utils/account-inspector";
 
 /**
  * ImmutableOwnerToken - Extension for TokenAccount with immutable owner functionality
@@ -138,30 +137,8 @@ export class ImmutableOwnerToken extends Token {
    */
   async hasImmutableOwner(tokenAccount: PublicKey): Promise<boolean> {
     try {
-      const accountInfo = await this.connection.getAccountInfo(tokenAccount);
-      if (!accountInfo) {
-        throw new Error("Account not found");
-      }
-      
-      try {
-        // Try to change authority - if immutable owner, this will fail
-        await setAuthority(
-          this.connection,
-          new Keypair(),
-          tokenAccount,
-          new PublicKey("11111111111111111111111111111111"),
-          AuthorityType.AccountOwner,
-          new PublicKey("11111111111111111111111111111111"),
-          [],
-          { skipPreflight: true },
-          TOKEN_2022_PROGRAM_ID
-        );
-        return false;
-      } catch (error: any) {
-        const errorMessage = error.toString();
-        return errorMessage.includes("0x22") ||
-              errorMessage.includes("owner authority cannot be changed");
-      }
+      const snapshot = await inspectTokenAccount(this.connection, tokenAccount);
+      return snapshot.flags.immutableOwner;
     } catch (error: any) {
       console.error("Error checking immutable owner:", error);
       return false;
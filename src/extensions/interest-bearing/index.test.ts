@@ -0,0 +1,73 @@
+import { Keypair } from '@solana/web3.js';
+import { InterestBearingConfigState } from '../../utils/extension-decoder';
+import { InterestBearingExtension } from './index';
+
+// Seconds per year used by Token-2022
+const YEAR = 31_556_736;
+
+function interestConfig(
+  currentRate: number,
+  preUpdateAverageRate = currentRate,
+  lastUpdateTimestamp = 0
+): InterestBearingConfigState {
+  return {
+    rateAuthority: null,
+    initializationTimestamp: BigInt(0),
+    preUpdateAverageRate,
+    lastUpdateTimestamp: BigInt(lastUpdateTimestamp),
+    currentRate,
+  };
+}
+
+describe('InterestBearingExtension.amountToUiAmount', () => {
+  it('only applies decimals without interest', () => {
+    expect(InterestBearingExtension.amountToUiAmount(interestConfig(0), BigInt(1_500_000), 6, YEAR)).toBe('1.5');
+  });
+
+  it('compounds the rate continuously', () => {
+    // 1 * e^0.05
+    expect(InterestBearingExtension.amountToUiAmount(interestConfig(500), BigInt(1_000_000), 6, YEAR)).toBe('1.051271');
+  });
+
+  it('applies the average rate before the last update and the current rate after it', () => {
+    // e^(0.05) * e^(-0.05)
+    const config = interestConfig(-500, 500, YEAR);
+    expect(InterestBearingExtension.amountToUiAmount(config, BigInt(1_000_000), 6, 2 * YEAR)).toBe('1');
+  });
+});
+
+describe('InterestBearingExtension.uiAmountToAmount', () => {
+  it('only applies decimals without interest', () => {
+    expect(InterestBearingExtension.uiAmountToAmount(interestConfig(0), '1.5', 6, YEAR)).toBe(BigInt(1_500_000));
+  });
+
+  it('reverses amountToUiAmount', () => {
+    const config = interestConfig(500);
+    for (const amount of [1, 999, 1_000_000, 123_456_789].map(BigInt)) {
+      const uiAmount = InterestBearingExtension.amountToUiAmount(config, amount, 6, YEAR);
+      const roundTrip = InterestBearingExtension.uiAmountToAmount(config, uiAmount, 6, YEAR);
+      // The UI amount is truncated to the mint decimals
+      expect(Number(roundTrip - amount)).toBeLessThanOrEqual(1);
+      expect(Number(amount - roundTrip)).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it('rejects invalid and negative amounts', () => {
+    expect(() => InterestBearingExtension.uiAmountToAmount(interestConfig(0), 'abc', 6, YEAR)).toThrow('Invalid UI amount');
+    expect(() => InterestBearingExtension.uiAmountToAmount(interestConfig(0), '-1', 6, YEAR)).toThrow('out of range');
+  });
+});
+
+describe('InterestBearingExtension.createUpdateRateInterestBearingMintInstruction', () => {
+  it('passes a multisig rate authority with its signers', () => {
+    const [mint, multisig, member] = [0, 1, 2].map(() => Keypair.generate().publicKey);
+    const instruction = InterestBearingExtension.createUpdateRateInterestBearingMintInstruction(mint, multisig, -250, [member]);
+
+    expect(instruction.data.readInt16LE(2)).toBe(-250);
+    expect(instruction.keys).toEqual([
+      { pubkey: mint, isSigner: false, isWritable: true },
+      { pubkey: multisig, isSigner: false, isWritable: false },
+      { pubkey: member, isSigner: true, isWritable: false },
+    ]);
+  });
+});
@@ -1,5 +1,65 @@
-import { PublicKey } from '@solana/web3.js';
-import { ExtensionType, TOKEN_2022_PROGRAM_ID, createInitializeInterestBearingMintInstruction } from '@solana/spl-token';
+import { Commitment, Connection, PublicKey, SYSVAR_CLOCK_PUBKEY, Signer, TransactionInstruction } from '@solana/web3.js';
+import { TOKEN_2022_PROGRAM_ID, TokenInstruction, createInitializeInterestBearingMintInstruction, getMint } from '@solana/spl-token';
+import {
+  InterestBearingConfigState,
+  decodeMintExtensions,
+  getExtensionState,
+} from '../../utils/extension-decoder';
+import { TokenExtensionType } from '../../utils/extension-registry';
+import { getAuthorityKeys } from '../../utils/multisig';
+
+// Constants of the Token-2022 interest computation
+const ONE_IN_BASIS_POINTS = 10000;
+const SECONDS_PER_YEAR = 60 * 60 * 24 * 365.24;
+const U64_MAX = BigInt('18446744073709551615');
+
+// Offset of unix_timestamp in the Clock sysvar
+const CLOCK_UNIX_TIMESTAMP_OFFSET = 32;
+
+enum InterestBearingMintInstruction {
+  Initialize = 0,
+  UpdateRate = 1,
+}
+
+/**
+ * Compute exp(rate * timespan / SECONDS_PER_YEAR / ONE_IN_BASIS_POINTS) in the same order as the program
+ */
+function exponentForTimespan(rate: number, start: bigint, end: bigint): number {
+  const numerator = Number(BigInt(rate) * (end - start));
+  return Math.exp(numerator / SECONDS_PER_YEAR / ONE_IN_BASIS_POINTS);
+}
+
+/**
+ * Scale applied to raw amounts, including the decimal shift
+ */
+function totalScale(config: InterestBearingConfigState, decimals: number, unixTimestamp: bigint): number {
+  const preUpdateExp = exponentForTimespan(
+    config.preUpdateAverageRate,
+    config.initializationTimestamp,
+    config.lastUpdateTimestamp
+  );
+  const postUpdateExp = exponentForTimespan(config.currentRate, config.lastUpdateTimestamp, unixTimestamp);
+  return (preUpdateExp * postUpdateExp) / Math.pow(10, decimals);
+}
+
+/**
+ * Format a float with a fixed number of decimals, like Rust's `{:.*}`
+ */
+function formatFixed(value: number, decimals: number): string {
+  if (Math.abs(value) < 1e21) {
+    return value.toFixed(decimals);
+  }
+  // Floats this large are integers, toFixed would switch to exponent notation
+  const integer = BigInt(value).toString();
+  return decimals > 0 ? `${integer}.${'0'.repeat(decimals)}` : integer;
+}
+
+function trimUiAmount(uiAmount: string, decimals: number): string {
+  if (decimals === 0) {
+    return uiAmount;
+  }
+  return uiAmount.replace(/0+$/, '').replace(/\.$/, '');
+}
 
 /**
  * Class for Interest-Bearing token functionality
@@ -32,6 +92,7 @@ export class InterestBearingExtension {
    * @param mint - Mint address
    * @param rateAuthority - Authority address that can change interest rate
    * @param rate - New interest rate (basis points, 10000 = 100%)
+   * @param multiSigners - Signers if the rate authority is a multisig
    * @param programId - Token Extension Program ID
    * @returns Instruction to update interest rate
    */
@@ -39,22 +100,121 @@ export class InterestBearingExtension {
     mint: PublicKey,
     rateAuthority: PublicKey,
     rate: number,
+    multiSigners: (Signer | PublicKey)[] = [],
     programId = TOKEN_2022_PROGRAM_ID
-  ) {
-    // In practice, you would call a function from @solana/spl-token
-    // This is a simulated version for demo purposes
-    return {
+  ): TransactionInstruction {
+    if (!Number.isInteger(rate) || rate < -32768 || rate > 32767) {
+      throw new Error('Interest rate must be an i16 number of basis points');
+    }
+
+    const data = Buffer.alloc(4);
+    data.writeUInt8(TokenInstruction.InterestBearingMintExtension, 0);
+    data.writeUInt8(InterestBearingMintInstruction.UpdateRate, 1);
+    data.writeInt16LE(rate, 2);
+
+    return new TransactionInstruction({
       programId,
-      keys: [
-        { pubkey: mint, isSigner: false, isWritable: true },
-        { pubkey: rateAuthority, isSigner: true, isWritable: false },
-      ],
-      data: Buffer.from([0x20, ...new Uint8Array(new Uint16Array([rate]).buffer)]), // Mock data
-    };
+      keys: [{ pubkey: mint, isSigner: false, isWritable: true }, ...getAuthorityKeys(rateAuthority, multiSigners)],
+      data,
+    });
+  }
+
+  /**
+   * Read the InterestBearingConfig of a mint
+   * @param connection - Connection to Solana cluster
+   * @param mint - Mint address
+   * @param commitment - Commitment level
+   * @returns Interest configuration, null if the mint is not interest-bearing
+   */
+  static async getInterestBearingConfig(
+    connection: Connection,
+    mint: PublicKey,
+    commitment: Commitment = 'confirmed'
+  ): Promise<InterestBearingConfigState | null> {
+    try {
+      const mintInfo = await getMint(connection, mint, commitment, TOKEN_2022_PROGRAM_ID);
+      return getExtensionState(decodeMintExtensions(mintInfo), TokenExtensionType.InterestBearingConfig);
+    } catch (error: any) {
+      throw new Error(`Could not get interest-bearing config: ${error.message}`);
+    }
+  }
+
+  /**
+   * Read the current unix timestamp of the cluster from the Clock sysvar
+   * @param connection - Connection to Solana cluster
+   * @param commitment - Commitment level
+   * @returns Unix timestamp in seconds
+   */
+  static async getClusterTimestamp(
+    connection: Connection,
+    commitment: Commitment = 'confirmed'
+  ): Promise<bigint> {
+    const clock = await connection.getAccountInfo(SYSVAR_CLOCK_PUBKEY, commitment);
+    if (!clock) {
+      throw new Error('Clock sysvar not found');
+    }
+    return clock.data.readBigInt64LE(CLOCK_UNIX_TIMESTAMP_OFFSET);
+  }
+
+  /**
+   * Convert a raw amount to its UI amount including accrued interest
+   *
+   * Reproduces the AmountToUiAmount computation of the Token-2022 program.
+   *
+   * @param config - Interest configuration of the mint
+   * @param amount - Raw token amount
+   * @param decimals - Mint decimals
+   * @param unixTimestamp - Cluster unix timestamp
+   * @returns UI amount string
+   */
+  static amountToUiAmount(
+    config: InterestBearingConfigState,
+    amount: bigint | number,
+    decimals: number,
+    unixTimestamp: bigint | number
+  ): string {
+    const uiAmount = Number(amount) * totalScale(config, decimals, BigInt(unixTimestamp));
+    if (!Number.isFinite(uiAmount)) {
+      throw new Error('UI amount is out of range');
+    }
+    return trimUiAmount(formatFixed(uiAmount, decimals), decimals);
+  }
+
+  /**
+   * Convert a UI amount including accrued interest back to a raw amount
+   *
+   * Reproduces the UiAmountToAmount computation of the Token-2022 program.
+   *
+   * @param config - Interest configuration of the mint
+   * @param uiAmount - UI amount
+   * @param decimals - Mint decimals
+   * @param unixTimestamp - Cluster unix timestamp
+   * @returns Raw token amount
+   */
+  static uiAmountToAmount(
+    config: InterestBearingConfigState,
+    uiAmount: string | number,
+    decimals: number,
+    unixTimestamp: bigint | number
+  ): bigint {
+    const text = String(uiAmount).trim();
+    if (!/^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/.test(text)) {
+      throw new Error(`Invalid UI amount: ${uiAmount}`);
+    }
+
+    const amount = Number(text) / totalScale(config, decimals, BigInt(unixTimestamp));
+    if (Number.isNaN(amount) || amount < 0 || amount > Number(U64_MAX)) {
+      throw new Error(`UI amount is out of range: ${uiAmount}`);
+    }
+
+    // Rounding happens last, like in the program
+    const rounded = BigInt(Math.round(amount));
+    return rounded > U64_MAX ? U64_MAX : rounded;
   }
 
   /**
    * Calculate current token amount including interest
+   * @deprecated Use amountToUiAmount, which also accounts for rate updates
    * @param initialAmount - Initial amount
    * @param rate - Interest rate (basis points, 10000 = 100%)
    * @param timeInSeconds - Elapsed time (seconds)
@@ -65,20 +225,8 @@ export class InterestBearingExtension {
     rate: number,
     timeInSeconds: number
   ): bigint {
-    // Interest calculation formula:
-    // amount * (1 + rate/10000) ^ (timeInSeconds / secondsInYear)
-    const secondsInYear = 31536000; // 365 * 24 * 60 * 60
-    
-    // Convert rate from basis points to decimal
-    const rateDecimal = rate / 10000;
-    
-    // Calculate years
-    const years = timeInSeconds / secondsInYear;
-    
-    // Calculate interest factor
-    const interestFactor = Math.pow(1 + rateDecimal, years);
-    
-    // Calculate current token amount
-    return BigInt(Math.floor(Number(initialAmount) * interestFactor));
+    // Interest compounds continuously: amount * e^(rate * t / year)
+    const scaled = Number(initialAmount) * exponentForTimespan(rate, BigInt(0), BigInt(Math.trunc(timeInSeconds)));
+    return BigInt(Math.trunc(scaled));
   }
-} 
\ No newline at end of file
+}
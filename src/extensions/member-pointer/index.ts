@@ -1,30 +1,153 @@
-import { PublicKey } from '@solana/web3.js';
-import { TOKEN_2022_PROGRAM_ID } from '@solana/spl-token';
+import { Commitment, Connection, PublicKey, Signer, TransactionInstruction } from '@solana/web3.js';
+import {
+  TOKEN_2022_PROGRAM_ID,
+  TokenAccountNotFoundError,
+  TokenInvalidAccountOwnerError,
+  TokenInvalidAccountSizeError,
+  getMint,
+} from '@solana/spl-token';
+import {
+  PointerState,
+  TokenGroupMemberState,
+  decodeMintExtensions,
+  getExtensionState,
+} from '../../utils/extension-decoder';
+import { TokenExtensionType } from '../../utils/extension-registry';
 
-// Define MemberPointer extension type (not yet available in standard ExtensionType)
-export const MemberPointerExtensionType = 21; // Assumed ID for MemberPointer
+// Token-2022 discriminator of the GroupMemberPointer extension
+export const MemberPointerExtensionType = TokenExtensionType.GroupMemberPointer;
+
+// Token-2022 instruction prefix of the GroupMemberPointer extension
+const GROUP_MEMBER_POINTER_INSTRUCTION = 41;
+
+enum GroupMemberPointerInstruction {
+  Initialize = 0,
+  Update = 1,
+}
 
 /**
  * Create instruction to initialize member pointer for a token
  * @param mint - Mint address
- * @param memberMint - Mint address of the token that this token is a member of
+ * @param authority - Authority that can update the member address, null for none
+ * @param memberAddress - Account holding the TokenGroupMember data, usually the mint itself
  * @param programId - Token Extension Program ID
  * @returns Instruction to initialize member pointer
  */
 export function createInitializeMemberPointerInstruction(
   mint: PublicKey,
-  memberMint: PublicKey,
+  authority: PublicKey | null,
+  memberAddress: PublicKey | null,
   programId = TOKEN_2022_PROGRAM_ID
-): any {
-  // In practice, this is where you would implement logic to create the instruction
-  return {
+): TransactionInstruction {
+  const data = Buffer.alloc(66);
+  data.writeUInt8(GROUP_MEMBER_POINTER_INSTRUCTION, 0);
+  data.writeUInt8(GroupMemberPointerInstruction.Initialize, 1);
+  (authority ?? PublicKey.default).toBuffer().copy(data, 2);
+  (memberAddress ?? PublicKey.default).toBuffer().copy(data, 34);
+
+  return new TransactionInstruction({
     programId,
-    keys: [
-      { pubkey: mint, isSigner: false, isWritable: true },
-      { pubkey: memberMint, isSigner: false, isWritable: false },
-    ],
-    data: Buffer.from([MemberPointerExtensionType]), // Mock data
-  };
+    keys: [{ pubkey: mint, isSigner: false, isWritable: true }],
+    data,
+  });
+}
+
+/**
+ * Create instruction to update the member address of a member pointer
+ * @param mint - Mint address
+ * @param authority - Member pointer authority
+ * @param memberAddress - New member address, null to clear it
+ * @param multiSigners - Signers if the authority is a multisig
+ * @param programId - Token Extension Program ID
+ * @returns Instruction to update member pointer
+ */
+export function createUpdateMemberPointerInstruction(
+  mint: PublicKey,
+  authority: PublicKey,
+  memberAddress: PublicKey | null,
+  multiSigners: (Signer | PublicKey)[] = [],
+  programId = TOKEN_2022_PROGRAM_ID
+): TransactionInstruction {
+  const data = Buffer.alloc(34);
+  data.writeUInt8(GROUP_MEMBER_POINTER_INSTRUCTION, 0);
+  data.writeUInt8(GroupMemberPointerInstruction.Update, 1);
+  (memberAddress ?? PublicKey.default).toBuffer().copy(data, 2);
+
+  const keys = [
+    { pubkey: mint, isSigner: false, isWritable: true },
+    { pubkey: authority, isSigner: multiSigners.length === 0, isWritable: false },
+  ];
+  for (const signer of multiSigners) {
+    keys.push({
+      pubkey: signer instanceof PublicKey ? signer : signer.publicKey,
+      isSigner: true,
+      isWritable: false,
+    });
+  }
+
+  return new TransactionInstruction({ programId, keys, data });
+}
+
+/**
+ * Read the GroupMemberPointer of a mint
+ * @param connection - Connection to Solana cluster
+ * @param mint - Mint address
+ * @param commitment - Commitment level
+ * @param programId - Token Extension Program ID
+ * @returns Pointer authority and member address, null if the mint has no member pointer
+ */
+export async function getMemberPointerState(
+  connection: Connection,
+  mint: PublicKey,
+  commitment: Commitment = 'confirmed',
+  programId = TOKEN_2022_PROGRAM_ID
+): Promise<PointerState | null> {
+  const mintInfo = await getMint(connection, mint, commitment, programId);
+  return getExtensionState(decodeMintExtensions(mintInfo), MemberPointerExtensionType);
+}
+
+/**
+ * Resolve the GroupMemberPointer of a mint and read the TokenGroupMember data it points to
+ *
+ * Only member data held by a Token-2022 mint is supported, which is how Token-2022 stores it.
+ *
+ * @param connection - Connection to Solana cluster
+ * @param mint - Mint address
+ * @param commitment - Commitment level
+ * @param programId - Token Extension Program ID
+ * @returns Member data describing this mint, null if the mint is not a group member
+ */
+export async function getGroupMemberState(
+  connection: Connection,
+  mint: PublicKey,
+  commitment: Commitment = 'confirmed',
+  programId = TOKEN_2022_PROGRAM_ID
+): Promise<TokenGroupMemberState | null> {
+  try {
+    const mintInfo = await getMint(connection, mint, commitment, programId);
+    const extensions = decodeMintExtensions(mintInfo);
+    const pointer = getExtensionState(extensions, MemberPointerExtensionType);
+    if (!pointer || !pointer.address) {
+      return null;
+    }
+
+    const memberExtensions = pointer.address.equals(mint)
+      ? extensions
+      : decodeMintExtensions(await getMint(connection, pointer.address, commitment, programId));
+    const member = getExtensionState(memberExtensions, TokenExtensionType.TokenGroupMember);
+
+    // The member data must describe this mint, not the one it happens to live in
+    return member && member.mint.equals(mint) ? member : null;
+  } catch (error: any) {
+    if (
+      error instanceof TokenAccountNotFoundError ||
+      error instanceof TokenInvalidAccountOwnerError ||
+      error instanceof TokenInvalidAccountSizeError
+    ) {
+      return null;
+    }
+    throw new Error(`Could not read group member data: ${error.message}`);
+  }
 }
 
 /**
@@ -34,36 +157,80 @@ export class MemberPointerExtension {
   /**
    * Create instruction to initialize member pointer for a token
    * @param mint - Mint address
-   * @param memberMint - Mint address of the token that this token is a member of
+   * @param authority - Authority that can update the member address, null for none
+   * @param memberAddress - Account holding the TokenGroupMember data
    * @param programId - Token Extension Program ID
    * @returns Instruction to initialize member pointer
    */
   static createInitializeMemberPointerInstruction(
     mint: PublicKey,
-    memberMint: PublicKey,
+    authority: PublicKey | null,
+    memberAddress: PublicKey | null,
     programId = TOKEN_2022_PROGRAM_ID
-  ) {
+  ): TransactionInstruction {
     return createInitializeMemberPointerInstruction(
       mint,
-      memberMint,
+      authority,
+      memberAddress,
+      programId
+    );
+  }
+
+  /**
+   * Create instruction to update the member address of a member pointer
+   * @param mint - Mint address
+   * @param authority - Member pointer authority
+   * @param memberAddress - New member address, null to clear it
+   * @param multiSigners - Signers if the authority is a multisig
+   * @param programId - Token Extension Program ID
+   * @returns Instruction to update member pointer
+   */
+  static createUpdateMemberPointerInstruction(
+    mint: PublicKey,
+    authority: PublicKey,
+    memberAddress: PublicKey | null,
+    multiSigners: (Signer | PublicKey)[] = [],
+    programId = TOKEN_2022_PROGRAM_ID
+  ): TransactionInstruction {
+    return createUpdateMemberPointerInstruction(
+      mint,
+      authority,
+      memberAddress,
+      multiSigners,
       programId
     );
   }
 
+  /**
+   * Read the GroupMemberPointer of a mint
+   * @param connection - Connection to Solana cluster
+   * @param mint - Mint address
+   * @returns Pointer authority and member address, null if the mint has no member pointer
+   */
+  static async getMemberPointer(
+    connection: Connection,
+    mint: PublicKey
+  ): Promise<PointerState | null> {
+    return getMemberPointerState(connection, mint);
+  }
+
   /**
    * Check if a token is a member of a token group
+   *
+   * Follows the member pointer of the mint and checks that the TokenGroupMember data
+   * it points to describes this mint and names the given group.
+   *
    * @param connection - Connection to Solana cluster
    * @param mint - Mint address of the token
    * @param groupMint - Mint address of the token group
    * @returns Promise<boolean> - True if token is a member of the group
    */
   static async isMemberOfGroup(
-    // connection: Connection,
-    // mint: PublicKey,
-    // groupMint: PublicKey
+    connection: Connection,
+    mint: PublicKey,
+    groupMint: PublicKey
   ): Promise<boolean> {
-    // In practice, this is where you would query on-chain data to check
-    // For demo purposes, we'll return an assumed value
-    return Promise.resolve(true);
+    const member = await getGroupMemberState(connection, mint);
+    return member !== null && member.group.equals(groupMint);
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,308 @@
+import {
+  Commitment,
+  Connection,
+  PublicKey,
+  Signer,
+  TransactionInstruction,
+  SystemProgram,
+  Keypair
+} from '@solana/web3.js';
+import {
+  ExtensionType,
+  TOKEN_2022_PROGRAM_ID,
+  createDisableRequiredMemoTransfersInstruction,
+  createEnableRequiredMemoTransfersInstruction,
+  createInitializeAccountInstruction,
+  createReallocateInstruction,
+  getAccount,
+  getMint
+} from '@solana/spl-token';
+import {
+  MemoTransferState,
+  decodeAccountExtensions,
+  decodeMintExtensions,
+  getExtensionState,
+} from '../../utils/extension-decoder';
+import {
+  TokenExtensionType,
+  calculateAccountLen,
+  getRequiredAccountExtensions,
+} from '../../utils/extension-registry';
+import { MEMO_PROGRAM_ID } from '../../utils/constants';
+
+/**
+ * Create a memo instruction
+ *
+ * For a transfer into a memo-required account, the memo must be the instruction right before the transfer.
+ *
+ * @param memo - Memo text
+ * @param signers - Accounts signing the memo, usually the transfer authority
+ * @returns Memo program instruction
+ */
+export function createMemoInstruction(memo: string, signers: PublicKey[] = []): TransactionInstruction {
+  return new TransactionInstruction({
+    keys: signers.map((pubkey) => ({ pubkey, isSigner: true, isWritable: false })),
+    programId: MEMO_PROGRAM_ID,
+    data: Buffer.from(memo, 'utf-8'),
+  });
+}
+
+/**
+ * Class for required memos on incoming transfers
+ *
+ * MemoTransfer is a token account extension. While it is enabled, every transfer into the
+ * account must be preceded by a memo instruction, which lets exchanges match deposits to users.
+ */
+export class MemoTransferExtension {
+  private connection: Connection;
+  private account: PublicKey;
+
+  /**
+   * Create a new MemoTransferExtension instance
+   * @param connection - Connection to Solana cluster
+   * @param account - Token account address
+   */
+  constructor(connection: Connection, account: PublicKey) {
+    this.connection = connection;
+    this.account = account;
+  }
+
+  /**
+   * Create instruction to require memos on incoming transfers
+   * @param account - Token account address
+   * @param owner - Owner of the token account, must sign
+   * @param multiSigners - Signers if the owner is a multisig
+   * @param programId - Token Extension Program ID
+   * @returns Instruction to enable required memos
+   */
+  static createEnableRequiredMemoTransfersInstruction(
+    account: PublicKey,
+    owner: PublicKey,
+    multiSigners: (Signer | PublicKey)[] = [],
+    programId = TOKEN_2022_PROGRAM_ID
+  ): TransactionInstruction {
+    return createEnableRequiredMemoTransfersInstruction(account, owner, multiSigners, programId);
+  }
+
+  /**
+   * Create instruction to stop requiring memos on incoming transfers
+   * @param account - Token account address
+   * @param owner - Owner of the token account, must sign
+   * @param multiSigners - Signers if the owner is a multisig
+   * @param programId - Token Extension Program ID
+   * @returns Instruction to disable required memos
+   */
+  static createDisableRequiredMemoTransfersInstruction(
+    account: PublicKey,
+    owner: PublicKey,
+    multiSigners: (Signer | PublicKey)[] = [],
+    programId = TOKEN_2022_PROGRAM_ID
+  ): TransactionInstruction {
+    return createDisableRequiredMemoTransfersInstruction(account, owner, multiSigners, programId);
+  }
+
+  /**
+   * Read the MemoTransfer state of a token account
+   * @param connection - Connection to Solana cluster
+   * @param account - Token account address
+   * @param commitment - Commitment level
+   * @param programId - Token Extension Program ID
+   * @returns MemoTransfer state, null if the account has no MemoTransfer extension
+   */
+  static async getMemoTransferState(
+    connection: Connection,
+    account: PublicKey,
+    commitment: Commitment = 'confirmed',
+    programId = TOKEN_2022_PROGRAM_ID
+  ): Promise<MemoTransferState | null> {
+    try {
+      const accountInfo = await getAccount(connection, account, commitment, programId);
+      return getExtensionState(decodeAccountExtensions(accountInfo), TokenExtensionType.MemoTransfer);
+    } catch (error: any) {
+      throw new Error(`Could not get MemoTransfer state: ${error.message}`);
+    }
+  }
+
+  /**
+   * Check if a token account requires memos on incoming transfers
+   * @param connection - Connection to Solana cluster
+   * @param account - Token account address
+   * @param programId - Token Extension Program ID
+   * @returns Promise resolving to the requireIncomingTransferMemos flag, false if the extension is missing
+   */
+  static async isMemoRequired(
+    connection: Connection,
+    account: PublicKey,
+    programId = TOKEN_2022_PROGRAM_ID
+  ): Promise<boolean> {
+    const state = await MemoTransferExtension.getMemoTransferState(connection, account, 'confirmed', programId);
+    return state?.requireIncomingTransferMemos ?? false;
+  }
+
+  /**
+   * Create instructions to create a token account requiring memos on incoming transfers
+   *
+   * The account is sized for MemoTransfer and for every account extension the mint requires.
+   * The owner signs the EnableRequiredMemoTransfers instruction, so it must sign the transaction too.
+   *
+   * @param connection - Connection to Solana cluster
+   * @param payer - Public key of the fee payer
+   * @param mint - Mint of the token account
+   * @param owner - Owner of the token account
+   * @returns Instructions, signers, and token account address
+   */
+  static async createTokenAccountWithRequiredMemoInstructions(
+    connection: Connection,
+    payer: PublicKey,
+    mint: PublicKey,
+    owner: PublicKey
+  ): Promise<{
+    instructions: TransactionInstruction[];
+    signers: Keypair[];
+    tokenAccount: PublicKey;
+  }> {
+    try {
+      const accountKeypair = Keypair.generate();
+      const tokenAccount = accountKeypair.publicKey;
+
+      const mintInfo = await getMint(connection, mint, 'confirmed', TOKEN_2022_PROGRAM_ID);
+      const requiredExtensions = getRequiredAccountExtensions(
+        decodeMintExtensions(mintInfo).map((extension) => extension.type)
+      );
+
+      const accountLen = calculateAccountLen([TokenExtensionType.MemoTransfer, ...requiredExtensions]);
+      const lamports = await connection.getMinimumBalanceForRentExemption(accountLen);
+
+      const instructions: TransactionInstruction[] = [
+        SystemProgram.createAccount({
+          fromPubkey: payer,
+          newAccountPubkey: tokenAccount,
+          space: accountLen,
+          lamports,
+          programId: TOKEN_2022_PROGRAM_ID,
+        }),
+        createInitializeAccountInstruction(tokenAccount, mint, owner, TOKEN_2022_PROGRAM_ID),
+        createEnableRequiredMemoTransfersInstruction(tokenAccount, owner, [], TOKEN_2022_PROGRAM_ID),
+      ];
+
+      return {
+        instructions,
+        signers: [accountKeypair],
+        tokenAccount,
+      };
+    } catch (error: any) {
+      throw new Error(`Could not create token account with required memos instructions: ${error.message}`);
+    }
+  }
+
+  /**
+   * Create instructions to add MemoTransfer to an existing token account and enable it
+   *
+   * Reallocate grows the account and the payer tops up its rent, then the owner enables required memos.
+   *
+   * @param account - Token account address
+   * @param payer - Public key of the fee payer
+   * @param owner - Owner of the token account, must sign
+   * @param multiSigners - Signers if the owner is a multisig
+   * @returns Instructions to reallocate the account and enable required memos
+   */
+  static createEnableRequiredMemoTransfersOnExistingAccountInstructions(
+    account: PublicKey,
+    payer: PublicKey,
+    owner: PublicKey,
+    multiSigners: (Signer | PublicKey)[] = []
+  ): TransactionInstruction[] {
+    return [
+      createReallocateInstruction(
+        account,
+        payer,
+        [ExtensionType.MemoTransfer],
+        owner,
+        multiSigners,
+        TOKEN_2022_PROGRAM_ID
+      ),
+      createEnableRequiredMemoTransfersInstruction(account, owner, multiSigners, TOKEN_2022_PROGRAM_ID),
+    ];
+  }
+
+  /**
+   * Read the MemoTransfer state of this token account
+   * @returns MemoTransfer state, null if the account has no MemoTransfer extension
+   */
+  async getMemoTransferState(): Promise<MemoTransferState | null> {
+    return MemoTransferExtension.getMemoTransferState(this.connection, this.account);
+  }
+
+  /**
+   * Check if this token account requires memos on incoming transfers
+   * @returns Promise resolving to boolean indicating if memos are required
+   */
+  async isMemoRequired(): Promise<boolean> {
+    return MemoTransferExtension.isMemoRequired(
+      this.connection,
+      this.account,
+      TOKEN_2022_PROGRAM_ID
+    );
+  }
+
+  /**
+   * Create instruction to require memos on incoming transfers to this token account
+   * @param owner - Owner of the token account
+   * @param multiSigners - Signers if the owner is a multisig
+   * @returns Instruction to enable required memos
+   */
+  createEnableRequiredMemoTransfersInstruction(
+    owner: PublicKey,
+    multiSigners: (Signer | PublicKey)[] = []
+  ): TransactionInstruction {
+    return MemoTransferExtension.createEnableRequiredMemoTransfersInstruction(
+      this.account,
+      owner,
+      multiSigners,
+      TOKEN_2022_PROGRAM_ID
+    );
+  }
+
+  /**
+   * Create instruction to stop requiring memos on incoming transfers to this token account
+   * @param owner - Owner of the token account
+   * @param multiSigners - Signers if the owner is a multisig
+   * @returns Instruction to disable required memos
+   */
+  createDisableRequiredMemoTransfersInstruction(
+    owner: PublicKey,
+    multiSigners: (Signer | PublicKey)[] = []
+  ): TransactionInstruction {
+    return MemoTransferExtension.createDisableRequiredMemoTransfersInstruction(
+      this.account,
+      owner,
+      multiSigners,
+      TOKEN_2022_PROGRAM_ID
+    );
+  }
+
+  /**
+   * Create instructions to add MemoTransfer to this token account and enable it
+   * @param payer - Public key of the fee payer
+   * @param owner - Owner of the token account
+   * @param multiSigners - Signers if the owner is a multisig
+   * @returns Instructions to reallocate the account if needed and enable required memos
+   */
+  async createEnableRequiredMemoTransfersOnExistingAccountInstructions(
+    payer: PublicKey,
+    owner: PublicKey,
+    multiSigners: (Signer | PublicKey)[] = []
+  ): Promise<TransactionInstruction[]> {
+    if (await this.getMemoTransferState()) {
+      // The extension is already there, only the flag needs to change
+      return [this.createEnableRequiredMemoTransfersInstruction(owner, multiSigners)];
+    }
+
+    return MemoTransferExtension.createEnableRequiredMemoTransfersOnExistingAccountInstructions(
+      this.account,
+      payer,
+      owner,
+      multiSigners
+    );
+  }
+}
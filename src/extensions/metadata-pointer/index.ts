@@ -2,6 +2,7 @@ import {
   Connection,
   Keypair,
   PublicKey,
+  Signer,
   Transaction,
   SystemProgram,
   sendAndConfirmTransaction,
@@ -367,24 +368,52 @@ export class MetadataPointerToken extends Token {
     }
   }
   
+  /**
+   * Create instruction to point the mint at another metadata account
+   * 
+   * @param authority - Metadata pointer authority
+   * @param newMetadataAddress - New metadata address
+   * @param multiSigners - Signers if the authority is a multisig
+   * @returns Transaction instruction
+   */
+  createUpdateMetadataPointerInstruction(
+    authority: PublicKey,
+    newMetadataAddress: PublicKey,
+    multiSigners: (Signer | PublicKey)[] = []
+  ): TransactionInstruction {
+    return createUpdateMetadataPointerInstruction(
+      this.mint,
+      authority,
+      newMetadataAddress,
+      multiSigners,
+      TOKEN_2022_PROGRAM_ID
+    );
+  }
+
+  /**
+   * Point the mint at another metadata account
+   * 
+   * @param authority - Metadata pointer authority, or its address with multiSigners
+   * @param newMetadataAddress - New metadata address
+   * @param multiSigners - Signers if the authority is a multisig, the first one pays the fee
+   * @returns Transaction signature
+   */
   async updateMetadataPointer(
-    authority: Keypair,
-    newMetadataAddress: PublicKey
+    authority: Signer | PublicKey,
+    newMetadataAddress: PublicKey,
+    multiSigners: Signer[] = []
   ): Promise<TransactionSignature> {
     try {
+      const authorityKey = authority instanceof PublicKey ? authority : authority.publicKey;
       const transaction = new Transaction().add(
-        createUpdateMetadataPointerInstruction(
-          this.mint,
-          authority.publicKey,
-          newMetadataAddress,
-          [],
-          TOKEN_2022_PROGRAM_ID
-        )
+        this.createUpdateMetadataPointerInstruction(authorityKey, newMetadataAddress, multiSigners)
       );
 
-      return await sendAndConfirmTransaction(this.connection, transaction, [
-        authority,
-      ]);
+      return await sendAndConfirmTransaction(
+        this.connection,
+        transaction,
+        [...(authority instanceof PublicKey ? [] : [authority]), ...multiSigners]
+      );
     } catch (error) {
       throw new Error(`Failed to update metadata pointer: ${error}`);
     }
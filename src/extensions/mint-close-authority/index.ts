@@ -1,4 +1,4 @@
-import { PublicKey } from '@solana/web3.js';
+import { PublicKey, Signer, TransactionInstruction } from '@solana/web3.js';
 import { ExtensionType, TOKEN_2022_PROGRAM_ID, createInitializeMintCloseAuthorityInstruction, createCloseAccountInstruction } from '@solana/spl-token';
 
 /**
@@ -16,7 +16,7 @@ export class MintCloseAuthorityExtension {
     mint: PublicKey,
     closeAuthority: PublicKey,
     programId = TOKEN_2022_PROGRAM_ID
-  ) {
+  ): TransactionInstruction {
     return createInitializeMintCloseAuthorityInstruction(
       mint,
       closeAuthority,
@@ -29,7 +29,7 @@ export class MintCloseAuthorityExtension {
    * @param mint - Mint address to close
    * @param destination - Address to receive lamports
    * @param authority - Address with authority to close mint (mint close authority)
-   * @param multiSigners - List of signers if authority is multisig (default empty array)
+   * @param multiSigners - Signers if the authority is a multisig
    * @param programId - Token Extension Program ID
    * @returns Instruction to close mint account
    */
@@ -37,9 +37,9 @@ export class MintCloseAuthorityExtension {
     mint: PublicKey,
     destination: PublicKey,
     authority: PublicKey,
-    multiSigners = [],
+    multiSigners: (Signer | PublicKey)[] = [],
     programId = TOKEN_2022_PROGRAM_ID
-  ) {
+  ): TransactionInstruction {
     return createCloseAccountInstruction(
       mint,
       destination,
@@ -19,6 +19,9 @@ import {
   getMint
 } from "@solana/spl-token";
 import { Token } from "../../core/token";
+import { inspectTokenAccount } from "../../utils/account-inspector";
+import { decodeMintExtensions, hasExtension } from "../../utils/extension-decoder";
+import { TokenExtensionType } from "../../utils/extension-registry";
 
 /**
  * NonTransferableToken - Extension for non-transferable tokens
@@ -103,12 +106,15 @@ export class NonTransferableToken extends Token {
    * @param authority - Authority allowed to mint tokens
    * @param amount - Amount of tokens to mint
    * @returns Object containing instructions
+   * @throws MintPausedError if the mint is paused
    */
-  createMintToInstructions(
+  async createMintToInstructions(
     destination: PublicKey,
     authority: PublicKey,
     amount: bigint
-  ): { instructions: TransactionInstruction[] } {
+  ): Promise<{ instructions: TransactionInstruction[] }> {
+    await this.assertNotPaused();
+
     const instructions: TransactionInstruction[] = [];
     
     // Add mint token instruction
@@ -133,6 +139,7 @@ export class NonTransferableToken extends Token {
    * @param amount - Amount of tokens to mint
    * @param mintAuthority - Authority allowed to mint tokens
    * @returns Instructions and token account address
+   * @throws MintPausedError if the mint is paused
    */
   async createMintToInstructionsWithAddress(
     owner: PublicKey,
@@ -142,6 +149,8 @@ export class NonTransferableToken extends Token {
     instructions: TransactionInstruction[];
     address: PublicKey;
   }> {
+    await this.assertNotPaused();
+
     try {
       // Get token account address
       const tokenAccount = await getAssociatedTokenAddress(
@@ -198,32 +207,7 @@ export class NonTransferableToken extends Token {
   async isNonTransferable(): Promise<boolean> {
     try {
       const mintInfo = await getMint(this.connection, this.mint, "confirmed", TOKEN_2022_PROGRAM_ID);
-     
-      if (!mintInfo.tlvData || mintInfo.tlvData.length === 0) {
-        console.log("No TLV data for mint");
-        return false;
-      }
-  
-      console.log(`Mint TLV data for ${this.mint.toBase58()}:`, mintInfo.tlvData);
-      
-      const NON_TRANSFERABLE_TYPE = 9; 
-      
-      let offset = 0;
-      while (offset < mintInfo.tlvData.length) {
-        if (offset + 4 > mintInfo.tlvData.length) break;
-        const type = mintInfo.tlvData.readUInt32LE(offset);
-        console.log(`Found extension type: ${type}`);
-        
-        if (type === NON_TRANSFERABLE_TYPE) {
-          return true;
-        }
-        
-        if (offset + 8 > mintInfo.tlvData.length) break;
-        const length = mintInfo.tlvData.readUInt32LE(offset + 4);
-        offset += 8 + length;
-      }
-      
-      return false;
+      return hasExtension(decodeMintExtensions(mintInfo), TokenExtensionType.NonTransferable);
     } catch (error: any) {
       console.error("Error checking non-transferable status:", error);
       throw new Error(`Failed to check if token is non-transferable: ${error.message}`);
@@ -255,13 +239,20 @@ export class NonTransferableToken extends Token {
 
   /**
    * Check if tokens can be transferred from a token account
-   * For non-transferable tokens, this will always return false
+   * For non-transferable tokens, this will always return false, as for frozen accounts
    * 
    * @param tokenAccount - Token account to check
    * @returns Boolean indicating if tokens can be transferred
    */
   async canTransferTokens(tokenAccount: PublicKey): Promise<boolean> {
-      const isNonTransferable = await this.isNonTransferable();
-    return !isNonTransferable;
+    try {
+      const snapshot = await inspectTokenAccount(this.connection, tokenAccount);
+      if (!snapshot.mint.equals(this.mint)) {
+        throw new Error(`Token account does not belong to mint ${this.mint.toBase58()}`);
+      }
+      return snapshot.flags.transferable;
+    } catch (error: any) {
+      throw new Error(`Failed to check if tokens can be transferred: ${error.message}`);
+    }
   }
 } 
\ No newline at end of file
@@ -0,0 +1,189 @@
+import { Commitment, Connection, PublicKey, Signer, TransactionInstruction } from '@solana/web3.js';
+import { TOKEN_2022_PROGRAM_ID, getMint } from '@solana/spl-token';
+import { PausableState, decodeMintExtensions, getExtensionState } from '../../utils/extension-decoder';
+import { TokenExtensionType } from '../../utils/extension-registry';
+import { getAuthorityKeys } from '../../utils/multisig';
+
+// Token-2022 discriminator of the Pausable extension
+export const PausableExtensionType = TokenExtensionType.Pausable;
+
+// Token-2022 instruction prefix of the Pausable extension
+const PAUSABLE_INSTRUCTION = 44;
+
+enum PausableInstruction {
+  Initialize = 0,
+  Pause = 1,
+  Resume = 2,
+}
+
+/**
+ * Thrown before building mints, burns and transfers of a paused mint, which Token-2022 would refuse
+ */
+export class MintPausedError extends Error {
+  readonly mint: PublicKey;
+
+  constructor(mint: PublicKey) {
+    super(`Mint ${mint.toBase58()} is paused: transfers, mints and burns fail until it is resumed`);
+    this.name = 'MintPausedError';
+    this.mint = mint;
+  }
+}
+
+/**
+ * Create instruction to initialize the Pausable extension
+ *
+ * Must be placed before InitializeMint.
+ *
+ * @param mint - Mint address
+ * @param authority - Authority that can pause and resume the mint
+ * @param programId - Token Extension Program ID
+ * @returns Instruction to initialize the pausable configuration
+ */
+export function createInitializePausableConfigInstruction(
+  mint: PublicKey,
+  authority: PublicKey,
+  programId = TOKEN_2022_PROGRAM_ID
+): TransactionInstruction {
+  const data = Buffer.alloc(34);
+  data.writeUInt8(PAUSABLE_INSTRUCTION, 0);
+  data.writeUInt8(PausableInstruction.Initialize, 1);
+  authority.toBuffer().copy(data, 2);
+
+  return new TransactionInstruction({
+    programId,
+    keys: [{ pubkey: mint, isSigner: false, isWritable: true }],
+    data,
+  });
+}
+
+function createPausableInstruction(
+  instruction: PausableInstruction,
+  mint: PublicKey,
+  authority: PublicKey,
+  multiSigners: (Signer | PublicKey)[],
+  programId: PublicKey
+): TransactionInstruction {
+  return new TransactionInstruction({
+    programId,
+    keys: [{ pubkey: mint, isSigner: false, isWritable: true }, ...getAuthorityKeys(authority, multiSigners)],
+    data: Buffer.from([PAUSABLE_INSTRUCTION, instruction]),
+  });
+}
+
+/**
+ * Create instruction to pause a mint
+ *
+ * While paused, Token-2022 refuses transfers, mints and burns of the mint.
+ *
+ * @param mint - Mint address
+ * @param authority - Pause authority
+ * @param multiSigners - Signers if the authority is a multisig
+ * @param programId - Token Extension Program ID
+ * @returns Instruction to pause the mint
+ */
+export function createPauseInstruction(
+  mint: PublicKey,
+  authority: PublicKey,
+  multiSigners: (Signer | PublicKey)[] = [],
+  programId = TOKEN_2022_PROGRAM_ID
+): TransactionInstruction {
+  return createPausableInstruction(PausableInstruction.Pause, mint, authority, multiSigners, programId);
+}
+
+/**
+ * Create instruction to resume a paused mint
+ * @param mint - Mint address
+ * @param authority - Pause authority
+ * @param multiSigners - Signers if the authority is a multisig
+ * @param programId - Token Extension Program ID
+ * @returns Instruction to resume the mint
+ */
+export function createResumeInstruction(
+  mint: PublicKey,
+  authority: PublicKey,
+  multiSigners: (Signer | PublicKey)[] = [],
+  programId = TOKEN_2022_PROGRAM_ID
+): TransactionInstruction {
+  return createPausableInstruction(PausableInstruction.Resume, mint, authority, multiSigners, programId);
+}
+
+/**
+ * Class for the Pausable mint extension
+ *
+ * The pause authority can halt every transfer, mint and burn of the token, then resume them.
+ */
+export class PausableExtension {
+  private connection: Connection;
+  private mint: PublicKey;
+
+  /**
+   * Create a new PausableExtension instance
+   * @param connection - Connection to Solana cluster
+   * @param mint - Mint address
+   */
+  constructor(connection: Connection, mint: PublicKey) {
+    this.connection = connection;
+    this.mint = mint;
+  }
+
+  /**
+   * Create instruction to pause the mint
+   * @param authority - Pause authority
+   * @param multiSigners - Signers if the authority is a multisig
+   * @returns Instruction to pause the mint
+   */
+  createPauseInstruction(authority: PublicKey, multiSigners: (Signer | PublicKey)[] = []): TransactionInstruction {
+    return createPauseInstruction(this.mint, authority, multiSigners);
+  }
+
+  /**
+   * Create instruction to resume the mint
+   * @param authority - Pause authority
+   * @param multiSigners - Signers if the authority is a multisig
+   * @returns Instruction to resume the mint
+   */
+  createResumeInstruction(authority: PublicKey, multiSigners: (Signer | PublicKey)[] = []): TransactionInstruction {
+    return createResumeInstruction(this.mint, authority, multiSigners);
+  }
+
+  /**
+   * Read the pausable configuration of the mint
+   * @param commitment - Commitment level
+   * @returns Pause authority and paused flag, null if the mint has no Pausable extension
+   */
+  async getPausableState(commitment: Commitment = 'confirmed'): Promise<PausableState | null> {
+    return PausableExtension.getPausableState(this.connection, this.mint, commitment);
+  }
+
+  /**
+   * Check if the mint is paused
+   * @param commitment - Commitment level
+   * @returns Promise resolving to the paused flag, false if the extension is missing
+   */
+  async isPaused(commitment: Commitment = 'confirmed'): Promise<boolean> {
+    const state = await this.getPausableState(commitment);
+    return state?.paused ?? false;
+  }
+
+  /**
+   * Read the pausable configuration of a mint
+   * @param connection - Connection to Solana cluster
+   * @param mint - Mint address
+   * @param commitment - Commitment level
+   * @param programId - Token Extension Program ID
+   * @returns Pause authority and paused flag, null if the mint has no Pausable extension
+   */
+  static async getPausableState(
+    connection: Connection,
+    mint: PublicKey,
+    commitment: Commitment = 'confirmed',
+    programId = TOKEN_2022_PROGRAM_ID
+  ): Promise<PausableState | null> {
+    try {
+      const mintInfo = await getMint(connection, mint, commitment, programId);
+      return getExtensionState(decodeMintExtensions(mintInfo), TokenExtensionType.Pausable);
+    } catch (error: any) {
+      throw new Error(`Could not get pausable state: ${error.message}`);
+    }
+  }
+}
@@ -2,6 +2,7 @@ import {
   Connection,
   Keypair,
   PublicKey,
+  Signer,
   Transaction,
   SystemProgram,
   TransactionInstruction
@@ -167,20 +168,22 @@ export class PermanentDelegateToken extends Token {
    * @param source - Source account (any account holding the token)
    * @param destination - Destination account
    * @param amount - Amount to transfer
+   * @param multiSigners - Signers if the permanent delegate is a multisig
    * @returns Transaction instruction
    */
   createTransferAsDelegateInstruction(
     delegate: PublicKey,
     source: PublicKey,
     destination: PublicKey,
-    amount: bigint
+    amount: bigint,
+    multiSigners: (Signer | PublicKey)[] = []
   ): TransactionInstruction {
     return createTransferInstruction(
           source,
           destination,
       delegate,
           amount,
-          [],
+          multiSigners,
           TOKEN_2022_PROGRAM_ID
     );
   }
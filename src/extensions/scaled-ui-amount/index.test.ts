@@ -0,0 +1,28 @@
+import { Keypair } from '@solana/web3.js';
+import { ScaledUiAmountState } from '../../utils/extension-decoder';
+import { createUpdateMultiplierInstruction, getCurrentMultiplier } from './index';
+
+const config: ScaledUiAmountState = {
+  authority: null,
+  multiplier: 1.5,
+  newMultiplierEffectiveTimestamp: BigInt(1_700_000_000),
+  newMultiplier: 2,
+};
+
+describe('getCurrentMultiplier', () => {
+  it('keeps the stored multiplier before the scheduled one takes effect', () => {
+    expect(getCurrentMultiplier(config, BigInt(1_699_999_999))).toBe(1.5);
+  });
+
+  it('switches to the scheduled multiplier at its timestamp', () => {
+    expect(getCurrentMultiplier(config, BigInt(1_700_000_000))).toBe(2);
+    expect(getCurrentMultiplier(config, BigInt(1_800_000_000))).toBe(2);
+  });
+});
+
+describe('createUpdateMultiplierInstruction', () => {
+  it('rejects multipliers that are not positive', () => {
+    const mint = Keypair.generate().publicKey;
+    expect(() => createUpdateMultiplierInstruction(mint, mint, 0, BigInt(0))).toThrow('positive number');
+  });
+});
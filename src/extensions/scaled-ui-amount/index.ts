@@ -0,0 +1,100 @@
+import { PublicKey, Signer, TransactionInstruction } from '@solana/web3.js';
+import { TOKEN_2022_PROGRAM_ID } from '@solana/spl-token';
+import { ScaledUiAmountState } from '../../utils/extension-decoder';
+import { TokenExtensionType } from '../../utils/extension-registry';
+import { getAuthorityKeys } from '../../utils/multisig';
+
+// Token-2022 discriminator of the ScaledUiAmount extension
+export const ScaledUiAmountExtensionType = TokenExtensionType.ScaledUiAmount;
+
+// Token-2022 instruction prefix of the ScaledUiAmount extension
+const SCALED_UI_AMOUNT_INSTRUCTION = 43;
+
+enum ScaledUiAmountInstruction {
+  Initialize = 0,
+  UpdateMultiplier = 1,
+}
+
+function checkMultiplier(multiplier: number): void {
+  if (!Number.isFinite(multiplier) || multiplier <= 0) {
+    throw new Error(`Multiplier must be a positive number, got ${multiplier}`);
+  }
+}
+
+/**
+ * Get the multiplier in force at a given time
+ *
+ * A multiplier scheduled with UpdateMultiplier replaces the stored one once its timestamp is reached.
+ *
+ * @param config - ScaledUiAmount state of the mint
+ * @param unixTimestamp - Cluster unix timestamp
+ * @returns Multiplier applied to UI amounts
+ */
+export function getCurrentMultiplier(config: ScaledUiAmountState, unixTimestamp: bigint): number {
+  return unixTimestamp >= config.newMultiplierEffectiveTimestamp ? config.newMultiplier : config.multiplier;
+}
+
+/**
+ * Create instruction to initialize the ScaledUiAmount extension
+ *
+ * Must be placed before InitializeMint. Wallets display amounts multiplied by the multiplier.
+ *
+ * @param mint - Mint address
+ * @param authority - Authority that can update the multiplier, null for none
+ * @param multiplier - Multiplier applied to UI amounts
+ * @param programId - Token Extension Program ID
+ * @returns Instruction to initialize the scaled UI amount configuration
+ */
+export function createInitializeScaledUiAmountConfigInstruction(
+  mint: PublicKey,
+  authority: PublicKey | null,
+  multiplier: number,
+  programId = TOKEN_2022_PROGRAM_ID
+): TransactionInstruction {
+  checkMultiplier(multiplier);
+
+  const data = Buffer.alloc(42);
+  data.writeUInt8(SCALED_UI_AMOUNT_INSTRUCTION, 0);
+  data.writeUInt8(ScaledUiAmountInstruction.Initialize, 1);
+  (authority ?? PublicKey.default).toBuffer().copy(data, 2);
+  data.writeDoubleLE(multiplier, 34);
+
+  return new TransactionInstruction({
+    programId,
+    keys: [{ pubkey: mint, isSigner: false, isWritable: true }],
+    data,
+  });
+}
+
+/**
+ * Create instruction to schedule a new multiplier
+ * @param mint - Mint address
+ * @param authority - Scaled UI amount authority
+ * @param multiplier - New multiplier
+ * @param effectiveTimestamp - Unix timestamp from which the new multiplier applies
+ * @param multiSigners - Signers if the authority is a multisig
+ * @param programId - Token Extension Program ID
+ * @returns Instruction to update the multiplier
+ */
+export function createUpdateMultiplierInstruction(
+  mint: PublicKey,
+  authority: PublicKey,
+  multiplier: number,
+  effectiveTimestamp: bigint,
+  multiSigners: (Signer | PublicKey)[] = [],
+  programId = TOKEN_2022_PROGRAM_ID
+): TransactionInstruction {
+  checkMultiplier(multiplier);
+
+  const data = Buffer.alloc(18);
+  data.writeUInt8(SCALED_UI_AMOUNT_INSTRUCTION, 0);
+  data.writeUInt8(ScaledUiAmountInstruction.UpdateMultiplier, 1);
+  data.writeDoubleLE(multiplier, 2);
+  data.writeBigInt64LE(effectiveTimestamp, 10);
+
+  return new TransactionInstruction({
+    programId,
+    keys: [{ pubkey: mint, isSigner: false, isWritable: true }, ...getAuthorityKeys(authority, multiSigners)],
+    data,
+  });
+}
@@ -113,7 +113,7 @@ export class TokenFreezeExtension {
     mint: PublicKey,
     authority: PublicKey,
     feePayer: PublicKey,
-    multiSigners: PublicKey[] = [],
+    multiSigners: (Signer | PublicKey)[] = [],
     programId = TOKEN_2022_PROGRAM_ID
   ): Transaction {
     const instruction = this.createFreezeAccountInstruction(
@@ -147,7 +147,7 @@ export class TokenFreezeExtension {
     mint: PublicKey,
     authority: PublicKey,
     feePayer: PublicKey,
-    multiSigners: PublicKey[] = [],
+    multiSigners: (Signer | PublicKey)[] = [],
     programId = TOKEN_2022_PROGRAM_ID
   ): Transaction {
     const instruction = this.createThawAccountInstruction(
@@ -181,7 +181,7 @@ export class TokenFreezeExtension {
     accountState: AccountState,
     freezeAuthority: PublicKey,
     feePayer: PublicKey,
-    multiSigners: PublicKey[] = [],
+    multiSigners: (Signer | PublicKey)[] = [],
     programId = TOKEN_2022_PROGRAM_ID
   ): Transaction {
     const instruction = this.createUpdateDefaultAccountStateInstruction(
@@ -0,0 +1,41 @@
+import { AccountInfo, Connection, Keypair, PublicKey } from '@solana/web3.js';
+import { TOKEN_2022_PROGRAM_ID } from '@solana/spl-token';
+import { TokenExtensionType } from '../../utils/extension-registry';
+import { TokenGroupExtension } from './index';
+
+const group = Keypair.generate().publicKey;
+
+function account(data: Buffer): AccountInfo<Buffer> {
+  return { data, executable: false, lamports: 1, owner: TOKEN_2022_PROGRAM_ID, rentEpoch: 0 };
+}
+
+function memberMint(memberGroup: PublicKey): Buffer {
+  const member = Buffer.alloc(72);
+  memberGroup.toBuffer().copy(member, 32);
+  const header = Buffer.alloc(4);
+  header.writeUInt16LE(TokenExtensionType.TokenGroupMember, 0);
+  header.writeUInt16LE(member.length, 2);
+  // Base mint padded to the account size, then the mint account type
+  return Buffer.concat([Buffer.alloc(165), Buffer.from([1]), header, member]);
+}
+
+describe('TokenGroupExtension.listMemberAddresses', () => {
+  it('skips multisigs matching the mint account type in an exhaustive scan', async () => {
+    const members = [Keypair.generate().publicKey, Keypair.generate().publicKey];
+    // A signer key of a multisig can have 1 at the account type offset
+    const multisig = Buffer.alloc(355);
+    multisig[165] = 1;
+
+    const connection = {
+      getProgramAccounts: async () => [
+        { pubkey: Keypair.generate().publicKey, account: account(multisig) },
+        { pubkey: members[0], account: account(memberMint(group)) },
+        { pubkey: Keypair.generate().publicKey, account: account(memberMint(Keypair.generate().publicKey)) },
+        { pubkey: members[1], account: account(memberMint(group)) },
+      ],
+    } as unknown as Connection;
+
+    const addresses = await new TokenGroupExtension(connection, group).listMemberAddresses(undefined, true);
+    expect(addresses.map((address) => address.toBase58())).toEqual(members.map((member) => member.toBase58()).sort());
+  });
+});
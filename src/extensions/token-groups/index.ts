@@ -1,236 +1,287 @@
 import { Connection, PublicKey, SystemProgram, Transaction, sendAndConfirmTransaction, Keypair, TransactionInstruction, Signer } from '@solana/web3.js';
 import { 
-  ExtensionType, 
   TOKEN_2022_PROGRAM_ID,
-  getMintLen,
   createInitializeMintInstruction,
   getMint,
   getAccount,
   createAssociatedTokenAccountInstruction,
-  getAssociatedTokenAddress
+  getAssociatedTokenAddress,
+  unpackMint
 } from '@solana/spl-token';
+import { TokenMetadata } from '@solana/spl-token-metadata';
+import bs58 from 'bs58';
+import {
+  TokenGroupMemberState,
+  TokenGroupState,
+  decodeMintExtensions,
+  getExtensionState,
+} from '../../utils/extension-decoder';
+import {
+  ExtensionTypeLike,
+  TokenExtensionType,
+  calculateMintLen,
+  getExtensionInfo,
+  getExtensionName,
+} from '../../utils/extension-registry';
+import { MemberPointerExtensionType, createInitializeMemberPointerInstruction } from '../member-pointer';
 
-// Define GroupPointer extension type (not yet available in standard ExtensionType)
-export const GroupPointerExtensionType = 20; // Assumed ID for GroupPointer
+// Token-2022 discriminators of the group extensions
+export const GroupPointerExtensionType = TokenExtensionType.GroupPointer;
+export const TokenGroupExtensionType = TokenExtensionType.TokenGroup;
+export const TokenGroupMemberExtensionType = TokenExtensionType.TokenGroupMember;
 
-// Define TokenGroup and TokenGroupMember extension types
-// These are custom extension types for Token-2022 that may not be in the standard ExtensionType enum yet
-export const TokenGroupExtensionType = 23; // ID for TokenGroup
-export const TokenGroupMemberExtensionType = 24; // ID for TokenGroupMember
+// Token-2022 instruction prefix of the GroupPointer extension
+const GROUP_POINTER_INSTRUCTION = 40;
+
+enum GroupPointerInstruction {
+  Initialize = 0,
+  Update = 1,
+}
+
+// Discriminators of the spl-token-group interface instructions
+const INITIALIZE_GROUP_DISCRIMINATOR = Buffer.from([121, 113, 108, 39, 54, 51, 0, 4]);
+const UPDATE_GROUP_MAX_SIZE_DISCRIMINATOR = Buffer.from([108, 37, 171, 143, 248, 30, 18, 110]);
+const UPDATE_GROUP_AUTHORITY_DISCRIMINATOR = Buffer.from([161, 105, 88, 1, 237, 221, 216, 203]);
+const INITIALIZE_MEMBER_DISCRIMINATOR = Buffer.from([152, 32, 222, 176, 223, 237, 116, 134]);
+
+/**
+ * Member of a token group as returned by listMembers
+ */
+export interface TokenGroupMemberInfo {
+  mint: PublicKey;
+  memberNumber: bigint;
+  /** Metadata embedded in the member mint, null when absent */
+  metadata: TokenMetadata | null;
+}
+
+/**
+ * Options for enumerating the members of a token group
+ */
+export interface ListMembersOptions {
+  /** Number of member mints fetched per page, at most 100 */
+  pageSize?: number;
+  /**
+   * Mint extensions stored before TokenGroupMember in the member mints.
+   * Each layout gives the offset of the group field used to filter program accounts,
+   * so members with any other layout are not found.
+   */
+  layouts?: ExtensionTypeLike[][];
+  /**
+   * Fetch every Token-2022 mint with extensions and decode it client-side instead of
+   * filtering by layout. Finds members of any layout, at the cost of a much larger RPC response.
+   */
+  exhaustive?: boolean;
+}
+
+// Layouts produced by createTokenGroupMemberInstructions and the usual NFT setup
+const DEFAULT_MEMBER_LAYOUTS: ExtensionTypeLike[][] = [
+  [TokenExtensionType.GroupMemberPointer],
+  [TokenExtensionType.MetadataPointer, TokenExtensionType.GroupMemberPointer],
+];
+
+const MAX_PAGE_SIZE = 100;
+// Offset of the account type byte in Token-2022 accounts with extensions
+const ACCOUNT_TYPE_OFFSET = 165;
+const MINT_ACCOUNT_TYPE = 1;
+const TLV_HEADER_SIZE = 4;
 
 /**
- * Token Group Member Status Flags
+ * Get the offset of the group field of a TokenGroupMember stored after the given extensions
  */
-export enum TokenGroupMemberStatus {
-  NONE = 0,
-  ACTIVE = 1 << 0,
-  FROZEN = 1 << 1,
+function getMemberGroupOffset(precedingExtensions: ExtensionTypeLike[]): number {
+  let offset = ACCOUNT_TYPE_OFFSET + 1;
+  for (const type of precedingExtensions) {
+    const size = getExtensionInfo(type)?.size;
+    if (size === null || size === undefined) {
+      throw new Error(`Cannot locate TokenGroupMember after ${getExtensionName(type)}`);
+    }
+    offset += TLV_HEADER_SIZE + size;
+  }
+  // Skip the member's TLV header and its mint field
+  return offset + TLV_HEADER_SIZE + 32;
+}
+
+function encodeMaxSize(maxSize: number | bigint): Buffer {
+  const data = Buffer.alloc(8);
+  data.writeBigUInt64LE(BigInt(maxSize));
+  return data;
 }
 
 /**
  * Create instruction to initialize group pointer for a token
  * @param mint - Mint address
- * @param groupMint - Mint address of the token group
+ * @param authority - Authority that can update the group address, null for none
+ * @param groupAddress - Account holding the TokenGroup data, usually the mint itself
  * @param programId - Token Extension Program ID
  * @returns Instruction to initialize group pointer
  */
 export function createInitializeGroupPointerInstruction(
   mint: PublicKey,
-  groupMint: PublicKey,
+  authority: PublicKey | null,
+  groupAddress: PublicKey | null,
   programId = TOKEN_2022_PROGRAM_ID
-): any {
+): TransactionInstruction {
+  const data = Buffer.alloc(66);
+  data.writeUInt8(GROUP_POINTER_INSTRUCTION, 0);
+  data.writeUInt8(GroupPointerInstruction.Initialize, 1);
+  (authority ?? PublicKey.default).toBuffer().copy(data, 2);
+  (groupAddress ?? PublicKey.default).toBuffer().copy(data, 34);
 
-  return {
+  return new TransactionInstruction({
     programId,
-    keys: [
-      { pubkey: mint, isSigner: false, isWritable: true },
-      { pubkey: groupMint, isSigner: false, isWritable: false },
-    ],
-    data: Buffer.from([GroupPointerExtensionType]), // Mock data
-  };
+    keys: [{ pubkey: mint, isSigner: false, isWritable: true }],
+    data,
+  });
 }
 
 /**
- * Create instruction to initialize a mint as a token group
- * @param mint - Public key of the mint account
- * @param payer - Public key of the payer
- * @param groupAuthority - Public key of the authority for managing group
- * @param updateAuthority - (Optional) Public key of the authority for updating metadata
- * @param name - Group name (max 32 bytes)
- * @param symbol - Group symbol (max 10 bytes)
- * @param programId - SPL Token program ID
- * @returns TransactionInstruction
+ * Create instruction to update the group address of a group pointer
+ * @param mint - Mint address
+ * @param authority - Group pointer authority
+ * @param groupAddress - New group address, null to clear it
+ * @param multiSigners - Signers if the authority is a multisig
+ * @param programId - Token Extension Program ID
+ * @returns Instruction to update group pointer
  */
-export function createInitializeTokenGroupInstruction(
+export function createUpdateGroupPointerInstruction(
   mint: PublicKey,
-  payer: PublicKey,
-  groupAuthority: PublicKey,
-  updateAuthority: PublicKey | null = null,
-  name: string,
-  symbol: string,
+  authority: PublicKey,
+  groupAddress: PublicKey | null,
+  multiSigners: (Signer | PublicKey)[] = [],
   programId = TOKEN_2022_PROGRAM_ID
 ): TransactionInstruction {
+  const data = Buffer.alloc(34);
+  data.writeUInt8(GROUP_POINTER_INSTRUCTION, 0);
+  data.writeUInt8(GroupPointerInstruction.Update, 1);
+  (groupAddress ?? PublicKey.default).toBuffer().copy(data, 2);
+
   const keys = [
     { pubkey: mint, isSigner: false, isWritable: true },
-    { pubkey: payer, isSigner: true, isWritable: true },
-    { pubkey: groupAuthority, isSigner: false, isWritable: false },
+    { pubkey: authority, isSigner: multiSigners.length === 0, isWritable: false },
   ];
-
-  if (updateAuthority) {
-    keys.push({ pubkey: updateAuthority, isSigner: false, isWritable: false });
+  for (const signer of multiSigners) {
+    keys.push({
+      pubkey: signer instanceof PublicKey ? signer : signer.publicKey,
+      isSigner: true,
+      isWritable: false,
+    });
   }
 
-  // Validate inputs
-  if (name.length > 32) {
-    throw new Error('Group name must be 32 characters or less');
-  }
-  if (symbol.length > 10) {
-    throw new Error('Group symbol must be 10 characters or less');
-  }
-
-  // Create data buffer
-  const nameBuffer = Buffer.alloc(32);
-  const symbolBuffer = Buffer.alloc(10);
-  
-  Buffer.from(name).copy(nameBuffer);
-  Buffer.from(symbol).copy(symbolBuffer);
-  
-  const dataLayout = Buffer.concat([
-    Buffer.from([
-      TokenGroupExtensionType & 0xff,
-      (TokenGroupExtensionType >> 8) & 0xff,
-      (TokenGroupExtensionType >> 16) & 0xff,
-      (TokenGroupExtensionType >> 24) & 0xff,
-    ]),
-    nameBuffer,
-    symbolBuffer,
-    Buffer.from([updateAuthority ? 1 : 0]),
-  ]);
+  return new TransactionInstruction({ programId, keys, data });
+}
 
+/**
+ * Create instruction to initialize a token group (spl-token-group InitializeGroup)
+ * @param group - Account receiving the TokenGroup data, usually the mint itself
+ * @param mint - Mint of the group
+ * @param mintAuthority - Mint authority of the group mint, must sign
+ * @param updateAuthority - Authority that can update the group, null for none
+ * @param maxSize - Maximum number of members
+ * @param programId - Program implementing the token-group interface
+ * @returns TransactionInstruction
+ */
+export function createInitializeTokenGroupInstruction(
+  group: PublicKey,
+  mint: PublicKey,
+  mintAuthority: PublicKey,
+  updateAuthority: PublicKey | null,
+  maxSize: number | bigint,
+  programId = TOKEN_2022_PROGRAM_ID
+): TransactionInstruction {
   return new TransactionInstruction({
     programId,
-    keys,
-    data: dataLayout,
+    keys: [
+      { pubkey: group, isSigner: false, isWritable: true },
+      { pubkey: mint, isSigner: false, isWritable: false },
+      { pubkey: mintAuthority, isSigner: true, isWritable: false },
+    ],
+    data: Buffer.concat([
+      INITIALIZE_GROUP_DISCRIMINATOR,
+      (updateAuthority ?? PublicKey.default).toBuffer(),
+      encodeMaxSize(maxSize),
+    ]),
   });
 }
 
 /**
- * Create instruction to update a token group
- * @param mint - Public key of the mint account
- * @param updateAuthority - Public key of the update authority
- * @param name - New group name (max 32 bytes)
- * @param symbol - New group symbol (max 10 bytes)
- * @param programId - SPL Token program ID
+ * Create instruction to change the maximum size of a token group
+ * @param group - Account holding the TokenGroup data
+ * @param updateAuthority - Group update authority, must sign
+ * @param maxSize - New maximum number of members, not lower than the current size
+ * @param programId - Program implementing the token-group interface
  * @returns TransactionInstruction
  */
-export function createUpdateTokenGroupInstruction(
-  mint: PublicKey,
+export function createUpdateGroupMaxSizeInstruction(
+  group: PublicKey,
   updateAuthority: PublicKey,
-  name: string,
-  symbol: string,
+  maxSize: number | bigint,
   programId = TOKEN_2022_PROGRAM_ID
 ): TransactionInstruction {
-  // Validate inputs
-  if (name.length > 32) {
-    throw new Error('Group name must be 32 characters or less');
-  }
-  if (symbol.length > 10) {
-    throw new Error('Group symbol must be 10 characters or less');
-  }
-
-  // Create data buffer
-  const nameBuffer = Buffer.alloc(32);
-  const symbolBuffer = Buffer.alloc(10);
-  
-  Buffer.from(name).copy(nameBuffer);
-  Buffer.from(symbol).copy(symbolBuffer);
-  
-  const dataLayout = Buffer.concat([
-    Buffer.from([
-      TokenGroupExtensionType & 0xff,
-      (TokenGroupExtensionType >> 8) & 0xff,
-      (TokenGroupExtensionType >> 16) & 0xff,
-      (TokenGroupExtensionType >> 24) & 0xff,
-      1, // Update operation
-    ]),
-    nameBuffer,
-    symbolBuffer,
-  ]);
-
   return new TransactionInstruction({
     programId,
     keys: [
-      { pubkey: mint, isSigner: false, isWritable: true },
+      { pubkey: group, isSigner: false, isWritable: true },
       { pubkey: updateAuthority, isSigner: true, isWritable: false },
     ],
-    data: dataLayout,
+    data: Buffer.concat([UPDATE_GROUP_MAX_SIZE_DISCRIMINATOR, encodeMaxSize(maxSize)]),
   });
 }
 
 /**
- * Create instruction to initialize a mint as a token group member
- * @param memberMint - Public key of the member mint account
- * @param groupMint - Public key of the group mint account
- * @param payer - Public key of the payer
- * @param memberAuthority - Public key of the authority for managing member status
- * @param programId - SPL Token program ID
+ * Create instruction to change the update authority of a token group
+ * @param group - Account holding the TokenGroup data
+ * @param currentAuthority - Current update authority, must sign
+ * @param newAuthority - New update authority, null to make the group immutable
+ * @param programId - Program implementing the token-group interface
  * @returns TransactionInstruction
  */
-export function createInitializeTokenGroupMemberInstruction(
-  memberMint: PublicKey,
-  groupMint: PublicKey,
-  payer: PublicKey,
-  memberAuthority: PublicKey,
+export function createUpdateGroupAuthorityInstruction(
+  group: PublicKey,
+  currentAuthority: PublicKey,
+  newAuthority: PublicKey | null,
   programId = TOKEN_2022_PROGRAM_ID
 ): TransactionInstruction {
   return new TransactionInstruction({
     programId,
     keys: [
-      { pubkey: memberMint, isSigner: false, isWritable: true },
-      { pubkey: groupMint, isSigner: false, isWritable: false },
-      { pubkey: payer, isSigner: true, isWritable: true },
-      { pubkey: memberAuthority, isSigner: false, isWritable: false },
+      { pubkey: group, isSigner: false, isWritable: true },
+      { pubkey: currentAuthority, isSigner: true, isWritable: false },
     ],
-    data: Buffer.from([
-      TokenGroupMemberExtensionType & 0xff,
-      (TokenGroupMemberExtensionType >> 8) & 0xff,
-      (TokenGroupMemberExtensionType >> 16) & 0xff,
-      (TokenGroupMemberExtensionType >> 24) & 0xff,
+    data: Buffer.concat([
+      UPDATE_GROUP_AUTHORITY_DISCRIMINATOR,
+      (newAuthority ?? PublicKey.default).toBuffer(),
     ]),
   });
 }
 
 /**
- * Create instruction to update a token group member's status
- * @param memberMint - Public key of the member mint account
- * @param memberAuthority - Public key of the member authority
- * @param status - New status for the member
- * @param programId - SPL Token program ID
+ * Create instruction to add a mint to a token group (spl-token-group InitializeMember)
+ * @param member - Account receiving the TokenGroupMember data, usually the member mint itself
+ * @param memberMint - Mint of the member
+ * @param memberMintAuthority - Mint authority of the member mint, must sign
+ * @param group - Account holding the TokenGroup data
+ * @param groupUpdateAuthority - Group update authority, must sign
+ * @param programId - Program implementing the token-group interface
  * @returns TransactionInstruction
  */
-export function createUpdateTokenGroupMemberInstruction(
+export function createInitializeTokenGroupMemberInstruction(
+  member: PublicKey,
   memberMint: PublicKey,
-  memberAuthority: PublicKey,
-  status: TokenGroupMemberStatus,
+  memberMintAuthority: PublicKey,
+  group: PublicKey,
+  groupUpdateAuthority: PublicKey,
   programId = TOKEN_2022_PROGRAM_ID
 ): TransactionInstruction {
   return new TransactionInstruction({
     programId,
     keys: [
-      { pubkey: memberMint, isSigner: false, isWritable: true },
-      { pubkey: memberAuthority, isSigner: true, isWritable: false },
+      { pubkey: member, isSigner: false, isWritable: true },
+      { pubkey: memberMint, isSigner: false, isWritable: false },
+      { pubkey: memberMintAuthority, isSigner: true, isWritable: false },
+      { pubkey: group, isSigner: false, isWritable: true },
+      { pubkey: groupUpdateAuthority, isSigner: true, isWritable: false },
     ],
-    data: Buffer.from([
-      TokenGroupMemberExtensionType & 0xff,
-      (TokenGroupMemberExtensionType >> 8) & 0xff,
-      (TokenGroupMemberExtensionType >> 16) & 0xff,
-      (TokenGroupMemberExtensionType >> 24) & 0xff,
-      1, // Update operation
-      status & 0xff,
-      (status >> 8) & 0xff,
-      (status >> 16) & 0xff,
-      (status >> 24) & 0xff,
-    ]),
+    data: INITIALIZE_MEMBER_DISCRIMINATOR,
   });
 }
 
@@ -253,16 +304,9 @@ export class TokenGroupExtension {
   
   /**
    * Get token group information
-   * @returns Promise resolving to token group information
+   * @returns Promise resolving to the TokenGroup state of the mint
    */
-  async getTokenGroupInfo(): Promise<{
-    name: string;
-    symbol: string;
-    maxSize?: number;
-    memberCount?: number;
-    groupAuthority: PublicKey | null;
-    updateAuthority: PublicKey | null;
-  }> {
+  async getTokenGroupInfo(): Promise<TokenGroupState> {
     try {
       const mintInfo = await getMint(
         this.connection,
@@ -271,62 +315,35 @@ export class TokenGroupExtension {
         TOKEN_2022_PROGRAM_ID
       );
       
-      // Extract token group data from TLV
-      if (mintInfo.tlvData) {
-        let offset = 0;
-        while (offset < mintInfo.tlvData.length) {
-          if (offset + 8 > mintInfo.tlvData.length) break;
-          
-          const type = mintInfo.tlvData.readUInt32LE(offset);
-          const length = mintInfo.tlvData.readUInt32LE(offset + 4);
-          
-          if (type === TokenGroupExtensionType) {
-            if (offset + 8 + length > mintInfo.tlvData.length) break;
-            
-            // Parse name (32 bytes)
-            const nameBytes = mintInfo.tlvData.slice(offset + 8, offset + 8 + 32);
-            const name = nameBytes.toString('utf8').replace(/\0/g, '');
-            
-            // Parse symbol (10 bytes)
-            const symbolBytes = mintInfo.tlvData.slice(offset + 8 + 32, offset + 8 + 42);
-            const symbol = symbolBytes.toString('utf8').replace(/\0/g, '');
-            
-            // Parse authorities if they exist
-            let groupAuthority: PublicKey | null = null;
-            let updateAuthority: PublicKey | null = null;
-            
-            if (length >= 42 + 32) {
-              const groupAuthorityBytes = mintInfo.tlvData.slice(offset + 8 + 42, offset + 8 + 42 + 32);
-              groupAuthority = new PublicKey(groupAuthorityBytes);
-            }
-            
-            if (length >= 42 + 64) {
-              const updateAuthorityFlag = mintInfo.tlvData.readUInt8(offset + 8 + 42);
-              if (updateAuthorityFlag === 1 && length >= 42 + 65) {
-                const updateAuthorityBytes = mintInfo.tlvData.slice(offset + 8 + 43, offset + 8 + 43 + 32);
-                updateAuthority = new PublicKey(updateAuthorityBytes);
-              }
-            }
-            
-            return {
-              name,
-              symbol,
-              groupAuthority,
-              updateAuthority,
-            };
-          }
-          
-          offset += 8 + length;
-        }
+      const group = getExtensionState(decodeMintExtensions(mintInfo), TokenGroupExtensionType);
+      if (!group) {
+        throw new Error('Token group data not found');
       }
       
-      throw new Error('Token group data not found');
+      return group;
     } catch (error) {
       console.error('Error getting token group info:', error);
       throw error;
     }
   }
   
+  /**
+   * Get the TokenGroupMember state of a mint if it belongs to this group
+   * @param memberMint - Public key of the potential member mint
+   * @returns Promise resolving to the member state or null
+   */
+  async getMemberInfo(memberMint: PublicKey): Promise<TokenGroupMemberState | null> {
+    const mintInfo = await getMint(
+      this.connection,
+      memberMint,
+      'confirmed',
+      TOKEN_2022_PROGRAM_ID
+    );
+    
+    const member = getExtensionState(decodeMintExtensions(mintInfo), TokenGroupMemberExtensionType);
+    return member && member.group.equals(this.mint) ? member : null;
+  }
+  
   /**
    * Check if a mint is a member of this token group
    * @param memberMint - Public key of the potential member mint
@@ -334,102 +351,24 @@ export class TokenGroupExtension {
    */
   async isMember(memberMint: PublicKey): Promise<boolean> {
     try {
-      const mintInfo = await getMint(
-        this.connection,
-        memberMint,
-        'confirmed',
-        TOKEN_2022_PROGRAM_ID
-      );
-      
-      // Check the TLV data for TokenGroupMember extension
-      if (mintInfo.tlvData) {
-        let offset = 0;
-        while (offset < mintInfo.tlvData.length) {
-          if (offset + 8 > mintInfo.tlvData.length) break;
-          
-          const type = mintInfo.tlvData.readUInt32LE(offset);
-          const length = mintInfo.tlvData.readUInt32LE(offset + 4);
-          
-          if (type === TokenGroupMemberExtensionType) {
-            // Member found, check if it belongs to this group
-            if (offset + 8 + 32 > mintInfo.tlvData.length) break;
-            
-            const groupMintBytes = mintInfo.tlvData.slice(offset + 8, offset + 8 + 32);
-            const groupMint = new PublicKey(groupMintBytes);
-            
-            return groupMint.equals(this.mint);
-          }
-          
-          offset += 8 + length;
-        }
-      }
-      
-      return false; // Not a member
+      return (await this.getMemberInfo(memberMint)) !== null;
     } catch (error) {
       console.error('Error checking group membership:', error);
       return false;
     }
   }
   
-  /**
-   * Get member status
-   * @param memberMint - Public key of the member mint
-   * @returns Promise resolving to member status
-   */
-  async getMemberStatus(memberMint: PublicKey): Promise<TokenGroupMemberStatus> {
-    try {
-      const mintInfo = await getMint(
-        this.connection,
-        memberMint,
-        'confirmed',
-        TOKEN_2022_PROGRAM_ID
-      );
-      
-      // Check the TLV data for TokenGroupMember extension
-      if (mintInfo.tlvData) {
-        let offset = 0;
-        while (offset < mintInfo.tlvData.length) {
-          if (offset + 8 > mintInfo.tlvData.length) break;
-          
-          const type = mintInfo.tlvData.readUInt32LE(offset);
-          const length = mintInfo.tlvData.readUInt32LE(offset + 4);
-          
-          if (type === TokenGroupMemberExtensionType) {
-            // Member found, check if it belongs to this group
-            if (offset + 8 + 32 > mintInfo.tlvData.length) break;
-            
-            const groupMintBytes = mintInfo.tlvData.slice(offset + 8, offset + 8 + 32);
-            const groupMint = new PublicKey(groupMintBytes);
-            
-            if (groupMint.equals(this.mint)) {
-              // This is a member of our group, get status
-              if (offset + 8 + 32 + 4 > mintInfo.tlvData.length) break;
-              
-              const status = mintInfo.tlvData.readUInt32LE(offset + 8 + 32);
-              return status;
-            }
-          }
-          
-          offset += 8 + length;
-        }
-      }
-      
-      return TokenGroupMemberStatus.NONE; // Not a member or no status
-    } catch (error) {
-      console.error('Error getting member status:', error);
-      return TokenGroupMemberStatus.NONE;
-    }
-  }
-  
   /**
    * Create instructions to create a new token group
+   *
+   * The mint points to itself with GroupPointer and holds the TokenGroup data.
+   * The account is funded for the TokenGroup entry written by InitializeGroup.
+   *
    * @param connection - Connection to Solana cluster
    * @param payer - Public key of the fee payer
-   * @param mintAuthority - Mint authority
-   * @param groupAuthority - Group authority
-   * @param updateAuthority - (Optional) Update authority
-   * @param name - Group name
-   * @param symbol - Group symbol
+   * @param mintAuthority - Mint authority, must sign
+   * @param updateAuthority - Group update authority, also controls the group pointer
+   * @param maxSize - Maximum number of members
    * @param decimals - Number of decimals
    * @returns Instructions, signers, and mint address
    */
@@ -437,10 +376,8 @@ export class TokenGroupExtension {
     connection: Connection,
     payer: PublicKey,
     mintAuthority: PublicKey,
-    groupAuthority: PublicKey,
     updateAuthority: PublicKey | null,
-    name: string,
-    symbol: string,
+    maxSize: number | bigint,
     decimals: number = 6
   ): Promise<{
     instructions: TransactionInstruction[];
@@ -451,47 +388,42 @@ export class TokenGroupExtension {
     const mintKeypair = Keypair.generate();
     const mint = mintKeypair.publicKey;
     
-    // Calculate the space needed for the mint with TokenGroup extension
-    const mintLen = getMintLen([TokenGroupExtensionType as unknown as ExtensionType]);
-    const lamports = await connection.getMinimumBalanceForRentExemption(mintLen);
-    
-    // Create instructions array
-    const instructions: TransactionInstruction[] = [];
+    // InitializeMint expects only the pointer, InitializeGroup reallocates for the group
+    const mintLen = calculateMintLen([GroupPointerExtensionType]);
+    const lamports = await connection.getMinimumBalanceForRentExemption(
+      calculateMintLen([GroupPointerExtensionType, TokenGroupExtensionType])
+    );
     
-    // Add instruction to create account
-    instructions.push(
+    const instructions: TransactionInstruction[] = [
       SystemProgram.createAccount({
         fromPubkey: payer,
         newAccountPubkey: mint,
         space: mintLen,
         lamports,
         programId: TOKEN_2022_PROGRAM_ID,
-      })
-    );
-    
-    // Add instruction to initialize token group
-    instructions.push(
-      createInitializeTokenGroupInstruction(
+      }),
+      createInitializeGroupPointerInstruction(
         mint,
-        payer,
-        groupAuthority,
         updateAuthority,
-        name,
-        symbol,
+        mint,
         TOKEN_2022_PROGRAM_ID
-      )
-    );
-    
-    // Add instruction to initialize mint
-    instructions.push(
+      ),
       createInitializeMintInstruction(
         mint,
         decimals,
         mintAuthority,
         null, // freeze authority
         TOKEN_2022_PROGRAM_ID
-      )
-    );
+      ),
+      createInitializeTokenGroupInstruction(
+        mint,
+        mint,
+        mintAuthority,
+        updateAuthority,
+        maxSize,
+        TOKEN_2022_PROGRAM_ID
+      ),
+    ];
     
     return {
       instructions,
@@ -502,17 +434,19 @@ export class TokenGroupExtension {
   
   /**
    * Create instructions to create a new token group member
-   * @param connection - Connection to Solana cluster
+   *
+   * The member mint points to itself with GroupMemberPointer and holds the TokenGroupMember data.
+   *
    * @param payer - Public key of the fee payer
-   * @param mintAuthority - Mint authority
-   * @param memberAuthority - Member authority
+   * @param mintAuthority - Mint authority of the member, must sign
+   * @param groupUpdateAuthority - Update authority of this group, must sign
    * @param decimals - Number of decimals
    * @returns Instructions, signers, and mint address
    */
   async createTokenGroupMemberInstructions(
     payer: PublicKey,
     mintAuthority: PublicKey,
-    memberAuthority: PublicKey,
+    groupUpdateAuthority: PublicKey,
     decimals: number = 6
   ): Promise<{
     instructions: TransactionInstruction[];
@@ -523,45 +457,42 @@ export class TokenGroupExtension {
     const mintKeypair = Keypair.generate();
     const memberMint = mintKeypair.publicKey;
     
-    // Calculate the space needed for the mint with TokenGroupMember extension
-    const mintLen = getMintLen([TokenGroupMemberExtensionType as unknown as ExtensionType]);
-    const lamports = await this.connection.getMinimumBalanceForRentExemption(mintLen);
-    
-    // Create instructions array
-    const instructions: TransactionInstruction[] = [];
+    // InitializeMint expects only the pointer, InitializeMember reallocates for the member
+    const mintLen = calculateMintLen([MemberPointerExtensionType]);
+    const lamports = await this.connection.getMinimumBalanceForRentExemption(
+      calculateMintLen([MemberPointerExtensionType, TokenGroupMemberExtensionType])
+    );
     
-    // Add instruction to create account
-    instructions.push(
+    const instructions: TransactionInstruction[] = [
       SystemProgram.createAccount({
         fromPubkey: payer,
         newAccountPubkey: memberMint,
         space: mintLen,
         lamports,
         programId: TOKEN_2022_PROGRAM_ID,
-      })
-    );
-    
-    // Add instruction to initialize token group member
-    instructions.push(
-      createInitializeTokenGroupMemberInstruction(
+      }),
+      createInitializeMemberPointerInstruction(
+        memberMint,
+        mintAuthority,
         memberMint,
-        this.mint,
-        payer,
-        memberAuthority,
         TOKEN_2022_PROGRAM_ID
-      )
-    );
-    
-    // Add instruction to initialize mint
-    instructions.push(
+      ),
       createInitializeMintInstruction(
         memberMint,
         decimals,
         mintAuthority,
         null, // freeze authority
         TOKEN_2022_PROGRAM_ID
-      )
-    );
+      ),
+      createInitializeTokenGroupMemberInstruction(
+        memberMint,
+        memberMint,
+        mintAuthority,
+        this.mint,
+        groupUpdateAuthority,
+        TOKEN_2022_PROGRAM_ID
+      ),
+    ];
     
     return {
       instructions,
@@ -571,56 +502,192 @@ export class TokenGroupExtension {
   }
   
   /**
-   * Create instruction to update token group information
+   * Create instruction to change the maximum size of this group
    * @param updateAuthority - Public key of the update authority
-   * @param name - New group name
-   * @param symbol - New group symbol
-   * @returns Instruction to update token group
+   * @param maxSize - New maximum number of members
+   * @returns Instruction to update the group max size
    */
-  createUpdateTokenGroupInstruction(
+  createUpdateGroupMaxSizeInstruction(
     updateAuthority: PublicKey,
-    name: string,
-    symbol: string
+    maxSize: number | bigint
   ): TransactionInstruction {
-    return createUpdateTokenGroupInstruction(
+    return createUpdateGroupMaxSizeInstruction(
       this.mint,
       updateAuthority,
-      name,
-      symbol,
+      maxSize,
       TOKEN_2022_PROGRAM_ID
     );
   }
   
   /**
-   * Create instruction to update a member's status
-   * @param memberMint - Public key of the member mint
-   * @param memberAuthority - Public key of the member authority
-   * @param status - New status for the member
-   * @returns Instruction to update member status
+   * Create instruction to change the update authority of this group
+   * @param currentAuthority - Public key of the current update authority
+   * @param newAuthority - New update authority, null to make the group immutable
+   * @returns Instruction to update the group authority
    */
-  createUpdateMemberStatusInstruction(
-    memberMint: PublicKey,
-    memberAuthority: PublicKey,
-    status: TokenGroupMemberStatus
+  createUpdateGroupAuthorityInstruction(
+    currentAuthority: PublicKey,
+    newAuthority: PublicKey | null
   ): TransactionInstruction {
-    return createUpdateTokenGroupMemberInstruction(
-      memberMint,
-      memberAuthority,
-      status,
+    return createUpdateGroupAuthorityInstruction(
+      this.mint,
+      currentAuthority,
+      newAuthority,
       TOKEN_2022_PROGRAM_ID
     );
   }
   
   /**
-   * List all members of this token group
-   * @returns Promise resolving to array of member mints
+   * Find the addresses of the mints whose TokenGroupMember points at this group
+   *
+   * By default, mints are matched on the group field at the offsets given by the layouts:
+   * GroupMemberPointer alone, or MetadataPointer then GroupMemberPointer. A member storing
+   * other extensions before TokenGroupMember (a transfer fee, a close authority, metadata
+   * written before the member...) is missed. Pass its layout, or use exhaustive to decode
+   * every Token-2022 mint client-side.
+   *
+   * @param layouts - Extensions stored before TokenGroupMember in the member mints
+   * @param exhaustive - Decode every Token-2022 mint instead of filtering by layout
+   * @returns Promise resolving to member mint addresses, sorted by address
+   */
+  async listMemberAddresses(
+    layouts: ExtensionTypeLike[][] = DEFAULT_MEMBER_LAYOUTS,
+    exhaustive = false
+  ): Promise<PublicKey[]> {
+    if (exhaustive) {
+      return this.scanMemberAddresses();
+    }
+
+    try {
+      const offsets = [...new Set(layouts.map(getMemberGroupOffset))];
+      const addresses = new Map<string, PublicKey>();
+      
+      for (const offset of offsets) {
+        // Only the addresses are fetched here, data is loaded page by page
+        const accounts = await this.connection.getProgramAccounts(TOKEN_2022_PROGRAM_ID, {
+          commitment: 'confirmed',
+          dataSlice: { offset: 0, length: 0 },
+          filters: [
+            {
+              memcmp: {
+                offset: ACCOUNT_TYPE_OFFSET,
+                bytes: bs58.encode([MINT_ACCOUNT_TYPE]),
+              },
+            },
+            {
+              memcmp: {
+                offset,
+                bytes: this.mint.toBase58(),
+              },
+            },
+          ],
+        });
+        
+        for (const { pubkey } of accounts) {
+          addresses.set(pubkey.toBase58(), pubkey);
+        }
+      }
+      
+      return [...addresses.keys()].sort().map((key) => addresses.get(key)!);
+    } catch (error: any) {
+      throw new Error(`Could not list token group members: ${error.message}`);
+    }
+  }
+
+  private async scanMemberAddresses(): Promise<PublicKey[]> {
+    try {
+      const accounts = await this.connection.getProgramAccounts(TOKEN_2022_PROGRAM_ID, {
+        commitment: 'confirmed',
+        filters: [
+          {
+            memcmp: {
+              offset: ACCOUNT_TYPE_OFFSET,
+              bytes: bs58.encode([MINT_ACCOUNT_TYPE]),
+            },
+          },
+        ],
+      });
+
+      const addresses = new Map<string, PublicKey>();
+      for (const { pubkey, account } of accounts) {
+        let extensions;
+        try {
+          extensions = decodeMintExtensions(unpackMint(pubkey, account, TOKEN_2022_PROGRAM_ID));
+        } catch {
+          // Not a mint: a multisig can carry the mint account type byte in a signer key
+          continue;
+        }
+        if (getExtensionState(extensions, TokenGroupMemberExtensionType)?.group.equals(this.mint)) {
+          addresses.set(pubkey.toBase58(), pubkey);
+        }
+      }
+
+      // Same order as the memcmp lookup
+      return [...addresses.keys()].sort().map((key) => addresses.get(key)!);
+    } catch (error: any) {
+      throw new Error(`Could not list token group members: ${error.message}`);
+    }
+  }
+  
+  /**
+   * Stream the members of this token group page by page
+   *
+   * Every candidate mint is decoded and only kept if its TokenGroupMember names this group.
+   * Candidates come from listMemberAddresses: without exhaustive, only members with one of the
+   * layouts are found.
+   *
+   * @param options - Page size, member layouts and exhaustive scan
+   * @returns Async iterator over pages of members
    */
-  async listMembers(): Promise<PublicKey[]> {
-    // This is a simplified implementation that would need to be enhanced
-    // with a proper query mechanism to find all members efficiently
-    // In a real implementation, you would use an indexer or RPC method to find all members
+  async *streamMembers(options: ListMembersOptions = {}): AsyncGenerator<TokenGroupMemberInfo[]> {
+    const pageSize = Math.min(options.pageSize ?? MAX_PAGE_SIZE, MAX_PAGE_SIZE);
+    if (pageSize < 1) {
+      throw new Error('Page size must be at least 1');
+    }
+    
+    const addresses = await this.listMemberAddresses(options.layouts, options.exhaustive);
     
-    // For now, return an empty array as this requires specific chain indexing
-    return [];
+    for (let start = 0; start < addresses.length; start += pageSize) {
+      const page = addresses.slice(start, start + pageSize);
+      const infos = await this.connection.getMultipleAccountsInfo(page, 'confirmed');
+      const members: TokenGroupMemberInfo[] = [];
+      
+      infos.forEach((info, index) => {
+        if (!info) {
+          return;
+        }
+        
+        const extensions = decodeMintExtensions(unpackMint(page[index], info, TOKEN_2022_PROGRAM_ID));
+        const member = getExtensionState(extensions, TokenGroupMemberExtensionType);
+        if (!member || !member.group.equals(this.mint)) {
+          return;
+        }
+        
+        members.push({
+          mint: member.mint,
+          memberNumber: member.memberNumber,
+          metadata: getExtensionState(extensions, TokenExtensionType.TokenMetadata),
+        });
+      });
+      
+      yield members;
+    }
+  }
+  
+  /**
+   * List the members of this token group
+   *
+   * Only members with one of the layouts are found, unless exhaustive is set (see listMemberAddresses).
+   *
+   * @param options - Page size, member layouts and exhaustive scan
+   * @returns Promise resolving to members sorted by member number
+   */
+  async listMembers(options: ListMembersOptions = {}): Promise<TokenGroupMemberInfo[]> {
+    const members: TokenGroupMemberInfo[] = [];
+    for await (const page of this.streamMembers(options)) {
+      members.push(...page);
+    }
+    
+    return members.sort((a, b) => (a.memberNumber < b.memberNumber ? -1 : a.memberNumber > b.memberNumber ? 1 : 0));
   }
-} 
\ No newline at end of file
+}
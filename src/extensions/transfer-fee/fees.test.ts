@@ -0,0 +1,98 @@
+import { calculateFee } from "@solana/spl-token";
+import { TransferFeeConfigState, TransferFeeState } from "../../utils/extension-decoder";
+import {
+  calculateEpochInverseFee,
+  calculateEpochPreFeeAmount,
+  calculateEpochTransferFee,
+  calculatePreFeeAmount,
+  getEpochTransferFee,
+} from "./fees";
+
+const olderTransferFee: TransferFeeState = {
+  epoch: BigInt(100),
+  maximumFee: BigInt(1000),
+  transferFeeBasisPoints: 100,
+};
+
+const newerTransferFee: TransferFeeState = {
+  epoch: BigInt(105),
+  maximumFee: BigInt(50),
+  transferFeeBasisPoints: 250,
+};
+
+const config: TransferFeeConfigState = {
+  transferFeeConfigAuthority: null,
+  withdrawWithheldAuthority: null,
+  withheldAmount: BigInt(0),
+  olderTransferFee,
+  newerTransferFee,
+};
+
+describe("getEpochTransferFee", () => {
+  it("uses the older schedule before the newer epoch", () => {
+    expect(getEpochTransferFee(config, BigInt(104))).toBe(olderTransferFee);
+  });
+
+  it("uses the newer schedule from its epoch on", () => {
+    expect(getEpochTransferFee(config, BigInt(105))).toBe(newerTransferFee);
+    expect(getEpochTransferFee(config, BigInt(200))).toBe(newerTransferFee);
+  });
+});
+
+describe("calculateEpochTransferFee", () => {
+  it("rounds the fee up", () => {
+    // 1% of 101 is 1.01
+    expect(calculateEpochTransferFee(config, BigInt(104), BigInt(101))).toBe(BigInt(2));
+    expect(calculateEpochTransferFee(config, BigInt(104), BigInt(100))).toBe(BigInt(1));
+  });
+
+  it("caps the fee at the maximum of the schedule in force", () => {
+    expect(calculateEpochTransferFee(config, BigInt(104), BigInt(1_000_000))).toBe(BigInt(1000));
+    expect(calculateEpochTransferFee(config, BigInt(105), BigInt(1_000_000))).toBe(BigInt(50));
+  });
+
+  it("charges nothing on a zero amount", () => {
+    expect(calculateEpochTransferFee(config, BigInt(105), BigInt(0))).toBe(BigInt(0));
+  });
+});
+
+describe("calculatePreFeeAmount", () => {
+  it("leaves the amount unchanged without a fee", () => {
+    const fee = { ...olderTransferFee, transferFeeBasisPoints: 0 };
+    expect(calculatePreFeeAmount(fee, BigInt(500))).toBe(BigInt(500));
+  });
+
+  it("grosses up so the recipient receives the requested amount", () => {
+    for (const postFeeAmount of [1, 99, 100, 101, 12345, 99999, 100001].map(BigInt)) {
+      const preFeeAmount = calculatePreFeeAmount(olderTransferFee, postFeeAmount);
+      expect(preFeeAmount - calculateFee(olderTransferFee, preFeeAmount)).toBe(postFeeAmount);
+    }
+  });
+
+  it("adds the maximum fee once the cap is reached", () => {
+    expect(calculatePreFeeAmount(olderTransferFee, BigInt(10_000_000))).toBe(BigInt(10_001_000));
+  });
+
+  it("adds the maximum fee at 100%", () => {
+    const fee = { ...olderTransferFee, transferFeeBasisPoints: 10000 };
+    expect(calculatePreFeeAmount(fee, BigInt(500))).toBe(BigInt(1500));
+  });
+
+  it("throws when the amount with fee exceeds u64", () => {
+    expect(() => calculatePreFeeAmount(olderTransferFee, BigInt("18446744073709551615"))).toThrow("exceeds u64");
+  });
+});
+
+describe("calculateEpochPreFeeAmount", () => {
+  it("grosses up with the schedule in force", () => {
+    expect(calculateEpochPreFeeAmount(config, BigInt(104), BigInt(99))).toBe(BigInt(100));
+    expect(calculateEpochPreFeeAmount(config, BigInt(105), BigInt(10_000_000))).toBe(BigInt(10_000_050));
+  });
+});
+
+describe("calculateEpochInverseFee", () => {
+  it("returns the fee withheld on the grossed-up amount", () => {
+    expect(calculateEpochInverseFee(config, BigInt(104), BigInt(99))).toBe(BigInt(1));
+    expect(calculateEpochInverseFee(config, BigInt(105), BigInt(10_000_000))).toBe(BigInt(50));
+  });
+});
@@ -0,0 +1,95 @@
+import { calculateFee } from "@solana/spl-token";
+import { TransferFeeConfigState, TransferFeeState } from "../../utils/extension-decoder";
+
+/**
+ * Basis points of a 100% fee
+ */
+export const MAX_FEE_BASIS_POINTS = 10000;
+
+const ONE_IN_BASIS_POINTS = BigInt(MAX_FEE_BASIS_POINTS);
+const U64_MAX = BigInt("18446744073709551615");
+
+/**
+ * Get the fee schedule in force at an epoch
+ *
+ * Token-2022 keeps two schedules: the newer one applies from its epoch on, the older one before.
+ *
+ * @param config - TransferFeeConfig state of the mint
+ * @param epoch - Epoch of the transfer
+ * @returns Fee schedule
+ */
+export function getEpochTransferFee(config: TransferFeeConfigState, epoch: bigint): TransferFeeState {
+  return epoch >= config.newerTransferFee.epoch ? config.newerTransferFee : config.olderTransferFee;
+}
+
+/**
+ * Calculate the fee withheld on a transfer, rounded up like the token program
+ * @param config - TransferFeeConfig state of the mint
+ * @param epoch - Epoch of the transfer
+ * @param amount - Amount sent, fee included
+ * @returns Fee amount
+ */
+export function calculateEpochTransferFee(config: TransferFeeConfigState, epoch: bigint, amount: bigint): bigint {
+  return calculateFee(getEpochTransferFee(config, epoch), amount);
+}
+
+/**
+ * Calculate the amount to send so the recipient receives a given amount
+ * @param fee - Fee schedule
+ * @param postFeeAmount - Amount the recipient should receive
+ * @returns Amount to send, fee included
+ */
+export function calculatePreFeeAmount(fee: TransferFeeState, postFeeAmount: bigint): bigint {
+  const basisPoints = BigInt(fee.transferFeeBasisPoints);
+  let preFeeAmount: bigint;
+
+  if (basisPoints === BigInt(0) || postFeeAmount === BigInt(0)) {
+    preFeeAmount = postFeeAmount;
+  } else if (basisPoints === ONE_IN_BASIS_POINTS) {
+    preFeeAmount = postFeeAmount + fee.maximumFee;
+  } else {
+    // Same steps as the program: ceil(post * 10000 / (10000 - bps)), unless the maximum fee applies
+    const numerator = postFeeAmount * ONE_IN_BASIS_POINTS;
+    const denominator = ONE_IN_BASIS_POINTS - basisPoints;
+    const rawPreFeeAmount = (numerator + denominator - BigInt(1)) / denominator;
+    preFeeAmount = rawPreFeeAmount - postFeeAmount >= fee.maximumFee
+      ? postFeeAmount + fee.maximumFee
+      : rawPreFeeAmount;
+  }
+
+  if (preFeeAmount > U64_MAX) {
+    throw new Error(`Amount with fee exceeds u64: ${preFeeAmount}`);
+  }
+  return preFeeAmount;
+}
+
+/**
+ * Calculate the amount to send at an epoch so the recipient receives a given amount
+ * @param config - TransferFeeConfig state of the mint
+ * @param epoch - Epoch of the transfer
+ * @param postFeeAmount - Amount the recipient should receive
+ * @returns Amount to send, fee included
+ */
+export function calculateEpochPreFeeAmount(
+  config: TransferFeeConfigState,
+  epoch: bigint,
+  postFeeAmount: bigint
+): bigint {
+  return calculatePreFeeAmount(getEpochTransferFee(config, epoch), postFeeAmount);
+}
+
+/**
+ * Calculate the fee withheld when sending enough for the recipient to receive a given amount
+ * @param config - TransferFeeConfig state of the mint
+ * @param epoch - Epoch of the transfer
+ * @param postFeeAmount - Amount the recipient should receive
+ * @returns Fee amount
+ */
+export function calculateEpochInverseFee(
+  config: TransferFeeConfigState,
+  epoch: bigint,
+  postFeeAmount: bigint
+): bigint {
+  const fee = getEpochTransferFee(config, epoch);
+  return calculateFee(fee, calculatePreFeeAmount(fee, postFeeAmount));
+}
@@ -0,0 +1,95 @@
+import { Connection, Keypair, PACKET_DATA_SIZE, PublicKey, Transaction } from "@solana/web3.js";
+import { FeeBatch, WithheldFeeAccount, createHarvestBatches, createWithdrawBatches, sendFeeBatches } from "./harvest";
+
+const payer = Keypair.generate();
+const mint = Keypair.generate().publicKey;
+
+function withheldAccounts(count: number): WithheldFeeAccount[] {
+  return Array.from({ length: count }, (_, index) => ({
+    address: Keypair.generate().publicKey,
+    withheldAmount: BigInt(index + 1),
+  }));
+}
+
+function transactionSize(batch: FeeBatch): number {
+  const transaction = new Transaction({
+    feePayer: payer.publicKey,
+    blockhash: PublicKey.default.toBase58(),
+    lastValidBlockHeight: 0,
+  }).add(...batch.instructions);
+  return transaction.serialize({ requireAllSignatures: false, verifySignatures: false }).length;
+}
+
+describe("createHarvestBatches", () => {
+  it("splits accounts at the batch limit and sums their withheld fees", () => {
+    const accounts = withheldAccounts(7);
+    const batches = createHarvestBatches(payer.publicKey, mint, accounts, 3);
+
+    expect(batches.map((batch) => batch.accounts.length)).toEqual([3, 3, 1]);
+    expect(batches.map((batch) => batch.withheldAmount)).toEqual([BigInt(6), BigInt(15), BigInt(7)]);
+    expect(batches.flatMap((batch) => batch.accounts)).toEqual(accounts.map((account) => account.address));
+  });
+
+  it("keeps every batch within the transaction size limit", () => {
+    const accounts = withheldAccounts(100);
+    const batches = createHarvestBatches(payer.publicKey, mint, accounts);
+
+    expect(batches.length).toBeGreaterThan(1);
+    for (const batch of batches) {
+      expect(transactionSize(batch)).toBeLessThanOrEqual(PACKET_DATA_SIZE);
+    }
+    // Each batch but the last is as large as the limit allows
+    const [first, second] = batches;
+    const oneMore = createHarvestBatches(payer.publicKey, mint, accounts.slice(0, first.accounts.length + 1), 64);
+    expect(oneMore).toHaveLength(2);
+    expect(second.accounts[0].equals(accounts[first.accounts.length].address)).toBe(true);
+  });
+
+  it("returns no batches without accounts", () => {
+    expect(createHarvestBatches(payer.publicKey, mint, [])).toEqual([]);
+  });
+});
+
+describe("createWithdrawBatches", () => {
+  it("leaves room for the multisig signers", () => {
+    const accounts = withheldAccounts(100);
+    const authority = Keypair.generate().publicKey;
+    const destination = Keypair.generate().publicKey;
+    const members = [Keypair.generate(), Keypair.generate()];
+
+    const single = createWithdrawBatches(payer.publicKey, mint, destination, authority, accounts);
+    const multisig = createWithdrawBatches(payer.publicKey, mint, destination, authority, accounts, members);
+
+    expect(multisig[0].accounts.length).toBeLessThan(single[0].accounts.length);
+    for (const batch of multisig) {
+      expect(transactionSize(batch)).toBeLessThanOrEqual(PACKET_DATA_SIZE);
+    }
+  });
+});
+
+describe("sendFeeBatches", () => {
+  it("keeps sending after a failed batch and reports the accounts to retry", async () => {
+    const batches = createHarvestBatches(payer.publicKey, mint, withheldAccounts(5), 2);
+    let sent = 0;
+    const connection = {
+      sendTransaction: async () => {
+        sent += 1;
+        if (sent === 2) {
+          throw new Error("Blockhash not found");
+        }
+        return `signature-${sent}`;
+      },
+      confirmTransaction: async () => ({ value: { err: null } }),
+    } as unknown as Connection;
+
+    const report = await sendFeeBatches(connection, batches, [payer]);
+
+    expect(report.batches.map((batch) => batch.signature)).toEqual(["signature-1", null, "signature-3"]);
+    expect(report.batches[1].error).toBe("Blockhash not found");
+    expect(report.succeededBatches).toBe(2);
+    expect(report.failedBatches).toBe(1);
+    // Batches hold withheld amounts 1+2, 3+4 and 5
+    expect(report.collectedAmount).toBe(BigInt(8));
+    expect(report.failedAccounts).toEqual(batches[1].accounts);
+  });
+});
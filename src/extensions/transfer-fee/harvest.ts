@@ -0,0 +1,310 @@
+import {
+  Commitment,
+  Connection,
+  GetProgramAccountsFilter,
+  PACKET_DATA_SIZE,
+  PublicKey,
+  Signer,
+  Transaction,
+  TransactionInstruction,
+  sendAndConfirmTransaction,
+} from "@solana/web3.js";
+import {
+  TOKEN_2022_PROGRAM_ID,
+  createHarvestWithheldTokensToMintInstruction,
+  createWithdrawWithheldTokensFromAccountsInstruction,
+} from "@solana/spl-token";
+import bs58 from "bs58";
+import { decodeExtensions, getExtensionState } from "../../utils/extension-decoder";
+import { TokenExtensionType } from "../../utils/extension-registry";
+
+const ACCOUNT_TYPE_OFFSET = 165;
+const TOKEN_ACCOUNT_TYPE = 2;
+const TLV_OFFSET = 166;
+const MAX_ACCOUNTS_PER_REQUEST = 100;
+
+/**
+ * Token account holding withheld transfer fees
+ */
+export interface WithheldFeeAccount {
+  address: PublicKey;
+  withheldAmount: bigint;
+}
+
+/**
+ * Options for scanning token accounts for withheld fees
+ */
+export interface FindWithheldFeeAccountsOptions {
+  /** Only scan accounts of these sizes; all token accounts of the mint are scanned by default */
+  dataSizes?: number[];
+  /** Smallest withheld amount worth collecting, defaults to 1 */
+  minimumWithheld?: bigint;
+  commitment?: Commitment;
+}
+
+/**
+ * One transaction worth of fee collection
+ */
+export interface FeeBatch {
+  instructions: TransactionInstruction[];
+  accounts: PublicKey[];
+  withheldAmount: bigint;
+}
+
+/**
+ * Outcome of sending one fee batch
+ */
+export interface FeeBatchResult {
+  accounts: PublicKey[];
+  withheldAmount: bigint;
+  signature: string | null;
+  error: string | null;
+}
+
+/**
+ * Outcome of a harvest or withdrawal run
+ */
+export interface FeeCollectionReport {
+  batches: FeeBatchResult[];
+  succeededBatches: number;
+  failedBatches: number;
+  /** Withheld amount moved by the successful batches */
+  collectedAmount: bigint;
+  /** Accounts of the failed batches, to retry */
+  failedAccounts: PublicKey[];
+}
+
+/**
+ * Read the withheld fee amount from raw token account data
+ * @param data - Token account data
+ * @returns Withheld amount, null if the account has no TransferFeeAmount extension
+ */
+export function decodeWithheldAmount(data: Buffer): bigint | null {
+  if (data.length <= TLV_OFFSET || data[ACCOUNT_TYPE_OFFSET] !== TOKEN_ACCOUNT_TYPE) {
+    return null;
+  }
+  const state = getExtensionState(decodeExtensions(data.subarray(TLV_OFFSET)), TokenExtensionType.TransferFeeAmount);
+  return state ? state.withheldAmount : null;
+}
+
+/**
+ * Find the token accounts of a mint holding withheld fees
+ *
+ * Withheld amounts are decoded from the getProgramAccounts response itself,
+ * so the scan costs one RPC call per data size.
+ *
+ * @param connection - Connection to Solana cluster
+ * @param mint - Mint address
+ * @param options - Size filters, minimum amount and commitment
+ * @returns Accounts with their withheld amounts
+ */
+export async function findWithheldFeeAccounts(
+  connection: Connection,
+  mint: PublicKey,
+  options: FindWithheldFeeAccountsOptions = {}
+): Promise<WithheldFeeAccount[]> {
+  const minimumWithheld = options.minimumWithheld ?? BigInt(1);
+  const baseFilters: GetProgramAccountsFilter[] = [
+    { memcmp: { offset: 0, bytes: mint.toBase58() } },
+    { memcmp: { offset: ACCOUNT_TYPE_OFFSET, bytes: bs58.encode([TOKEN_ACCOUNT_TYPE]) } },
+  ];
+  const filterSets = options.dataSizes
+    ? options.dataSizes.map((dataSize): GetProgramAccountsFilter[] => [{ dataSize }, ...baseFilters])
+    : [baseFilters];
+
+  const found: WithheldFeeAccount[] = [];
+  for (const filters of filterSets) {
+    const accounts = await connection.getProgramAccounts(TOKEN_2022_PROGRAM_ID, {
+      commitment: options.commitment ?? "confirmed",
+      filters,
+    });
+
+    for (const { pubkey, account } of accounts) {
+      const withheldAmount = decodeWithheldAmount(account.data);
+      if (withheldAmount !== null && withheldAmount >= minimumWithheld) {
+        found.push({ address: pubkey, withheldAmount });
+      }
+    }
+  }
+  return found;
+}
+
+/**
+ * Sum the withheld fees of token accounts
+ *
+ * Accounts are fetched in pages of 100; closed accounts count as zero.
+ *
+ * @param connection - Connection to Solana cluster
+ * @param mint - Mint the accounts must belong to
+ * @param accounts - Token account addresses
+ * @param commitment - Commitment level
+ * @returns Total withheld amount
+ */
+export async function getTotalWithheldAmount(
+  connection: Connection,
+  mint: PublicKey,
+  accounts: PublicKey[],
+  commitment: Commitment = "confirmed"
+): Promise<bigint> {
+  let total = BigInt(0);
+  for (let start = 0; start < accounts.length; start += MAX_ACCOUNTS_PER_REQUEST) {
+    const page = accounts.slice(start, start + MAX_ACCOUNTS_PER_REQUEST);
+    const infos = await connection.getMultipleAccountsInfo(page, commitment);
+
+    infos.forEach((info, index) => {
+      if (!info) {
+        return;
+      }
+      if (!info.owner.equals(TOKEN_2022_PROGRAM_ID) || !info.data.subarray(0, 32).equals(mint.toBuffer())) {
+        throw new Error(`${page[index].toBase58()} is not a token account of this mint`);
+      }
+      total += decodeWithheldAmount(info.data) ?? BigInt(0);
+    });
+  }
+  return total;
+}
+
+function getTransactionSize(instructions: TransactionInstruction[], feePayer: PublicKey): number {
+  // Any blockhash will do, only the size is measured
+  const message = new Transaction({
+    feePayer,
+    blockhash: PublicKey.default.toBase58(),
+    lastValidBlockHeight: 0,
+  }).add(...instructions).compileMessage();
+  const signatureCount = message.header.numRequiredSignatures;
+  return 1 + signatureCount * 64 + message.serialize().length;
+}
+
+function splitIntoBatches(
+  accounts: WithheldFeeAccount[],
+  feePayer: PublicKey,
+  maxAccountsPerBatch: number,
+  createInstruction: (sources: PublicKey[]) => TransactionInstruction
+): FeeBatch[] {
+  const batches: FeeBatch[] = [];
+  let start = 0;
+
+  while (start < accounts.length) {
+    // Largest batch that still fits in one transaction
+    let low = 1;
+    let high = Math.min(maxAccountsPerBatch, accounts.length - start);
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      const sources = accounts.slice(start, start + middle).map((account) => account.address);
+      if (getTransactionSize([createInstruction(sources)], feePayer) <= PACKET_DATA_SIZE) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+
+    const batch = accounts.slice(start, start + low);
+    const sources = batch.map((account) => account.address);
+    batches.push({
+      instructions: [createInstruction(sources)],
+      accounts: sources,
+      withheldAmount: batch.reduce((sum, account) => sum + account.withheldAmount, BigInt(0)),
+    });
+    start += low;
+  }
+
+  return batches;
+}
+
+/**
+ * Split accounts into HarvestWithheldTokensToMint transactions
+ *
+ * Harvesting is permissionless: only the fee payer signs.
+ *
+ * @param feePayer - Fee payer of the transactions
+ * @param mint - Mint address
+ * @param accounts - Accounts to harvest
+ * @param maxAccountsPerBatch - Upper bound on accounts per transaction
+ * @returns Batches sized to fit in a transaction
+ */
+export function createHarvestBatches(
+  feePayer: PublicKey,
+  mint: PublicKey,
+  accounts: WithheldFeeAccount[],
+  maxAccountsPerBatch = 64
+): FeeBatch[] {
+  return splitIntoBatches(accounts, feePayer, maxAccountsPerBatch, (sources) =>
+    createHarvestWithheldTokensToMintInstruction(mint, sources, TOKEN_2022_PROGRAM_ID)
+  );
+}
+
+/**
+ * Split accounts into WithdrawWithheldTokensFromAccounts transactions
+ * @param feePayer - Fee payer of the transactions
+ * @param mint - Mint address
+ * @param destination - Token account receiving the fees
+ * @param authority - Withdraw withheld authority
+ * @param accounts - Accounts to withdraw from
+ * @param multiSigners - Signers if the authority is a multisig
+ * @param maxAccountsPerBatch - Upper bound on accounts per transaction
+ * @returns Batches sized to fit in a transaction
+ */
+export function createWithdrawBatches(
+  feePayer: PublicKey,
+  mint: PublicKey,
+  destination: PublicKey,
+  authority: PublicKey,
+  accounts: WithheldFeeAccount[],
+  multiSigners: (Signer | PublicKey)[] = [],
+  maxAccountsPerBatch = 64
+): FeeBatch[] {
+  return splitIntoBatches(accounts, feePayer, maxAccountsPerBatch, (sources) =>
+    createWithdrawWithheldTokensFromAccountsInstruction(
+      mint,
+      destination,
+      authority,
+      multiSigners,
+      sources,
+      TOKEN_2022_PROGRAM_ID
+    )
+  );
+}
+
+/**
+ * Send fee batches one after another
+ *
+ * A failed batch is recorded and the run continues with the next one.
+ *
+ * @param connection - Connection to Solana cluster
+ * @param batches - Batches to send
+ * @param signers - Signers of every batch, fee payer first
+ * @param commitment - Commitment level to confirm with
+ * @returns Per-batch results and totals
+ */
+export async function sendFeeBatches(
+  connection: Connection,
+  batches: FeeBatch[],
+  signers: Signer[],
+  commitment: Commitment = "confirmed"
+): Promise<FeeCollectionReport> {
+  const results: FeeBatchResult[] = [];
+
+  for (const batch of batches) {
+    try {
+      const signature = await sendAndConfirmTransaction(
+        connection,
+        new Transaction().add(...batch.instructions),
+        signers,
+        { commitment }
+      );
+      results.push({ accounts: batch.accounts, withheldAmount: batch.withheldAmount, signature, error: null });
+    } catch (error: any) {
+      results.push({ accounts: batch.accounts, withheldAmount: batch.withheldAmount, signature: null, error: error.message });
+    }
+  }
+
+  const succeeded = results.filter((result) => result.signature !== null);
+  const failed = results.filter((result) => result.signature === null);
+  return {
+    batches: results,
+    succeededBatches: succeeded.length,
+    failedBatches: failed.length,
+    collectedAmount: succeeded.reduce((sum, result) => sum + result.withheldAmount, BigInt(0)),
+    failedAccounts: failed.flatMap((result) => result.accounts),
+  };
+}
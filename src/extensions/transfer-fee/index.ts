@@ -1,7 +1,9 @@
 import {
+  Commitment,
   Connection,
   Keypair,
   PublicKey,
+  Signer,
   Transaction,
   SystemProgram,
   TransactionInstruction,
@@ -21,9 +23,34 @@ import {
   createMintToInstruction,
   getAccount,
   getTransferFeeAmount,
+  getMint,
+  calculateFee,
+  TokenInstruction,
+  TransferFeeInstruction,
 } from "@solana/spl-token";
 import { Token } from "../../core/token";
 import { TransferFeeConfig } from "../../types";
+import { TransferFeeConfigState, decodeMintExtensions, getExtensionState } from "../../utils/extension-decoder";
+import { TokenExtensionType } from "../../utils/extension-registry";
+import { getAuthorityKeys } from "../../utils/multisig";
+import {
+  MAX_FEE_BASIS_POINTS,
+  calculateEpochPreFeeAmount,
+  calculateEpochTransferFee,
+} from "./fees";
+import {
+  FeeCollectionReport,
+  FindWithheldFeeAccountsOptions,
+  WithheldFeeAccount,
+  createHarvestBatches,
+  createWithdrawBatches,
+  findWithheldFeeAccounts,
+  getTotalWithheldAmount,
+  sendFeeBatches,
+} from "./harvest";
+
+export * from "./fees";
+export * from "./harvest";
 
 /**
  * TransferFeeToken - Extension for Token with transfer fee functionality
@@ -123,33 +150,197 @@ export class TransferFeeToken extends Token {
   /**
    * Calculate transfer fee based on token amount and fee configuration
    * 
+   * @deprecated Uses the constructor configuration, which may not match the chain; use calculateEpochFee
    * @param amount - Token amount to transfer
    * @returns Calculated fee amount
    */
   calculateFee(amount: bigint): bigint {
-    const fee = (amount * BigInt(this.config.feeBasisPoints)) / BigInt(10000);
-    return fee > this.config.maxFee ? this.config.maxFee : fee;
+    return calculateFee(
+      {
+        epoch: BigInt(0),
+        maximumFee: this.config.maxFee,
+        transferFeeBasisPoints: this.config.feeBasisPoints,
+      },
+      amount
+    );
+  }
+
+  /**
+   * Create instruction to change the transfer fee of a mint
+   * 
+   * The new fee becomes the newer schedule and takes effect two epochs later,
+   * so transfers already quoted keep their fee.
+   * 
+   * @param mint - Mint address
+   * @param authority - Transfer fee config authority
+   * @param feeBasisPoints - New fee rate in basis points
+   * @param maxFee - New maximum fee
+   * @param multiSigners - Signers if the authority is a multisig
+   * @param programId - Token Extension Program ID
+   * @returns SetTransferFee instruction
+   */
+  static createSetTransferFeeInstruction(
+    mint: PublicKey,
+    authority: PublicKey,
+    feeBasisPoints: number,
+    maxFee: bigint,
+    multiSigners: (Signer | PublicKey)[] = [],
+    programId = TOKEN_2022_PROGRAM_ID
+  ): TransactionInstruction {
+    if (!Number.isInteger(feeBasisPoints) || feeBasisPoints < 0 || feeBasisPoints > MAX_FEE_BASIS_POINTS) {
+      throw new Error("Fee rate must be between 0 and 10000 basis points (0-100%)");
+    }
+
+    if (maxFee < BigInt(0)) {
+      throw new Error("Maximum fee cannot be negative");
+    }
+
+    const data = Buffer.alloc(12);
+    data.writeUInt8(TokenInstruction.TransferFeeExtension, 0);
+    data.writeUInt8(TransferFeeInstruction.SetTransferFee, 1);
+    data.writeUInt16LE(feeBasisPoints, 2);
+    data.writeBigUInt64LE(maxFee, 4);
+
+    return new TransactionInstruction({
+      programId,
+      keys: [{ pubkey: mint, isSigner: false, isWritable: true }, ...getAuthorityKeys(authority, multiSigners)],
+      data,
+    });
+  }
+
+  /**
+   * Read the TransferFeeConfig of a mint
+   * 
+   * @param connection - Connection to Solana cluster
+   * @param mint - Mint address
+   * @param commitment - Commitment level
+   * @returns Both fee schedules, authorities and the amount withheld on the mint, null without the extension
+   */
+  static async getTransferFeeConfigState(
+    connection: Connection,
+    mint: PublicKey,
+    commitment: Commitment = "confirmed"
+  ): Promise<TransferFeeConfigState | null> {
+    try {
+      const mintInfo = await getMint(connection, mint, commitment, TOKEN_2022_PROGRAM_ID);
+      return getExtensionState(decodeMintExtensions(mintInfo), TokenExtensionType.TransferFeeConfig);
+    } catch (error: any) {
+      throw new Error(`Could not get transfer fee config: ${error.message}`);
+    }
+  }
+
+  /**
+   * Read the TransferFeeConfig of this mint from the chain
+   * 
+   * @returns TransferFeeConfig state
+   */
+  async getTransferFeeConfigState(): Promise<TransferFeeConfigState> {
+    const state = await TransferFeeToken.getTransferFeeConfigState(this.connection, this.mint);
+    if (!state) {
+      throw new Error("Mint does not have the TransferFeeConfig extension");
+    }
+    return state;
+  }
+
+  /**
+   * Calculate the fee of a transfer from the on-chain fee schedules
+   * 
+   * @param amount - Amount sent, fee included
+   * @param epoch - Epoch of the transfer, defaults to the current epoch
+   * @returns Fee withheld by the token program
+   */
+  async calculateEpochFee(amount: bigint, epoch?: bigint): Promise<bigint> {
+    const [config, transferEpoch] = await Promise.all([
+      this.getTransferFeeConfigState(),
+      epoch ?? this.getCurrentEpoch(),
+    ]);
+    return calculateEpochTransferFee(config, transferEpoch, amount);
+  }
+
+  /**
+   * Calculate how much to send for the recipient to receive a given amount
+   * 
+   * @param netAmount - Amount the recipient should receive
+   * @param epoch - Epoch of the transfer, defaults to the current epoch
+   * @returns Amount to send and the fee it includes
+   */
+  async calculateGrossAmount(
+    netAmount: bigint,
+    epoch?: bigint
+  ): Promise<{ grossAmount: bigint; fee: bigint }> {
+    const [config, transferEpoch] = await Promise.all([
+      this.getTransferFeeConfigState(),
+      epoch ?? this.getCurrentEpoch(),
+    ]);
+    const grossAmount = calculateEpochPreFeeAmount(config, transferEpoch, netAmount);
+    return {
+      grossAmount,
+      fee: calculateEpochTransferFee(config, transferEpoch, grossAmount),
+    };
+  }
+
+  /**
+   * Create instruction to change the transfer fee of this mint
+   * 
+   * @param authority - Transfer fee config authority
+   * @param feeBasisPoints - New fee rate in basis points
+   * @param maxFee - New maximum fee
+   * @param multiSigners - Signers if the authority is a multisig
+   * @returns SetTransferFee instruction
+   */
+  createSetTransferFeeInstruction(
+    authority: PublicKey,
+    feeBasisPoints: number,
+    maxFee: bigint,
+    multiSigners: (Signer | PublicKey)[] = []
+  ): TransactionInstruction {
+    return TransferFeeToken.createSetTransferFeeInstruction(
+      this.mint,
+      authority,
+      feeBasisPoints,
+      maxFee,
+      multiSigners
+    );
+  }
+
+  private async getCurrentEpoch(): Promise<bigint> {
+    const epochInfo = await this.connection.getEpochInfo("confirmed");
+    return BigInt(epochInfo.epoch);
   }
 
   /**
    * Create transfer instruction with automatically calculated fee
    * 
+   * The fee is read from chain state for the current epoch, as Token.createTransferInstructions does,
+   * so a SetTransferFee taking effect is picked up. Transfer hook accounts are appended.
+   * 
    * @param source - Source account address
    * @param destination - Destination account address
    * @param owner - Source account owner
    * @param amount - Token amount to transfer
    * @param decimals - Token decimal places
+   * @param multiSigners - Signers if the owner is a multisig
    * @returns TransactionInstruction
+   * @throws MintPausedError if the mint is paused
    */
-  createTransferInstruction(
+  async createTransferInstruction(
     source: PublicKey,
     destination: PublicKey,
     owner: PublicKey,
     amount: bigint,
-    decimals: number
-  ): TransactionInstruction {
-      const fee = this.calculateFee(amount);
-    return this.createTransferWithFeeInstruction(source, destination, owner, amount, decimals, Number(fee));
+    decimals: number,
+    multiSigners: (Signer | PublicKey)[] = []
+  ): Promise<TransactionInstruction> {
+    const { instruction } = await this.createMintTransferInstruction(
+      source,
+      destination,
+      owner,
+      amount,
+      decimals,
+      false,
+      multiSigners
+    );
+    return instruction;
   }
 
   /**
@@ -161,6 +352,7 @@ export class TransferFeeToken extends Token {
    * @param amount - Token amount to transfer
    * @param decimals - Token decimal places
    * @param fee - Specified fee amount
+   * @param multiSigners - Signers if the owner is a multisig
    * @returns TransactionInstruction
    */
   createTransferWithFeeInstruction(
@@ -169,19 +361,20 @@ export class TransferFeeToken extends Token {
     owner: PublicKey,
     amount: bigint,
     decimals: number,
-    fee: number
+    fee: bigint,
+    multiSigners: (Signer | PublicKey)[] = []
   ): TransactionInstruction {
     return createTransferCheckedWithFeeInstruction(
-          source,
-          this.mint,
-          destination,
+      source,
+      this.mint,
+      destination,
       owner,
-          amount,
-          decimals,
-          BigInt(fee),
-          [],
-          TOKEN_2022_PROGRAM_ID
-      );
+      amount,
+      decimals,
+      fee,
+      multiSigners,
+      TOKEN_2022_PROGRAM_ID
+    );
   }
 
   /**
@@ -210,12 +403,14 @@ export class TransferFeeToken extends Token {
    * @param accounts - List of accounts with withheld fees to withdraw
    * @param destination - Destination account to receive fees
    * @param authority - Withdraw authority public key
+   * @param multiSigners - Signers if the authority is a multisig
    * @returns Transaction instruction
    */
   createWithdrawFeesFromAccountsInstruction(
     accounts: PublicKey[],
     destination: PublicKey,
-    authority: PublicKey
+    authority: PublicKey,
+    multiSigners: (Signer | PublicKey)[] = []
   ): TransactionInstruction {
     if (accounts.length === 0) {
       throw new Error("Account list cannot be empty");
@@ -225,7 +420,7 @@ export class TransferFeeToken extends Token {
           this.mint,
           destination,
       authority,
-          [],
+          multiSigners,
           accounts,
           TOKEN_2022_PROGRAM_ID
     );
@@ -236,17 +431,19 @@ export class TransferFeeToken extends Token {
    * 
    * @param destination - Destination account to receive fees
    * @param authority - Withdraw authority public key
+   * @param multiSigners - Signers if the authority is a multisig
    * @returns Transaction instruction
    */
   createWithdrawFeesFromMintInstruction(
     destination: PublicKey, 
-    authority: PublicKey
+    authority: PublicKey,
+    multiSigners: (Signer | PublicKey)[] = []
   ): TransactionInstruction {
     return createWithdrawWithheldTokensFromMintInstruction(
           this.mint,
           destination,
       authority,
-          [],
+          multiSigners,
           TOKEN_2022_PROGRAM_ID
     );
   }
@@ -258,13 +455,15 @@ export class TransferFeeToken extends Token {
    * @param payer - Transaction fee payer public key
    * @param amount - Token amount to mint
    * @param mintAuthority - Mint authority
+   * @param multiSigners - Signers if the mint authority is a multisig
    * @returns Instructions and token account address
    */
   async createAccountAndMintToInstructions(
     owner: PublicKey,
     payer: PublicKey,
     amount: bigint,
-    mintAuthority: PublicKey
+    mintAuthority: PublicKey,
+    multiSigners: (Signer | PublicKey)[] = []
   ): Promise<{ 
     instructions: TransactionInstruction[]; 
     address: PublicKey;
@@ -298,7 +497,7 @@ export class TransferFeeToken extends Token {
         tokenAccount,
         mintAuthority,
         amount,
-        [],
+        multiSigners,
         TOKEN_2022_PROGRAM_ID
       );
 
@@ -319,40 +518,75 @@ export class TransferFeeToken extends Token {
    * @returns List of public keys for accounts with withheld fees
    */
   async findAccountsWithWithheldFees(): Promise<PublicKey[]> {
-    try {
-      const accounts = await this.connection.getProgramAccounts(TOKEN_2022_PROGRAM_ID, {
-        commitment: "confirmed",
-        filters: [
-          {
-            memcmp: {
-              offset: 0,
-              bytes: this.mint.toString(),
-            },
-          },
-        ],
-      });
-
-      const accountsWithFees: PublicKey[] = [];
-
-      for (const { pubkey } of accounts) {
-        try {
-          const tokenAccount = await getAccount(this.connection, pubkey, "confirmed", TOKEN_2022_PROGRAM_ID);
-          const feeAmount = getTransferFeeAmount(tokenAccount);
-          
-          if (feeAmount !== null && feeAmount.withheldAmount > 0) {
-            accountsWithFees.push(pubkey);
-          }
-        } catch (error) {
-         
-        }
-      }
+    const accounts = await this.getWithheldFeeAccounts();
+    return accounts.map((account) => account.address);
+  }
 
-      return accountsWithFees;
+  /**
+   * Find the token accounts of this mint holding withheld fees, with their amounts
+   * 
+   * @param options - Size filters, minimum amount and commitment
+   * @returns Accounts with their withheld amounts
+   */
+  async getWithheldFeeAccounts(options: FindWithheldFeeAccountsOptions = {}): Promise<WithheldFeeAccount[]> {
+    try {
+      return await findWithheldFeeAccounts(this.connection, this.mint, options);
     } catch (error: any) {
       throw new Error(`Could not find accounts with fees: ${error.message}`);
     }
   }
 
+  /**
+   * Harvest withheld fees from every holder account into the mint
+   * 
+   * Accounts are found in one scan and harvested in transactions sized to fit the packet limit.
+   * Failed batches are reported, not retried.
+   * 
+   * @param payer - Fee payer, the only signer harvesting needs
+   * @param options - Scan options and batch size limit
+   * @returns Per-batch results and totals
+   */
+  async harvestWithheldFees(
+    payer: Signer,
+    options: FindWithheldFeeAccountsOptions & { maxAccountsPerBatch?: number } = {}
+  ): Promise<FeeCollectionReport> {
+    const accounts = await this.getWithheldFeeAccounts(options);
+    const batches = createHarvestBatches(payer.publicKey, this.mint, accounts, options.maxAccountsPerBatch);
+    return sendFeeBatches(this.connection, batches, [payer], options.commitment);
+  }
+
+  /**
+   * Withdraw withheld fees from every holder account straight to a destination
+   * 
+   * @param payer - Fee payer
+   * @param destination - Token account receiving the fees
+   * @param authority - Withdraw withheld authority, or its address with multiSigners
+   * @param options - Scan options, batch size limit and multisig signers
+   * @returns Per-batch results and totals
+   */
+  async withdrawWithheldFees(
+    payer: Signer,
+    destination: PublicKey,
+    authority: Signer | PublicKey,
+    options: FindWithheldFeeAccountsOptions & { maxAccountsPerBatch?: number; multiSigners?: Signer[] } = {}
+  ): Promise<FeeCollectionReport> {
+    const multiSigners = options.multiSigners ?? [];
+    const authorityKey = authority instanceof PublicKey ? authority : authority.publicKey;
+    const signers = [payer, ...(authority instanceof PublicKey ? [] : [authority]), ...multiSigners];
+
+    const accounts = await this.getWithheldFeeAccounts(options);
+    const batches = createWithdrawBatches(
+      payer.publicKey,
+      this.mint,
+      destination,
+      authorityKey,
+      accounts,
+      multiSigners,
+      options.maxAccountsPerBatch
+    );
+    return sendFeeBatches(this.connection, batches, signers, options.commitment);
+  }
+
   /**
    * Get transfer fee configuration
    * 
@@ -406,18 +640,11 @@ export class TransferFeeToken extends Token {
    * @returns Tổng số token đã giữ lại
    */
   async getTotalWithheldAmount(accounts: PublicKey[]): Promise<bigint> {
-    let totalWithheldAmount = BigInt(0);
-
-    for (const account of accounts) {
-      try {
-        const feeInfo = await this.getAccountTransferFeeInfo(account);
-        totalWithheldAmount += feeInfo.withheldAmount;
-      } catch (error) {
-        
-      }
+    try {
+      return await getTotalWithheldAmount(this.connection, this.mint, accounts);
+    } catch (error: any) {
+      throw new Error(`Could not get total withheld amount: ${error.message}`);
     }
-
-    return totalWithheldAmount;
   }
 
   /**
@@ -0,0 +1,140 @@
+import { AccountMeta, Connection, Keypair, PublicKey } from "@solana/web3.js";
+import {
+  EXECUTE_INSTRUCTION_DISCRIMINATOR,
+  createExecuteInstructionData,
+  createExtraAccountMeta,
+  decodeExtraAccountMetaList,
+  encodeExtraAccountMetaList,
+  getExtraAccountMetaListSize,
+  resolveExtraAccountMeta,
+} from "./extra-account-metas";
+
+const hookProgramId = Keypair.generate().publicKey;
+const accounts: AccountMeta[] = Array.from({ length: 5 }, () => ({
+  pubkey: Keypair.generate().publicKey,
+  isSigner: false,
+  isWritable: false,
+}));
+
+// Resolving fixed addresses and seeds from keys or instruction data never reads accounts
+const offline = {} as Connection;
+
+function connectionWithAccount(data: Buffer): Connection {
+  return { getAccountInfo: async () => ({ data }) } as unknown as Connection;
+}
+
+describe("encodeExtraAccountMetaList", () => {
+  it("produces data of the advertised size", () => {
+    const data = encodeExtraAccountMetaList([
+      { address: Keypair.generate().publicKey },
+      { seeds: [{ type: "literal", bytes: Buffer.from("counter") }] },
+    ]);
+    expect(data.length).toBe(getExtraAccountMetaListSize(2));
+    expect(data.subarray(0, 8)).toEqual(EXECUTE_INSTRUCTION_DISCRIMINATOR);
+  });
+
+  it("decodes back to the same metas", () => {
+    const configs = [
+      { address: Keypair.generate().publicKey, isWritable: true },
+      { seeds: [{ type: "accountKey" as const, index: 1 }], programIndex: 5 },
+      { pubkeyData: { type: "instructionData" as const, offset: 8 }, isSigner: true },
+    ];
+    expect(decodeExtraAccountMetaList(encodeExtraAccountMetaList(configs))).toEqual(
+      configs.map(createExtraAccountMeta).map((meta) => ({ ...meta, addressConfig: Buffer.from(meta.addressConfig) }))
+    );
+  });
+
+  it("skips entries for other instructions", () => {
+    const other = Buffer.alloc(16);
+    other.writeUInt32LE(4, 8);
+    const data = Buffer.concat([other, encodeExtraAccountMetaList([{ address: hookProgramId }])]);
+    expect(decodeExtraAccountMetaList(data)).toHaveLength(1);
+  });
+
+  it("rejects data without an Execute entry", () => {
+    expect(() => decodeExtraAccountMetaList(Buffer.alloc(0))).toThrow("no ExtraAccountMetaList");
+  });
+});
+
+describe("createExtraAccountMeta", () => {
+  it("rejects a PDA without seeds", () => {
+    expect(() => createExtraAccountMeta({ seeds: [] })).toThrow("at least one seed");
+  });
+
+  it("rejects seeds that do not fit", () => {
+    expect(() => createExtraAccountMeta({ seeds: [{ type: "literal", bytes: Buffer.alloc(31) }] })).toThrow(
+      "at most 32 fit"
+    );
+  });
+});
+
+describe("resolveExtraAccountMeta", () => {
+  const instructionData = createExecuteInstructionData(BigInt(1234));
+
+  it("resolves a fixed address", async () => {
+    const address = Keypair.generate().publicKey;
+    const meta = createExtraAccountMeta({ address, isWritable: true });
+
+    await expect(
+      resolveExtraAccountMeta(offline, meta, accounts, instructionData, hookProgramId)
+    ).resolves.toEqual({ pubkey: address, isSigner: false, isWritable: true });
+  });
+
+  it("derives a PDA of the hook program from literal, key and instruction data seeds", async () => {
+    const meta = createExtraAccountMeta({
+      seeds: [
+        { type: "literal", bytes: Buffer.from("counter") },
+        { type: "accountKey", index: 1 },
+        { type: "instructionData", offset: 8, length: 8 },
+      ],
+    });
+    const [expected] = PublicKey.findProgramAddressSync(
+      [Buffer.from("counter"), accounts[1].pubkey.toBuffer(), instructionData.subarray(8, 16)],
+      hookProgramId
+    );
+
+    const resolved = await resolveExtraAccountMeta(offline, meta, accounts, instructionData, hookProgramId);
+    expect(resolved.pubkey.equals(expected)).toBe(true);
+  });
+
+  it("derives a PDA of another program from account data", async () => {
+    const data = Buffer.from([9, 8, 7, 6, 5]);
+    const meta = createExtraAccountMeta({
+      seeds: [{ type: "accountData", accountIndex: 0, dataOffset: 1, length: 3 }],
+      programIndex: 2,
+    });
+    const [expected] = PublicKey.findProgramAddressSync([data.subarray(1, 4)], accounts[2].pubkey);
+
+    const resolved = await resolveExtraAccountMeta(
+      connectionWithAccount(data),
+      meta,
+      accounts,
+      instructionData,
+      hookProgramId
+    );
+    expect(resolved.pubkey.equals(expected)).toBe(true);
+  });
+
+  it("reads an address from account data", async () => {
+    const address = Keypair.generate().publicKey;
+    const meta = createExtraAccountMeta({ pubkeyData: { type: "accountData", accountIndex: 3, dataOffset: 4 } });
+    const data = Buffer.concat([Buffer.alloc(4), address.toBuffer()]);
+
+    const resolved = await resolveExtraAccountMeta(
+      connectionWithAccount(data),
+      meta,
+      accounts,
+      instructionData,
+      hookProgramId
+    );
+    expect(resolved.pubkey.equals(address)).toBe(true);
+  });
+
+  it("rejects seeds referring to accounts not resolved yet", async () => {
+    const meta = createExtraAccountMeta({ seeds: [{ type: "accountKey", index: 7 }] });
+
+    await expect(
+      resolveExtraAccountMeta(offline, meta, accounts, instructionData, hookProgramId)
+    ).rejects.toThrow("not resolved yet");
+  });
+});
@@ -0,0 +1,596 @@
+import {
+  AccountMeta,
+  Commitment,
+  Connection,
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction
+} from "@solana/web3.js";
+import { ExtraAccountMeta, getExtraAccountMetaAddress } from "@solana/spl-token";
+
+/**
+ * Discriminator of the transfer hook Execute instruction, also the TLV type of the ExtraAccountMetaList
+ */
+export const EXECUTE_INSTRUCTION_DISCRIMINATOR = Buffer.from([105, 37, 101, 197, 75, 251, 102, 26]);
+
+/**
+ * Discriminator of the transfer hook InitializeExtraAccountMetaList instruction
+ */
+export const INITIALIZE_EXTRA_ACCOUNT_META_LIST_DISCRIMINATOR = Buffer.from([43, 34, 13, 49, 167, 88, 235, 235]);
+
+/**
+ * Discriminator of the transfer hook UpdateExtraAccountMetaList instruction
+ */
+export const UPDATE_EXTRA_ACCOUNT_META_LIST_DISCRIMINATOR = Buffer.from([157, 105, 42, 146, 102, 85, 241, 174]);
+
+/**
+ * Seed of a PDA in an ExtraAccountMetaList
+ *
+ * Account indexes count the Execute accounts: source (0), mint (1), destination (2),
+ * authority (3), validation account (4), then the extra accounts in order.
+ */
+export type ExtraAccountMetaSeed =
+  | { type: "literal"; bytes: Uint8Array }
+  | { type: "instructionData"; offset: number; length: number }
+  | { type: "accountKey"; index: number }
+  | { type: "accountData"; accountIndex: number; dataOffset: number; length: number };
+
+/**
+ * Location of an address read from the Execute instruction data or from account data
+ */
+export type ExtraAccountMetaPubkeyData =
+  | { type: "instructionData"; offset: number }
+  | { type: "accountData"; accountIndex: number; dataOffset: number };
+
+/**
+ * Declarative description of an extra account required by a hook program
+ *
+ * - `address`: a fixed account
+ * - `seeds`: a PDA of the hook program, or of the program at `programIndex` in the account list
+ * - `pubkeyData`: an address read from instruction or account data
+ */
+export type ExtraAccountMetaConfig = {
+  isSigner?: boolean;
+  isWritable?: boolean;
+} & (
+  | { address: PublicKey }
+  | { seeds: ExtraAccountMetaSeed[]; programIndex?: number }
+  | { pubkeyData: ExtraAccountMetaPubkeyData }
+);
+
+const EXTRA_ACCOUNT_META_SIZE = 35;
+const POD_SLICE_LENGTH_SIZE = 4;
+const ADDRESS_CONFIG_SIZE = 32;
+const TLV_HEADER_SIZE = 12;
+
+// ExtraAccountMeta discriminators: fixed address, PDA of the hook program, address read
+// from instruction or account data, and (128 + index) for a PDA of the program at that account index
+const FIXED_ADDRESS = 0;
+const HOOK_PROGRAM_PDA = 1;
+const PUBKEY_DATA = 2;
+const EXTERNAL_PDA_BASE = 128;
+
+// Accounts of the Execute instruction before the extra accounts
+const EXECUTE_ACCOUNT_COUNT = 5;
+
+/**
+ * Decode the ExtraAccountMetaList stored in a transfer hook validation account
+ * @param data - Validation account data
+ * @returns Extra account metas in resolution order
+ */
+export function decodeExtraAccountMetaList(data: Buffer): ExtraAccountMeta[] {
+  let offset = 0;
+  while (offset + TLV_HEADER_SIZE <= data.length) {
+    const discriminator = data.subarray(offset, offset + 8);
+    const length = data.readUInt32LE(offset + 8);
+    const value = data.subarray(offset + TLV_HEADER_SIZE, offset + TLV_HEADER_SIZE + length);
+
+    if (discriminator.equals(EXECUTE_INSTRUCTION_DISCRIMINATOR)) {
+      const count = value.readUInt32LE(0);
+      if (value.length < POD_SLICE_LENGTH_SIZE + count * EXTRA_ACCOUNT_META_SIZE) {
+        throw new Error("ExtraAccountMetaList is truncated");
+      }
+
+      const metas: ExtraAccountMeta[] = [];
+      for (let i = 0; i < count; i++) {
+        const meta = value.subarray(POD_SLICE_LENGTH_SIZE + i * EXTRA_ACCOUNT_META_SIZE);
+        metas.push({
+          discriminator: meta[0],
+          addressConfig: meta.subarray(1, 1 + ADDRESS_CONFIG_SIZE),
+          isSigner: meta[33] === 1,
+          isWritable: meta[34] === 1,
+        });
+      }
+      return metas;
+    }
+
+    // Skip entries for other instructions
+    offset += TLV_HEADER_SIZE + length;
+  }
+
+  throw new Error("Validation account has no ExtraAccountMetaList for Execute");
+}
+
+/**
+ * Build the instruction data of Execute, which instruction data seeds refer to
+ * @param amount - Transfer amount
+ * @returns Execute instruction data
+ */
+export function createExecuteInstructionData(amount: bigint): Buffer {
+  const data = Buffer.alloc(16);
+  EXECUTE_INSTRUCTION_DISCRIMINATOR.copy(data);
+  data.writeBigUInt64LE(amount, 8);
+  return data;
+}
+
+async function getAccountData(
+  connection: Connection,
+  accounts: AccountMeta[],
+  index: number,
+  commitment: Commitment
+): Promise<Buffer> {
+  if (index >= accounts.length) {
+    throw new Error(`Seed refers to account ${index}, which is not resolved yet`);
+  }
+  const accountInfo = await connection.getAccountInfo(accounts[index].pubkey, commitment);
+  if (!accountInfo) {
+    throw new Error(`Seed refers to account ${accounts[index].pubkey.toBase58()}, which does not exist`);
+  }
+  return accountInfo.data;
+}
+
+function readSeedBytes(source: Buffer, offset: number, length: number, what: string): Buffer {
+  if (offset + length > source.length) {
+    throw new Error(`Seed reads past the end of the ${what}`);
+  }
+  return source.subarray(offset, offset + length);
+}
+
+async function unpackSeeds(
+  connection: Connection,
+  addressConfig: Uint8Array,
+  accounts: AccountMeta[],
+  instructionData: Buffer,
+  commitment: Commitment
+): Promise<Buffer[]> {
+  const config = Buffer.from(addressConfig);
+  const seeds: Buffer[] = [];
+
+  let offset = 0;
+  while (offset < config.length && config[offset] !== 0) {
+    switch (config[offset]) {
+      case 1: {
+        // Literal: length, bytes
+        const length = config[offset + 1];
+        seeds.push(readSeedBytes(config, offset + 2, length, "address config"));
+        offset += 2 + length;
+        break;
+      }
+      case 2: {
+        // Instruction data: offset, length
+        seeds.push(readSeedBytes(instructionData, config[offset + 1], config[offset + 2], "instruction data"));
+        offset += 3;
+        break;
+      }
+      case 3: {
+        // Account key: account index
+        const index = config[offset + 1];
+        if (index >= accounts.length) {
+          throw new Error(`Seed refers to account ${index}, which is not resolved yet`);
+        }
+        seeds.push(accounts[index].pubkey.toBuffer());
+        offset += 2;
+        break;
+      }
+      case 4: {
+        // Account data: account index, data offset, length
+        const data = await getAccountData(connection, accounts, config[offset + 1], commitment);
+        seeds.push(readSeedBytes(data, config[offset + 2], config[offset + 3], "account data"));
+        offset += 4;
+        break;
+      }
+      default:
+        throw new Error(`Unknown seed kind ${config[offset]}`);
+    }
+  }
+
+  return seeds;
+}
+
+async function unpackPubkeyData(
+  connection: Connection,
+  addressConfig: Uint8Array,
+  accounts: AccountMeta[],
+  instructionData: Buffer,
+  commitment: Commitment
+): Promise<PublicKey> {
+  const config = Buffer.from(addressConfig);
+  switch (config[0]) {
+    case 1:
+      // Instruction data: offset
+      return new PublicKey(readSeedBytes(instructionData, config[1], 32, "instruction data"));
+    case 2: {
+      // Account data: account index, data offset
+      const data = await getAccountData(connection, accounts, config[1], commitment);
+      return new PublicKey(readSeedBytes(data, config[2], 32, "account data"));
+    }
+    default:
+      throw new Error(`Unknown pubkey data kind ${config[0]}`);
+  }
+}
+
+/**
+ * Resolve one extra account meta
+ * @param connection - Connection to Solana cluster
+ * @param meta - Extra account meta
+ * @param accounts - Execute accounts resolved so far
+ * @param instructionData - Execute instruction data
+ * @param hookProgramId - Transfer hook program ID
+ * @param commitment - Commitment level for account data seeds
+ * @returns Account meta
+ */
+export async function resolveExtraAccountMeta(
+  connection: Connection,
+  meta: ExtraAccountMeta,
+  accounts: AccountMeta[],
+  instructionData: Buffer,
+  hookProgramId: PublicKey,
+  commitment: Commitment = "confirmed"
+): Promise<AccountMeta> {
+  let pubkey: PublicKey;
+
+  if (meta.discriminator === FIXED_ADDRESS) {
+    pubkey = new PublicKey(meta.addressConfig);
+  } else if (meta.discriminator === PUBKEY_DATA) {
+    pubkey = await unpackPubkeyData(connection, meta.addressConfig, accounts, instructionData, commitment);
+  } else {
+    let programId: PublicKey;
+    if (meta.discriminator === HOOK_PROGRAM_PDA) {
+      programId = hookProgramId;
+    } else if (meta.discriminator >= EXTERNAL_PDA_BASE) {
+      const index = meta.discriminator - EXTERNAL_PDA_BASE;
+      if (index >= accounts.length) {
+        throw new Error(`PDA program refers to account ${index}, which is not resolved yet`);
+      }
+      programId = accounts[index].pubkey;
+    } else {
+      throw new Error(`Unknown extra account meta discriminator ${meta.discriminator}`);
+    }
+
+    const seeds = await unpackSeeds(connection, meta.addressConfig, accounts, instructionData, commitment);
+    [pubkey] = PublicKey.findProgramAddressSync(seeds, programId);
+  }
+
+  return { pubkey, isSigner: meta.isSigner, isWritable: meta.isWritable };
+}
+
+/**
+ * Resolve the accounts a transfer needs for its transfer hook
+ *
+ * Seeds are resolved against the Execute instruction the token program sends to the hook:
+ * source, mint, destination, authority, validation account, then each extra account in order.
+ *
+ * @param connection - Connection to Solana cluster
+ * @param hookProgramId - Transfer hook program ID
+ * @param source - Source token account
+ * @param mint - Mint address
+ * @param destination - Destination token account
+ * @param authority - Transfer authority
+ * @param amount - Transfer amount
+ * @param commitment - Commitment level
+ * @returns Extra accounts followed by the hook program and the validation account
+ */
+export async function getTransferHookAccountMetas(
+  connection: Connection,
+  hookProgramId: PublicKey,
+  source: PublicKey,
+  mint: PublicKey,
+  destination: PublicKey,
+  authority: PublicKey,
+  amount: bigint,
+  commitment: Commitment = "confirmed"
+): Promise<AccountMeta[]> {
+  const validationAccount = getExtraAccountMetaAddress(mint, hookProgramId);
+  const validationInfo = await connection.getAccountInfo(validationAccount, commitment);
+  if (!validationInfo) {
+    throw new Error(`Transfer hook validation account ${validationAccount.toBase58()} does not exist`);
+  }
+  if (!validationInfo.owner.equals(hookProgramId)) {
+    throw new Error(`Transfer hook validation account ${validationAccount.toBase58()} is not owned by the hook program`);
+  }
+
+  const accounts: AccountMeta[] = [
+    { pubkey: source, isSigner: false, isWritable: false },
+    { pubkey: mint, isSigner: false, isWritable: false },
+    { pubkey: destination, isSigner: false, isWritable: false },
+    { pubkey: authority, isSigner: false, isWritable: false },
+    { pubkey: validationAccount, isSigner: false, isWritable: false },
+  ];
+  const instructionData = createExecuteInstructionData(amount);
+
+  for (const meta of decodeExtraAccountMetaList(validationInfo.data)) {
+    accounts.push(
+      await resolveExtraAccountMeta(connection, meta, accounts, instructionData, hookProgramId, commitment)
+    );
+  }
+
+  return [
+    ...accounts.slice(EXECUTE_ACCOUNT_COUNT),
+    { pubkey: hookProgramId, isSigner: false, isWritable: false },
+    { pubkey: validationAccount, isSigner: false, isWritable: false },
+  ];
+}
+
+/**
+ * Append the transfer hook accounts to a TransferChecked instruction
+ *
+ * Accounts already in the instruction keep their privileges: the transaction cannot
+ * grant the hook more than the transfer itself has.
+ *
+ * @param connection - Connection to Solana cluster
+ * @param instruction - TransferChecked (or TransferCheckedWithFee) instruction
+ * @param hookProgramId - Transfer hook program ID
+ * @param amount - Transfer amount
+ * @param commitment - Commitment level
+ * @returns Instruction with the hook accounts appended
+ */
+export async function addTransferHookAccounts(
+  connection: Connection,
+  instruction: TransactionInstruction,
+  hookProgramId: PublicKey,
+  amount: bigint,
+  commitment: Commitment = "confirmed"
+): Promise<TransactionInstruction> {
+  const [source, mint, destination, authority] = instruction.keys.map((key) => key.pubkey);
+  const hookAccounts = await getTransferHookAccountMetas(
+    connection,
+    hookProgramId,
+    source,
+    mint,
+    destination,
+    authority,
+    amount,
+    commitment
+  );
+
+  const keys = [...instruction.keys];
+  for (const account of hookAccounts) {
+    const existing = keys.find((key) => key.pubkey.equals(account.pubkey));
+    keys.push(existing
+      ? {
+          pubkey: account.pubkey,
+          isSigner: account.isSigner && existing.isSigner,
+          isWritable: account.isWritable && existing.isWritable,
+        }
+      : account
+    );
+  }
+
+  return new TransactionInstruction({
+    keys,
+    programId: instruction.programId,
+    data: instruction.data,
+  });
+}
+
+function checkByte(value: number, name: string): number {
+  if (!Number.isInteger(value) || value < 0 || value > 255) {
+    throw new Error(`${name} must fit in one byte, got ${value}`);
+  }
+  return value;
+}
+
+function packSeed(seed: ExtraAccountMetaSeed): number[] {
+  switch (seed.type) {
+    case "literal":
+      return [1, checkByte(seed.bytes.length, "Literal seed length"), ...seed.bytes];
+    case "instructionData":
+      return [2, checkByte(seed.offset, "Instruction data offset"), checkByte(seed.length, "Seed length")];
+    case "accountKey":
+      return [3, checkByte(seed.index, "Account index")];
+    case "accountData":
+      return [
+        4,
+        checkByte(seed.accountIndex, "Account index"),
+        checkByte(seed.dataOffset, "Account data offset"),
+        checkByte(seed.length, "Seed length"),
+      ];
+  }
+}
+
+function packPubkeyData(pubkeyData: ExtraAccountMetaPubkeyData): number[] {
+  switch (pubkeyData.type) {
+    case "instructionData":
+      return [1, checkByte(pubkeyData.offset, "Instruction data offset")];
+    case "accountData":
+      return [2, checkByte(pubkeyData.accountIndex, "Account index"), checkByte(pubkeyData.dataOffset, "Account data offset")];
+  }
+}
+
+/**
+ * Encode an extra account description into its on-chain ExtraAccountMeta form
+ * @param config - Extra account description
+ * @returns Extra account meta
+ */
+export function createExtraAccountMeta(config: ExtraAccountMetaConfig): ExtraAccountMeta {
+  const addressConfig = Buffer.alloc(ADDRESS_CONFIG_SIZE);
+  let discriminator: number;
+
+  if ("address" in config) {
+    discriminator = FIXED_ADDRESS;
+    config.address.toBuffer().copy(addressConfig);
+  } else if ("seeds" in config) {
+    if (config.seeds.length === 0) {
+      throw new Error("A PDA extra account needs at least one seed");
+    }
+    discriminator = config.programIndex === undefined
+      ? HOOK_PROGRAM_PDA
+      : EXTERNAL_PDA_BASE + checkByte(config.programIndex, "Program index");
+    if (discriminator > 255) {
+      throw new Error(`Program index must be below ${256 - EXTERNAL_PDA_BASE}, got ${config.programIndex}`);
+    }
+
+    const packed = config.seeds.flatMap(packSeed);
+    if (packed.length > ADDRESS_CONFIG_SIZE) {
+      throw new Error(`Seeds take ${packed.length} bytes, at most ${ADDRESS_CONFIG_SIZE} fit in an extra account meta`);
+    }
+    addressConfig.set(packed);
+  } else {
+    discriminator = PUBKEY_DATA;
+    addressConfig.set(packPubkeyData(config.pubkeyData));
+  }
+
+  return {
+    discriminator,
+    addressConfig,
+    isSigner: config.isSigner ?? false,
+    isWritable: config.isWritable ?? false,
+  };
+}
+
+function packExtraAccountMetas(metas: ExtraAccountMetaConfig[]): Buffer {
+  const data = Buffer.alloc(POD_SLICE_LENGTH_SIZE + metas.length * EXTRA_ACCOUNT_META_SIZE);
+  data.writeUInt32LE(metas.length, 0);
+
+  metas.map(createExtraAccountMeta).forEach((meta, index) => {
+    const offset = POD_SLICE_LENGTH_SIZE + index * EXTRA_ACCOUNT_META_SIZE;
+    data[offset] = meta.discriminator;
+    Buffer.from(meta.addressConfig).copy(data, offset + 1);
+    data[offset + 33] = meta.isSigner ? 1 : 0;
+    data[offset + 34] = meta.isWritable ? 1 : 0;
+  });
+  return data;
+}
+
+/**
+ * Size of a validation account holding an ExtraAccountMetaList for Execute
+ * @param count - Number of extra accounts
+ * @returns Account size in bytes
+ */
+export function getExtraAccountMetaListSize(count: number): number {
+  return TLV_HEADER_SIZE + POD_SLICE_LENGTH_SIZE + count * EXTRA_ACCOUNT_META_SIZE;
+}
+
+/**
+ * Encode the data of a validation account, as the hook program stores it
+ * @param metas - Extra account descriptions
+ * @returns Validation account data
+ */
+export function encodeExtraAccountMetaList(metas: ExtraAccountMetaConfig[]): Buffer {
+  const value = packExtraAccountMetas(metas);
+  const header = Buffer.alloc(TLV_HEADER_SIZE);
+  EXECUTE_INSTRUCTION_DISCRIMINATOR.copy(header);
+  header.writeUInt32LE(value.length, 8);
+  return Buffer.concat([header, value]);
+}
+
+/**
+ * Create instruction to initialize the ExtraAccountMetaList of a mint
+ *
+ * Hook programs following the spl-transfer-hook-interface expect the validation account
+ * to be funded for rent beforehand and the mint authority to sign.
+ *
+ * @param hookProgramId - Transfer hook program ID
+ * @param mint - Mint address
+ * @param authority - Mint authority
+ * @param metas - Extra account descriptions
+ * @returns Instruction for the hook program
+ */
+export function createInitializeExtraAccountMetaListInstruction(
+  hookProgramId: PublicKey,
+  mint: PublicKey,
+  authority: PublicKey,
+  metas: ExtraAccountMetaConfig[]
+): TransactionInstruction {
+  return new TransactionInstruction({
+    keys: [
+      { pubkey: getExtraAccountMetaAddress(mint, hookProgramId), isSigner: false, isWritable: true },
+      { pubkey: mint, isSigner: false, isWritable: false },
+      { pubkey: authority, isSigner: true, isWritable: false },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+    ],
+    programId: hookProgramId,
+    data: Buffer.concat([INITIALIZE_EXTRA_ACCOUNT_META_LIST_DISCRIMINATOR, packExtraAccountMetas(metas)]),
+  });
+}
+
+/**
+ * Create instruction to replace the ExtraAccountMetaList of a mint
+ * @param hookProgramId - Transfer hook program ID
+ * @param mint - Mint address
+ * @param authority - Mint authority
+ * @param metas - New extra account descriptions
+ * @returns Instruction for the hook program
+ */
+export function createUpdateExtraAccountMetaListInstruction(
+  hookProgramId: PublicKey,
+  mint: PublicKey,
+  authority: PublicKey,
+  metas: ExtraAccountMetaConfig[]
+): TransactionInstruction {
+  return new TransactionInstruction({
+    keys: [
+      { pubkey: getExtraAccountMetaAddress(mint, hookProgramId), isSigner: false, isWritable: true },
+      { pubkey: mint, isSigner: false, isWritable: false },
+      { pubkey: authority, isSigner: true, isWritable: false },
+    ],
+    programId: hookProgramId,
+    data: Buffer.concat([UPDATE_EXTRA_ACCOUNT_META_LIST_DISCRIMINATOR, packExtraAccountMetas(metas)]),
+  });
+}
+
+/**
+ * Create instructions to initialize or update the ExtraAccountMetaList of a mint
+ *
+ * The payer tops up the validation account to the rent of its new size, then the
+ * hook program writes the list: Initialize when the account does not exist yet, Update otherwise.
+ *
+ * @param connection - Connection to Solana cluster
+ * @param payer - Public key of the fee payer
+ * @param hookProgramId - Transfer hook program ID
+ * @param mint - Mint address
+ * @param authority - Mint authority
+ * @param metas - Extra account descriptions
+ * @returns Instructions and validation account address
+ */
+export async function createExtraAccountMetaListInstructions(
+  connection: Connection,
+  payer: PublicKey,
+  hookProgramId: PublicKey,
+  mint: PublicKey,
+  authority: PublicKey,
+  metas: ExtraAccountMetaConfig[]
+): Promise<{
+  instructions: TransactionInstruction[];
+  validationAccount: PublicKey;
+}> {
+  try {
+    const validationAccount = getExtraAccountMetaAddress(mint, hookProgramId);
+    const [accountInfo, rent] = await Promise.all([
+      connection.getAccountInfo(validationAccount),
+      connection.getMinimumBalanceForRentExemption(getExtraAccountMetaListSize(metas.length)),
+    ]);
+
+    const instructions: TransactionInstruction[] = [];
+    const shortfall = rent - (accountInfo?.lamports ?? 0);
+    if (shortfall > 0) {
+      instructions.push(
+        SystemProgram.transfer({
+          fromPubkey: payer,
+          toPubkey: validationAccount,
+          lamports: shortfall,
+        })
+      );
+    }
+
+    instructions.push(
+      accountInfo && accountInfo.data.length > 0
+        ? createUpdateExtraAccountMetaListInstruction(hookProgramId, mint, authority, metas)
+        : createInitializeExtraAccountMetaListInstruction(hookProgramId, mint, authority, metas)
+    );
+
+    return { instructions, validationAccount };
+  } catch (error: any) {
+    throw new Error(`Could not create ExtraAccountMetaList instructions: ${error.message}`);
+  }
+}
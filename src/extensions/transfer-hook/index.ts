@@ -1,7 +1,9 @@
 import {
+  Commitment,
   Connection,
   Keypair,
   PublicKey,
+  Signer,
   Transaction,
   SystemProgram,
   TransactionInstruction
@@ -13,9 +15,25 @@ import {
   createInitializeTransferHookInstruction,
   createInitializeMintInstruction,
   getAccount,
-  createTransferCheckedInstruction
+  createTransferCheckedInstruction,
+  createUpdateTransferHookInstruction,
+  createSetAuthorityInstruction,
+  AuthorityType,
+  getExtraAccountMetaAddress,
+  getMint
 } from "@solana/spl-token";
 import { Token } from "../../core/token";
+import {
+  TransferHookState,
+  decodeAccountExtensions,
+  decodeMintExtensions,
+  getExtensionState,
+  hasExtension
+} from "../../utils/extension-decoder";
+import { TokenExtensionType } from "../../utils/extension-registry";
+import { ExtraAccountMetaConfig, createExtraAccountMetaListInstructions } from "./extra-account-metas";
+
+export * from "./extra-account-metas";
 
 /**
  * TransferHookToken - Extension for Token with transfer hook functionality
@@ -37,37 +55,80 @@ export class TransferHookToken extends Token {
   /**
    * Create transfer instruction with transfer hook
    * 
+   * The ExtraAccountMetaList of the hook program is fetched and resolved, and the extra
+   * accounts, the hook program and the validation account are appended to the transfer.
+   * 
    * @param source - Source account address
    * @param destination - Destination account address
    * @param owner - Account owner
    * @param amount - Token amount to transfer
    * @param decimals - Token decimal places
-   * @param extraAccounts - Additional accounts to include in the instruction (optional)
+   * @param extraAccounts - Additional read-only accounts appended after the resolved ones (optional)
    * @returns Transaction instruction
    */
-  createTransferInstruction(
+  async createTransferInstruction(
     source: PublicKey,
     destination: PublicKey,
     owner: PublicKey,
     amount: bigint,
     decimals: number,
     extraAccounts: PublicKey[] = []
-  ): TransactionInstruction {
-    // Note: Since createTransferCheckedWithTransferHookInstruction might not be
-    // directly available in this version of @solana/spl-token,
-    // we use the standard transfer instruction instead
-    return createTransferCheckedInstruction(
-      source,
+  ): Promise<TransactionInstruction> {
+    const instruction = await this.withTransferHookAccounts(
+      createTransferCheckedInstruction(
+        source,
+        this.mint,
+        destination,
+        owner,
+        amount,
+        decimals,
+        [],
+        TOKEN_2022_PROGRAM_ID
+      ),
+      amount
+    );
+
+    instruction.keys.push(
+      ...extraAccounts.map((pubkey) => ({ pubkey, isSigner: false, isWritable: false }))
+    );
+    return instruction;
+  }
+
+  /**
+   * Create instructions to write the ExtraAccountMetaList of this mint
+   * 
+   * @param payer - Public key of the fee payer, tops up the validation account rent
+   * @param authority - Mint authority, must sign
+   * @param metas - Extra account descriptions
+   * @returns Instructions and validation account address
+   */
+  async createExtraAccountMetaListInstructions(
+    payer: PublicKey,
+    authority: PublicKey,
+    metas: ExtraAccountMetaConfig[]
+  ): Promise<{
+    instructions: TransactionInstruction[];
+    validationAccount: PublicKey;
+  }> {
+    return createExtraAccountMetaListInstructions(
+      this.connection,
+      payer,
+      this.programId,
       this.mint,
-      destination,
-      owner,
-      amount,
-      decimals,
-      [],
-      TOKEN_2022_PROGRAM_ID
+      authority,
+      metas
     );
   }
 
+  /**
+   * Get the address of the validation account holding the ExtraAccountMetaList
+   * 
+   * @returns Validation account address
+   */
+  getExtraAccountMetaListAddress(): PublicKey {
+    return getExtraAccountMetaAddress(this.mint, this.programId);
+  }
+
   /**
    * Generate instructions to create a new TransferHookToken
    * 
@@ -83,6 +144,8 @@ export class TransferHookToken extends Token {
       decimals: number;
       mintAuthority: PublicKey;
       programId: PublicKey;
+      /** Authority allowed to change the hook program, defaults to the payer; null makes it immutable */
+      authority?: PublicKey | null;
     }
   ): Promise<{
     instructions: TransactionInstruction[];
@@ -106,7 +169,7 @@ export class TransferHookToken extends Token {
         }),
         createInitializeTransferHookInstruction(
           mint,
-          payer,
+          params.authority === undefined ? payer : params.authority ?? PublicKey.default,
           params.programId,
           TOKEN_2022_PROGRAM_ID
         ),
@@ -130,7 +193,156 @@ export class TransferHookToken extends Token {
   }
 
   /**
-   * Get the program ID that will be called on transfers
+   * Create instruction to change the hook program of a mint
+   * 
+   * @param mint - Mint address
+   * @param authority - Transfer hook authority
+   * @param hookProgramId - New hook program, null disables the hook
+   * @param multiSigners - Signers if the authority is a multisig
+   * @param programId - Token Extension Program ID
+   * @returns Instruction to update the hook program
+   */
+  static createUpdateTransferHookInstruction(
+    mint: PublicKey,
+    authority: PublicKey,
+    hookProgramId: PublicKey | null,
+    multiSigners: (Signer | PublicKey)[] = [],
+    programId = TOKEN_2022_PROGRAM_ID
+  ): TransactionInstruction {
+    // The program is an optional key on-chain: the zero key means no hook
+    return createUpdateTransferHookInstruction(
+      mint,
+      authority,
+      hookProgramId ?? PublicKey.default,
+      multiSigners,
+      programId
+    );
+  }
+
+  /**
+   * Create instruction to rotate the transfer hook authority
+   * 
+   * @param mint - Mint address
+   * @param currentAuthority - Current transfer hook authority
+   * @param newAuthority - New authority, null makes the hook program immutable
+   * @param multiSigners - Signers if the current authority is a multisig
+   * @param programId - Token Extension Program ID
+   * @returns SetAuthority instruction
+   */
+  static createSetTransferHookAuthorityInstruction(
+    mint: PublicKey,
+    currentAuthority: PublicKey,
+    newAuthority: PublicKey | null,
+    multiSigners: (Signer | PublicKey)[] = [],
+    programId = TOKEN_2022_PROGRAM_ID
+  ): TransactionInstruction {
+    return createSetAuthorityInstruction(
+      mint,
+      currentAuthority,
+      AuthorityType.TransferHookProgramId,
+      newAuthority,
+      multiSigners,
+      programId
+    );
+  }
+
+  /**
+   * Read the transfer hook configuration of a mint
+   * 
+   * @param connection - Connection to Solana cluster
+   * @param mint - Mint address
+   * @param commitment - Commitment level
+   * @returns Hook program and authority (null when unset), null if the mint has no TransferHook extension
+   */
+  static async getTransferHookState(
+    connection: Connection,
+    mint: PublicKey,
+    commitment: Commitment = "confirmed"
+  ): Promise<TransferHookState | null> {
+    try {
+      const mintInfo = await getMint(connection, mint, commitment, TOKEN_2022_PROGRAM_ID);
+      return getExtensionState(decodeMintExtensions(mintInfo), TokenExtensionType.TransferHook);
+    } catch (error: any) {
+      throw new Error(`Could not get transfer hook state: ${error.message}`);
+    }
+  }
+
+  /**
+   * Read the current transfer hook configuration of this mint
+   * 
+   * @returns Hook program and authority, null if the mint has no TransferHook extension
+   */
+  async getTransferHookState(): Promise<TransferHookState | null> {
+    return TransferHookToken.getTransferHookState(this.connection, this.mint);
+  }
+
+  /**
+   * Create instruction to point this mint at another hook program
+   * 
+   * @param authority - Transfer hook authority
+   * @param hookProgramId - New hook program
+   * @param multiSigners - Signers if the authority is a multisig
+   * @returns Instruction to update the hook program
+   */
+  createUpdateProgramInstruction(
+    authority: PublicKey,
+    hookProgramId: PublicKey,
+    multiSigners: (Signer | PublicKey)[] = []
+  ): TransactionInstruction {
+    return TransferHookToken.createUpdateTransferHookInstruction(
+      this.mint,
+      authority,
+      hookProgramId,
+      multiSigners
+    );
+  }
+
+  /**
+   * Create instruction to disable the transfer hook of this mint
+   * 
+   * Transfers stop invoking any program. The extension stays, so a program can be set again later.
+   * 
+   * @param authority - Transfer hook authority
+   * @param multiSigners - Signers if the authority is a multisig
+   * @returns Instruction setting the hook program to none
+   */
+  createDisableInstruction(
+    authority: PublicKey,
+    multiSigners: (Signer | PublicKey)[] = []
+  ): TransactionInstruction {
+    return TransferHookToken.createUpdateTransferHookInstruction(
+      this.mint,
+      authority,
+      null,
+      multiSigners
+    );
+  }
+
+  /**
+   * Create instruction to rotate the transfer hook authority of this mint
+   * 
+   * @param currentAuthority - Current transfer hook authority
+   * @param newAuthority - New authority, null makes the hook program immutable
+   * @param multiSigners - Signers if the current authority is a multisig
+   * @returns SetAuthority instruction
+   */
+  createSetAuthorityInstruction(
+    currentAuthority: PublicKey,
+    newAuthority: PublicKey | null,
+    multiSigners: (Signer | PublicKey)[] = []
+  ): TransactionInstruction {
+    return TransferHookToken.createSetTransferHookAuthorityInstruction(
+      this.mint,
+      currentAuthority,
+      newAuthority,
+      multiSigners
+    );
+  }
+
+  /**
+   * Get the program ID this instance was created with
+   * 
+   * The mint may have been pointed at another program since; use getTransferHookState for the on-chain value.
    * 
    * @returns Transfer hook program ID
    */
@@ -153,16 +365,7 @@ export class TransferHookToken extends Token {
         TOKEN_2022_PROGRAM_ID
       );
       
-      // Check if the account has the transfer hook extension
-      // This is a simplistic check - in a real implementation,
-      // we would use the proper @solana/spl-token method to check
-      try {
-        // In @solana/spl-token, there's a method to check this
-        // For now we'll just return true if we can get the account
-        return true;
-      } catch {
-        return false;
-      }
+      return hasExtension(decodeAccountExtensions(account), TokenExtensionType.TransferHookAccount);
     } catch {
       return false;
     }
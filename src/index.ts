@@ -1,17 +1,70 @@
 // Core exports
 export { Token } from './core/token';
+export * from './core/authority-manager';
 
 // Utils exports
 export { TokenBuilder } from './utils/token-builder';
 export { TokenAccountBuilder } from './utils/token-account-builder';
-export { getOptimalInitializationOrder } from './utils/extension-helpers';
+export { getOptimalInitializationOrder, getTokenInfo } from './utils/extension-helpers';
+export * from './utils/extension-decoder';
+export * from './utils/extension-registry';
+export * from './utils/mint-inspector';
+export * from './utils/account-inspector';
+export * from './utils/multisig';
+export * from './utils/token-manifest';
 export { MetadataHelper } from './utils/metadata-helper';
-export { TransferFeeToken } from './extensions/transfer-fee';
+export {
+  TransferFeeToken,
+  MAX_FEE_BASIS_POINTS,
+  getEpochTransferFee,
+  calculateEpochTransferFee,
+  calculatePreFeeAmount,
+  calculateEpochPreFeeAmount,
+  calculateEpochInverseFee,
+  WithheldFeeAccount,
+  FindWithheldFeeAccountsOptions,
+  FeeBatch,
+  FeeBatchResult,
+  FeeCollectionReport,
+  decodeWithheldAmount,
+  findWithheldFeeAccounts,
+  createHarvestBatches,
+  createWithdrawBatches,
+  sendFeeBatches,
+} from './extensions/transfer-fee';
 export { MetadataPointerToken } from './extensions/metadata-pointer';
 export { TokenMetadataToken } from './extensions/token-metadata';
 export { PermanentDelegateToken } from './extensions/permanent-delegate';
-export { TransferHookToken } from './extensions/transfer-hook';
-export { ConfidentialTransferToken } from './extensions/confidential-transfer';
+export {
+  TransferHookToken,
+  decodeExtraAccountMetaList,
+  resolveExtraAccountMeta,
+  getTransferHookAccountMetas,
+  addTransferHookAccounts,
+  ExtraAccountMetaSeed,
+  ExtraAccountMetaPubkeyData,
+  ExtraAccountMetaConfig,
+  createExtraAccountMeta,
+  encodeExtraAccountMetaList,
+  getExtraAccountMetaListSize,
+  createInitializeExtraAccountMetaListInstruction,
+  createUpdateExtraAccountMetaListInstruction,
+  createExtraAccountMetaListInstructions,
+} from './extensions/transfer-hook';
+export {
+  ConfidentialTransferToken,
+  ConfidentialTransferProver,
+  ConfidentialProofInstructions,
+  ProofLocation,
+  ZkProofType,
+  ZK_ELGAMAL_PROOF_PROGRAM_ID,
+  ElGamalKeypair,
+  AeKey,
+  ConfidentialKeySigner,
+  ConfidentialBalanceSummary,
+  getConfidentialBalanceSummary,
+  formatConfidentialBalanceSummary,
+} from './extensions/confidential-transfer';
 export { NonTransferableToken } from './extensions/non-transferable';
 export { ImmutableOwnerToken } from './extensions/immutable-owner/index';
 export { TokenAccount } from './extensions/token-account';
@@ -20,6 +73,21 @@ export { MintCloseAuthorityExtension } from './extensions/mint-close-authority';
 export { DefaultAccountStateExtension } from './extensions/default-account-state';
 export { InterestBearingExtension } from './extensions/interest-bearing';
 export { CpiGuardExtension } from './extensions/cpi-guard';
-export { TokenGroupExtension } from './extensions/token-groups';
+export { MemoTransferExtension, createMemoInstruction } from './extensions/memo-transfer';
+export { TokenGroupExtension, TokenGroupMemberInfo, ListMembersOptions } from './extensions/token-groups';
 export { MemberPointerExtension } from './extensions/member-pointer';
 export { TokenFreezeExtension } from './extensions/token-freeze';
+export {
+  PausableExtension,
+  PausableExtensionType,
+  MintPausedError,
+  createInitializePausableConfigInstruction,
+  createPauseInstruction,
+  createResumeInstruction,
+} from './extensions/pausable';
+export {
+  ScaledUiAmountExtensionType,
+  createInitializeScaledUiAmountConfigInstruction,
+  getCurrentMultiplier,
+  createUpdateMultiplierInstruction,
+} from './extensions/scaled-ui-amount';
@@ -17,6 +17,15 @@ export interface TransferFeeConfig {
   withdrawWithheldAuthority: Keypair | PublicKey;
 }
 
+export interface TransferAmountBreakdown {
+  /** Amount debited from the source */
+  grossAmount: bigint;
+  /** Fee withheld in the destination account */
+  fee: bigint;
+  /** Amount the destination receives */
+  netAmount: bigint;
+}
+
 export interface TransferHookConfig extends TokenExtensionConfig {
   hookProgramId: PublicKey;
 }
@@ -0,0 +1,145 @@
+import { Keypair, PublicKey } from "@solana/web3.js";
+import { AccountLayout, AccountState, MintLayout } from "@solana/spl-token";
+import { TokenExtensionType } from "./extension-registry";
+import { parseMintSnapshot } from "./mint-inspector";
+import { parseTokenAccountSnapshot } from "./account-inspector";
+
+const mintAddress = Keypair.generate().publicKey;
+const owner = Keypair.generate().publicKey;
+
+function tlv(type: number, data: Buffer): Buffer {
+  const header = Buffer.alloc(4);
+  header.writeUInt16LE(type, 0);
+  header.writeUInt16LE(data.length, 2);
+  return Buffer.concat([header, data]);
+}
+
+function mintData(...extensions: Buffer[]): Buffer {
+  const base = Buffer.alloc(166);
+  MintLayout.encode(
+    {
+      mintAuthorityOption: 0,
+      mintAuthority: PublicKey.default,
+      supply: BigInt(0),
+      decimals: 2,
+      isInitialized: true,
+      freezeAuthorityOption: 0,
+      freezeAuthority: PublicKey.default,
+    },
+    base
+  );
+  base[165] = 1;
+  return Buffer.concat([base, ...extensions]);
+}
+
+function accountData(amount: bigint, ...extensions: Buffer[]): Buffer {
+  return accountDataWithState(amount, AccountState.Initialized, ...extensions);
+}
+
+function accountDataWithState(amount: bigint, state: AccountState, ...extensions: Buffer[]): Buffer {
+  const base = Buffer.alloc(166);
+  AccountLayout.encode(
+    {
+      mint: mintAddress,
+      owner,
+      amount,
+      delegateOption: 0,
+      delegate: PublicKey.default,
+      state,
+      isNativeOption: 0,
+      isNative: BigInt(0),
+      delegatedAmount: BigInt(0),
+      closeAuthorityOption: 0,
+      closeAuthority: PublicKey.default,
+    },
+    base
+  );
+  base[165] = 2;
+  return Buffer.concat([base, ...extensions]);
+}
+
+function scaledUiAmount(multiplier: number, newMultiplier: number, effectiveTimestamp: number): Buffer {
+  const data = Buffer.alloc(56);
+  data.writeDoubleLE(multiplier, 32);
+  data.writeBigInt64LE(BigInt(effectiveTimestamp), 40);
+  data.writeDoubleLE(newMultiplier, 48);
+  return tlv(TokenExtensionType.ScaledUiAmount, data);
+}
+
+describe("parseTokenAccountSnapshot", () => {
+  const address = Keypair.generate().publicKey;
+
+  it("decodes the base fields and account extensions", () => {
+    const withheld = Buffer.alloc(8);
+    withheld.writeBigUInt64LE(BigInt(42));
+    const snapshot = parseTokenAccountSnapshot(
+      address,
+      accountData(
+        BigInt(12345),
+        tlv(TokenExtensionType.TransferFeeAmount, withheld),
+        tlv(TokenExtensionType.ImmutableOwner, Buffer.alloc(0)),
+        tlv(TokenExtensionType.MemoTransfer, Buffer.from([1])),
+        tlv(TokenExtensionType.TransferHookAccount, Buffer.from([0]))
+      )
+    );
+
+    expect(snapshot.mint.equals(mintAddress)).toBe(true);
+    expect(snapshot.owner.equals(owner)).toBe(true);
+    expect(snapshot.amount).toBe(BigInt(12345));
+    expect(snapshot.state).toBe(AccountState.Initialized);
+    expect(snapshot.withheldAmount).toBe(BigInt(42));
+    expect(snapshot.transferring).toBe(false);
+    expect(snapshot.confidentialTransfer).toBeNull();
+    expect(snapshot.decimals).toBeNull();
+    expect(snapshot.uiAmount).toBeNull();
+    expect(snapshot.flags).toEqual({
+      immutableOwner: true,
+      requiresMemo: true,
+      cpiGuarded: false,
+      nonTransferable: false,
+      transferable: true,
+    });
+  });
+
+  it("formats the balance with the mint decimals", () => {
+    const mint = parseMintSnapshot(mintAddress, mintData());
+    expect(parseTokenAccountSnapshot(address, accountData(BigInt(12345)), mint).uiAmount).toBe("123.45");
+    expect(parseTokenAccountSnapshot(address, accountData(BigInt(5)), mint).uiAmount).toBe("0.05");
+  });
+
+  it("is not transferable when frozen, non-transferable or paused", () => {
+    const frozen = accountDataWithState(BigInt(1), AccountState.Frozen);
+    expect(parseTokenAccountSnapshot(address, frozen).flags.transferable).toBe(false);
+
+    const nonTransferable = accountData(BigInt(1), tlv(TokenExtensionType.NonTransferableAccount, Buffer.alloc(0)));
+    expect(parseTokenAccountSnapshot(address, nonTransferable).flags).toMatchObject({
+      nonTransferable: true,
+      transferable: false,
+    });
+
+    const pausable = Buffer.alloc(33);
+    pausable[32] = 1;
+    const pausedMint = parseMintSnapshot(mintAddress, mintData(tlv(TokenExtensionType.Pausable, pausable)));
+    const account = accountData(BigInt(1), tlv(TokenExtensionType.PausableAccount, Buffer.alloc(0)));
+    expect(parseTokenAccountSnapshot(address, account).flags.transferable).toBe(true);
+    expect(parseTokenAccountSnapshot(address, account, pausedMint).flags.transferable).toBe(false);
+  });
+
+  it("rejects a mint the account does not belong to", () => {
+    const other = parseMintSnapshot(Keypair.generate().publicKey, mintData());
+    expect(() => parseTokenAccountSnapshot(address, accountData(BigInt(1)), other)).toThrow("does not belong to mint");
+  });
+
+  it("rejects data that is not a token account", () => {
+    expect(() => parseTokenAccountSnapshot(address, Buffer.alloc(100))).toThrow("Could not decode token account");
+  });
+
+  it("applies the scaled UI amount multiplier in force", () => {
+    const mint = parseMintSnapshot(mintAddress, mintData(scaledUiAmount(1.5, 2, 1000)));
+    const data = accountData(BigInt(1001), tlv(TokenExtensionType.ImmutableOwner, Buffer.alloc(0)));
+
+    // 1001 * 1.5 = 1501.5, truncated to whole base units
+    expect(parseTokenAccountSnapshot(address, data, mint, BigInt(999)).uiAmount).toBe("15.01");
+    expect(parseTokenAccountSnapshot(address, data, mint, BigInt(1000)).uiAmount).toBe("20.02");
+  });
+});
@@ -0,0 +1,220 @@
+import { AccountInfo, Commitment, Connection, PublicKey, SYSVAR_CLOCK_PUBKEY } from "@solana/web3.js";
+import { AccountState, TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID, unpackAccount } from "@solana/spl-token";
+import { InterestBearingExtension } from "../extensions/interest-bearing";
+import { getCurrentMultiplier } from "../extensions/scaled-ui-amount";
+import {
+  ConfidentialTransferAccountState,
+  DecodedExtension,
+  decodeAccountExtensions,
+  getExtensionState,
+  hasExtension,
+} from "./extension-decoder";
+import { TokenExtensionType } from "./extension-registry";
+import { ExtensionStates, MintSnapshot, parseMintSnapshot } from "./mint-inspector";
+
+// Offset of unix_timestamp in the Clock sysvar
+const CLOCK_UNIX_TIMESTAMP_OFFSET = 32;
+
+/**
+ * Properties derived from the account extensions
+ */
+export interface TokenAccountFlags {
+  /** The owner can never be changed (ImmutableOwner) */
+  immutableOwner: boolean;
+  /** Incoming transfers must be preceded by a memo (MemoTransfer) */
+  requiresMemo: boolean;
+  /** Privileged operations are blocked inside CPIs (CpiGuard) */
+  cpiGuarded: boolean;
+  /** The account holds a NonTransferable token */
+  nonTransferable: boolean;
+  /** Tokens can leave the account: not frozen, not NonTransferable and, when the mint is known, not paused */
+  transferable: boolean;
+}
+
+/**
+ * Typed snapshot of a token account and all its extension state
+ */
+export interface TokenAccountSnapshot {
+  address: PublicKey;
+  programId: PublicKey;
+  mint: PublicKey;
+  owner: PublicKey;
+  amount: bigint;
+  state: AccountState;
+  delegate: PublicKey | null;
+  delegatedAmount: bigint;
+  closeAuthority: PublicKey | null;
+  isNative: boolean;
+  rentExemptReserve: bigint | null;
+  /** Extensions in on-chain order */
+  extensions: DecodedExtension[];
+  states: ExtensionStates;
+  /** Fees withheld in this account, zero without TransferFeeAmount */
+  withheldAmount: bigint;
+  /** Encrypted balances, null without ConfidentialTransferAccount */
+  confidentialTransfer: ConfidentialTransferAccountState | null;
+  /** Whether the account is in the middle of a hooked transfer, null without TransferHookAccount */
+  transferring: boolean | null;
+  /** Decimals of the mint, null when the mint is unknown */
+  decimals: number | null;
+  /** Balance as displayed to users, interest or scaling included; null when the mint is unknown */
+  uiAmount: string | null;
+  flags: TokenAccountFlags;
+}
+
+function formatAmount(amount: bigint, decimals: number): string {
+  const digits = amount.toString().padStart(decimals + 1, "0");
+  if (decimals === 0) {
+    return digits;
+  }
+  const fraction = digits.slice(-decimals).replace(/0+$/, "");
+  const integer = digits.slice(0, -decimals);
+  return fraction ? `${integer}.${fraction}` : integer;
+}
+
+/**
+ * Decode a token account into a snapshot without any RPC call
+ *
+ * Raw data is assumed to belong to the Token Extension Program. The UI amount needs
+ * the mint; for interest-bearing and scaled mints it is computed at the given timestamp.
+ *
+ * @param address - Token account address
+ * @param account - Account info as returned by getAccountInfo, or the raw account data
+ * @param mint - Snapshot of the account mint (optional)
+ * @param unixTimestamp - Cluster unix timestamp, defaults to the local clock
+ * @returns Token account snapshot
+ */
+export function parseTokenAccountSnapshot(
+  address: PublicKey,
+  account: AccountInfo<Buffer> | Buffer,
+  mint?: MintSnapshot,
+  unixTimestamp?: bigint
+): TokenAccountSnapshot {
+  const info: AccountInfo<Buffer> = Buffer.isBuffer(account)
+    ? { data: account, owner: TOKEN_2022_PROGRAM_ID, lamports: 0, executable: false }
+    : account;
+  const programId = info.owner.equals(TOKEN_PROGRAM_ID) ? TOKEN_PROGRAM_ID : TOKEN_2022_PROGRAM_ID;
+
+  let tokenAccount;
+  try {
+    tokenAccount = unpackAccount(address, info, programId);
+  } catch (error: any) {
+    throw new Error(`Could not decode token account ${address.toBase58()}: ${error.message || error.name}`);
+  }
+  if (mint && !mint.address.equals(tokenAccount.mint)) {
+    throw new Error(`Token account ${address.toBase58()} does not belong to mint ${mint.address.toBase58()}`);
+  }
+
+  const extensions = decodeAccountExtensions(tokenAccount);
+  const states: ExtensionStates = {};
+  for (const extension of extensions) {
+    if (extension.state !== null) {
+      (states as Record<number, unknown>)[extension.type] = extension.state;
+    }
+  }
+
+  let uiAmount: string | null = null;
+  if (mint) {
+    const now = unixTimestamp ?? BigInt(Math.floor(Date.now() / 1000));
+    const interestConfig = mint.states[TokenExtensionType.InterestBearingConfig];
+    const scaledUiAmount = mint.states[TokenExtensionType.ScaledUiAmount];
+    if (interestConfig) {
+      uiAmount = InterestBearingExtension.amountToUiAmount(interestConfig, tokenAccount.amount, mint.decimals, now);
+    } else if (scaledUiAmount) {
+      // Like Token-2022, the scaled amount is truncated to whole base units
+      const scaled = Math.trunc(Number(tokenAccount.amount) * getCurrentMultiplier(scaledUiAmount, now));
+      uiAmount = formatAmount(BigInt(scaled), mint.decimals);
+    } else {
+      uiAmount = formatAmount(tokenAccount.amount, mint.decimals);
+    }
+  }
+
+  const state = !tokenAccount.isInitialized
+    ? AccountState.Uninitialized
+    : tokenAccount.isFrozen
+      ? AccountState.Frozen
+      : AccountState.Initialized;
+  const nonTransferable = hasExtension(extensions, TokenExtensionType.NonTransferableAccount);
+
+  return {
+    address,
+    programId,
+    mint: tokenAccount.mint,
+    owner: tokenAccount.owner,
+    amount: tokenAccount.amount,
+    state,
+    delegate: tokenAccount.delegate,
+    delegatedAmount: tokenAccount.delegatedAmount,
+    closeAuthority: tokenAccount.closeAuthority,
+    isNative: tokenAccount.isNative,
+    rentExemptReserve: tokenAccount.rentExemptReserve,
+    extensions,
+    states,
+    withheldAmount: getExtensionState(extensions, TokenExtensionType.TransferFeeAmount)?.withheldAmount ?? BigInt(0),
+    confidentialTransfer: getExtensionState(extensions, TokenExtensionType.ConfidentialTransferAccount),
+    transferring: getExtensionState(extensions, TokenExtensionType.TransferHookAccount)?.transferring ?? null,
+    decimals: mint ? mint.decimals : null,
+    uiAmount,
+    flags: {
+      immutableOwner: hasExtension(extensions, TokenExtensionType.ImmutableOwner),
+      requiresMemo: getExtensionState(extensions, TokenExtensionType.MemoTransfer)?.requireIncomingTransferMemos ?? false,
+      cpiGuarded: getExtensionState(extensions, TokenExtensionType.CpiGuard)?.lockCpi ?? false,
+      nonTransferable,
+      transferable:
+        state === AccountState.Initialized &&
+        !nonTransferable &&
+        !(mint?.states[TokenExtensionType.Pausable]?.paused ?? false),
+    },
+  };
+}
+
+/**
+ * Read a token account and all its extension state using read calls only
+ *
+ * The account is fetched first, then its mint and the Clock sysvar in one batch for the UI amount.
+ * Pass the account info or raw data instead of a connection to inspect a fixture offline;
+ * the UI amount is then left null.
+ *
+ * @param source - Connection to Solana cluster, or the token account itself
+ * @param account - Token account address
+ * @param commitment - Commitment level, used when fetching
+ * @returns Token account snapshot
+ */
+export async function inspectTokenAccount(
+  source: Connection | AccountInfo<Buffer> | Buffer,
+  account: PublicKey,
+  commitment: Commitment = "confirmed"
+): Promise<TokenAccountSnapshot> {
+  if (!(source instanceof Connection)) {
+    return parseTokenAccountSnapshot(account, source);
+  }
+
+  let info: AccountInfo<Buffer> | null;
+  try {
+    info = await source.getAccountInfo(account, commitment);
+  } catch (error: any) {
+    throw new Error(`Could not fetch token account ${account.toBase58()}: ${error.message}`);
+  }
+  if (!info) {
+    throw new Error(`Token account ${account.toBase58()} not found`);
+  }
+
+  const { mint } = parseTokenAccountSnapshot(account, info);
+  let mintInfo: AccountInfo<Buffer> | null;
+  let clock: AccountInfo<Buffer> | null;
+  try {
+    [mintInfo, clock] = await source.getMultipleAccountsInfo([mint, SYSVAR_CLOCK_PUBKEY], commitment);
+  } catch (error: any) {
+    throw new Error(`Could not fetch mint ${mint.toBase58()}: ${error.message}`);
+  }
+  if (!mintInfo) {
+    throw new Error(`Mint ${mint.toBase58()} not found`);
+  }
+
+  return parseTokenAccountSnapshot(
+    account,
+    info,
+    parseMintSnapshot(mint, mintInfo),
+    clock ? clock.data.readBigInt64LE(CLOCK_UNIX_TIMESTAMP_OFFSET) : undefined
+  );
+}
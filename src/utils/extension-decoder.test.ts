@@ -0,0 +1,88 @@
+import { Keypair, PublicKey } from "@solana/web3.js";
+import { TokenExtensionType } from "./extension-registry";
+import { decodeExtensions, getExtensionState, hasExtension, parseTlvEntries } from "./extension-decoder";
+
+function tlv(type: number, data: Buffer): Buffer {
+  const header = Buffer.alloc(4);
+  header.writeUInt16LE(type, 0);
+  header.writeUInt16LE(data.length, 2);
+  return Buffer.concat([header, data]);
+}
+
+function transferFeeConfig(authority: PublicKey): Buffer {
+  const data = Buffer.alloc(108);
+  authority.toBuffer().copy(data, 0);
+  data.writeBigUInt64LE(BigInt(7), 64);
+  data.writeBigUInt64LE(BigInt(10), 72);
+  data.writeBigUInt64LE(BigInt(5000), 80);
+  data.writeUInt16LE(50, 88);
+  data.writeBigUInt64LE(BigInt(12), 90);
+  data.writeBigUInt64LE(BigInt(9000), 98);
+  data.writeUInt16LE(75, 106);
+  return data;
+}
+
+describe("parseTlvEntries", () => {
+  it("returns entries in on-chain order", () => {
+    const entries = parseTlvEntries(
+      Buffer.concat([
+        tlv(TokenExtensionType.NonTransferable, Buffer.alloc(0)),
+        tlv(TokenExtensionType.MemoTransfer, Buffer.from([1])),
+      ])
+    );
+    expect(entries.map((entry) => [entry.type, entry.length])).toEqual([
+      [TokenExtensionType.NonTransferable, 0],
+      [TokenExtensionType.MemoTransfer, 1],
+    ]);
+    expect(entries[1].data).toEqual(Buffer.from([1]));
+  });
+
+  it("stops at uninitialized space", () => {
+    const data = Buffer.concat([tlv(TokenExtensionType.ImmutableOwner, Buffer.alloc(0)), Buffer.alloc(2)]);
+    expect(parseTlvEntries(data)).toHaveLength(1);
+  });
+
+  it("ignores a truncated entry", () => {
+    const truncated = tlv(TokenExtensionType.MintCloseAuthority, Buffer.alloc(32)).subarray(0, 20);
+    const data = Buffer.concat([tlv(TokenExtensionType.NonTransferable, Buffer.alloc(0)), truncated]);
+    expect(parseTlvEntries(data).map((entry) => entry.type)).toEqual([TokenExtensionType.NonTransferable]);
+  });
+
+  it("returns nothing for empty data", () => {
+    expect(parseTlvEntries(Buffer.alloc(0))).toEqual([]);
+  });
+});
+
+describe("decodeExtensions", () => {
+  it("decodes transfer fee configuration", () => {
+    const authority = Keypair.generate().publicKey;
+    const extensions = decodeExtensions(tlv(TokenExtensionType.TransferFeeConfig, transferFeeConfig(authority)));
+
+    expect(extensions[0].name).toBe("TransferFeeConfig");
+    const state = getExtensionState(extensions, TokenExtensionType.TransferFeeConfig);
+    expect(state?.transferFeeConfigAuthority?.equals(authority)).toBe(true);
+    expect(state?.withdrawWithheldAuthority).toBeNull();
+    expect(state?.withheldAmount).toBe(BigInt(7));
+    expect(state?.olderTransferFee).toEqual({ epoch: BigInt(10), maximumFee: BigInt(5000), transferFeeBasisPoints: 50 });
+    expect(state?.newerTransferFee).toEqual({ epoch: BigInt(12), maximumFee: BigInt(9000), transferFeeBasisPoints: 75 });
+  });
+
+  it("decodes the paused flag", () => {
+    const data = Buffer.alloc(33);
+    data[32] = 1;
+    const extensions = decodeExtensions(tlv(TokenExtensionType.Pausable, data));
+
+    expect(getExtensionState(extensions, TokenExtensionType.Pausable)).toEqual({ authority: null, paused: true });
+  });
+
+  it("keeps unknown and malformed extensions without a state", () => {
+    const extensions = decodeExtensions(
+      Buffer.concat([tlv(999, Buffer.from([1, 2])), tlv(TokenExtensionType.MintCloseAuthority, Buffer.alloc(8))])
+    );
+
+    expect(extensions.map((extension) => extension.state)).toEqual([null, null]);
+    expect(extensions[0].name).toBe("Unknown Extension (999)");
+    expect(hasExtension(extensions, TokenExtensionType.MintCloseAuthority)).toBe(true);
+    expect(hasExtension(extensions, TokenExtensionType.TransferHook)).toBe(false);
+  });
+});
@@ -0,0 +1,419 @@
+import { PublicKey } from "@solana/web3.js";
+import { Account, Mint } from "@solana/spl-token";
+import { TokenMetadata, unpack } from "@solana/spl-token-metadata";
+import { TokenExtensionType, getExtensionName } from "./extension-registry";
+
+const TLV_TYPE_SIZE = 2;
+const TLV_LENGTH_SIZE = 2;
+
+export interface TransferFeeState {
+  epoch: bigint;
+  maximumFee: bigint;
+  transferFeeBasisPoints: number;
+}
+
+export interface TransferFeeConfigState {
+  transferFeeConfigAuthority: PublicKey | null;
+  withdrawWithheldAuthority: PublicKey | null;
+  withheldAmount: bigint;
+  olderTransferFee: TransferFeeState;
+  newerTransferFee: TransferFeeState;
+}
+
+export interface TransferFeeAmountState {
+  withheldAmount: bigint;
+}
+
+export interface MintCloseAuthorityState {
+  closeAuthority: PublicKey | null;
+}
+
+export interface ConfidentialTransferMintState {
+  authority: PublicKey | null;
+  autoApproveNewAccounts: boolean;
+  auditorElGamalPubkey: Buffer | null;
+}
+
+export interface ConfidentialTransferAccountState {
+  approved: boolean;
+  elgamalPubkey: Buffer;
+  pendingBalanceLo: Buffer;
+  pendingBalanceHi: Buffer;
+  availableBalance: Buffer;
+  decryptableAvailableBalance: Buffer;
+  allowConfidentialCredits: boolean;
+  allowNonConfidentialCredits: boolean;
+  pendingBalanceCreditCounter: bigint;
+  maximumPendingBalanceCreditCounter: bigint;
+  expectedPendingBalanceCreditCounter: bigint;
+  actualPendingBalanceCreditCounter: bigint;
+}
+
+export interface DefaultAccountStateData {
+  state: number;
+}
+
+export interface MemoTransferState {
+  requireIncomingTransferMemos: boolean;
+}
+
+export interface InterestBearingConfigState {
+  rateAuthority: PublicKey | null;
+  initializationTimestamp: bigint;
+  preUpdateAverageRate: number;
+  lastUpdateTimestamp: bigint;
+  currentRate: number;
+}
+
+export interface CpiGuardState {
+  lockCpi: boolean;
+}
+
+export interface PermanentDelegateState {
+  delegate: PublicKey | null;
+}
+
+export interface TransferHookState {
+  authority: PublicKey | null;
+  programId: PublicKey | null;
+}
+
+export interface TransferHookAccountState {
+  transferring: boolean;
+}
+
+export interface ConfidentialTransferFeeConfigState {
+  authority: PublicKey | null;
+  withdrawWithheldAuthorityElGamalPubkey: Buffer;
+  harvestToMintEnabled: boolean;
+  withheldAmount: Buffer;
+}
+
+export interface ConfidentialTransferFeeAmountState {
+  withheldAmount: Buffer;
+}
+
+/**
+ * State shared by MetadataPointer, GroupPointer and GroupMemberPointer
+ */
+export interface PointerState {
+  authority: PublicKey | null;
+  address: PublicKey | null;
+}
+
+export interface TokenGroupState {
+  updateAuthority: PublicKey | null;
+  mint: PublicKey;
+  size: bigint;
+  maxSize: bigint;
+}
+
+export interface TokenGroupMemberState {
+  mint: PublicKey;
+  group: PublicKey;
+  memberNumber: bigint;
+}
+
+export interface ScaledUiAmountState {
+  authority: PublicKey | null;
+  multiplier: number;
+  newMultiplierEffectiveTimestamp: bigint;
+  newMultiplier: number;
+}
+
+export interface PausableState {
+  authority: PublicKey | null;
+  paused: boolean;
+}
+
+/**
+ * Decoded payload type for each extension discriminator
+ */
+export interface ExtensionStateMap {
+  [TokenExtensionType.TransferFeeConfig]: TransferFeeConfigState;
+  [TokenExtensionType.TransferFeeAmount]: TransferFeeAmountState;
+  [TokenExtensionType.MintCloseAuthority]: MintCloseAuthorityState;
+  [TokenExtensionType.ConfidentialTransferMint]: ConfidentialTransferMintState;
+  [TokenExtensionType.ConfidentialTransferAccount]: ConfidentialTransferAccountState;
+  [TokenExtensionType.DefaultAccountState]: DefaultAccountStateData;
+  [TokenExtensionType.ImmutableOwner]: Record<string, never>;
+  [TokenExtensionType.MemoTransfer]: MemoTransferState;
+  [TokenExtensionType.NonTransferable]: Record<string, never>;
+  [TokenExtensionType.InterestBearingConfig]: InterestBearingConfigState;
+  [TokenExtensionType.CpiGuard]: CpiGuardState;
+  [TokenExtensionType.PermanentDelegate]: PermanentDelegateState;
+  [TokenExtensionType.NonTransferableAccount]: Record<string, never>;
+  [TokenExtensionType.TransferHook]: TransferHookState;
+  [TokenExtensionType.TransferHookAccount]: TransferHookAccountState;
+  [TokenExtensionType.ConfidentialTransferFeeConfig]: ConfidentialTransferFeeConfigState;
+  [TokenExtensionType.ConfidentialTransferFeeAmount]: ConfidentialTransferFeeAmountState;
+  [TokenExtensionType.MetadataPointer]: PointerState;
+  [TokenExtensionType.TokenMetadata]: TokenMetadata;
+  [TokenExtensionType.GroupPointer]: PointerState;
+  [TokenExtensionType.TokenGroup]: TokenGroupState;
+  [TokenExtensionType.GroupMemberPointer]: PointerState;
+  [TokenExtensionType.TokenGroupMember]: TokenGroupMemberState;
+  [TokenExtensionType.ScaledUiAmount]: ScaledUiAmountState;
+  [TokenExtensionType.Pausable]: PausableState;
+  [TokenExtensionType.PausableAccount]: Record<string, never>;
+}
+
+export interface TlvEntry {
+  type: number;
+  length: number;
+  data: Buffer;
+}
+
+export interface DecodedExtension<T = unknown> extends TlvEntry {
+  name: string;
+  present: true;
+  /** Decoded payload, or null when the extension is unknown or malformed */
+  state: T | null;
+}
+
+function readOptionalPubkey(data: Buffer, offset: number): PublicKey | null {
+  const key = new PublicKey(data.subarray(offset, offset + 32));
+  return key.equals(PublicKey.default) ? null : key;
+}
+
+function readTransferFee(data: Buffer, offset: number): TransferFeeState {
+  return {
+    epoch: data.readBigUInt64LE(offset),
+    maximumFee: data.readBigUInt64LE(offset + 8),
+    transferFeeBasisPoints: data.readUInt16LE(offset + 16),
+  };
+}
+
+function decodePointer(data: Buffer): PointerState {
+  return {
+    authority: readOptionalPubkey(data, 0),
+    address: readOptionalPubkey(data, 32),
+  };
+}
+
+/**
+ * Minimum payload length and decoder for each fixed-layout extension
+ */
+const DECODERS: Record<number, [number, (data: Buffer) => unknown]> = {
+  [TokenExtensionType.TransferFeeConfig]: [108, (data): TransferFeeConfigState => ({
+    transferFeeConfigAuthority: readOptionalPubkey(data, 0),
+    withdrawWithheldAuthority: readOptionalPubkey(data, 32),
+    withheldAmount: data.readBigUInt64LE(64),
+    olderTransferFee: readTransferFee(data, 72),
+    newerTransferFee: readTransferFee(data, 90),
+  })],
+  [TokenExtensionType.TransferFeeAmount]: [8, (data): TransferFeeAmountState => ({
+    withheldAmount: data.readBigUInt64LE(0),
+  })],
+  [TokenExtensionType.MintCloseAuthority]: [32, (data): MintCloseAuthorityState => ({
+    closeAuthority: readOptionalPubkey(data, 0),
+  })],
+  [TokenExtensionType.ConfidentialTransferMint]: [65, (data): ConfidentialTransferMintState => {
+    const auditor = Buffer.from(data.subarray(33, 65));
+    return {
+      authority: readOptionalPubkey(data, 0),
+      autoApproveNewAccounts: data[32] !== 0,
+      auditorElGamalPubkey: auditor.every((byte) => byte === 0) ? null : auditor,
+    };
+  }],
+  [TokenExtensionType.ConfidentialTransferAccount]: [295, (data): ConfidentialTransferAccountState => ({
+    approved: data[0] !== 0,
+    elgamalPubkey: Buffer.from(data.subarray(1, 33)),
+    pendingBalanceLo: Buffer.from(data.subarray(33, 97)),
+    pendingBalanceHi: Buffer.from(data.subarray(97, 161)),
+    availableBalance: Buffer.from(data.subarray(161, 225)),
+    decryptableAvailableBalance: Buffer.from(data.subarray(225, 261)),
+    allowConfidentialCredits: data[261] !== 0,
+    allowNonConfidentialCredits: data[262] !== 0,
+    pendingBalanceCreditCounter: data.readBigUInt64LE(263),
+    maximumPendingBalanceCreditCounter: data.readBigUInt64LE(271),
+    expectedPendingBalanceCreditCounter: data.readBigUInt64LE(279),
+    actualPendingBalanceCreditCounter: data.readBigUInt64LE(287),
+  })],
+  [TokenExtensionType.DefaultAccountState]: [1, (data): DefaultAccountStateData => ({
+    state: data[0],
+  })],
+  [TokenExtensionType.ImmutableOwner]: [0, () => ({})],
+  [TokenExtensionType.MemoTransfer]: [1, (data): MemoTransferState => ({
+    requireIncomingTransferMemos: data[0] !== 0,
+  })],
+  [TokenExtensionType.NonTransferable]: [0, () => ({})],
+  [TokenExtensionType.InterestBearingConfig]: [52, (data): InterestBearingConfigState => ({
+    rateAuthority: readOptionalPubkey(data, 0),
+    initializationTimestamp: data.readBigInt64LE(32),
+    preUpdateAverageRate: data.readInt16LE(40),
+    lastUpdateTimestamp: data.readBigInt64LE(42),
+    currentRate: data.readInt16LE(50),
+  })],
+  [TokenExtensionType.CpiGuard]: [1, (data): CpiGuardState => ({
+    lockCpi: data[0] !== 0,
+  })],
+  [TokenExtensionType.PermanentDelegate]: [32, (data): PermanentDelegateState => ({
+    delegate: readOptionalPubkey(data, 0),
+  })],
+  [TokenExtensionType.NonTransferableAccount]: [0, () => ({})],
+  [TokenExtensionType.TransferHook]: [64, (data): TransferHookState => ({
+    authority: readOptionalPubkey(data, 0),
+    programId: readOptionalPubkey(data, 32),
+  })],
+  [TokenExtensionType.TransferHookAccount]: [1, (data): TransferHookAccountState => ({
+    transferring: data[0] !== 0,
+  })],
+  [TokenExtensionType.ConfidentialTransferFeeConfig]: [129, (data): ConfidentialTransferFeeConfigState => ({
+    authority: readOptionalPubkey(data, 0),
+    withdrawWithheldAuthorityElGamalPubkey: Buffer.from(data.subarray(32, 64)),
+    harvestToMintEnabled: data[64] !== 0,
+    withheldAmount: Buffer.from(data.subarray(65, 129)),
+  })],
+  [TokenExtensionType.ConfidentialTransferFeeAmount]: [64, (data): ConfidentialTransferFeeAmountState => ({
+    withheldAmount: Buffer.from(data.subarray(0, 64)),
+  })],
+  [TokenExtensionType.MetadataPointer]: [64, decodePointer],
+  [TokenExtensionType.GroupPointer]: [64, decodePointer],
+  [TokenExtensionType.TokenGroup]: [80, (data): TokenGroupState => ({
+    updateAuthority: readOptionalPubkey(data, 0),
+    mint: new PublicKey(data.subarray(32, 64)),
+    size: data.readBigUInt64LE(64),
+    maxSize: data.readBigUInt64LE(72),
+  })],
+  [TokenExtensionType.GroupMemberPointer]: [64, decodePointer],
+  [TokenExtensionType.TokenGroupMember]: [72, (data): TokenGroupMemberState => ({
+    mint: new PublicKey(data.subarray(0, 32)),
+    group: new PublicKey(data.subarray(32, 64)),
+    memberNumber: data.readBigUInt64LE(64),
+  })],
+  [TokenExtensionType.ScaledUiAmount]: [56, (data): ScaledUiAmountState => ({
+    authority: readOptionalPubkey(data, 0),
+    multiplier: data.readDoubleLE(32),
+    newMultiplierEffectiveTimestamp: data.readBigInt64LE(40),
+    newMultiplier: data.readDoubleLE(48),
+  })],
+  [TokenExtensionType.Pausable]: [33, (data): PausableState => ({
+    authority: readOptionalPubkey(data, 0),
+    paused: data[32] !== 0,
+  })],
+  [TokenExtensionType.PausableAccount]: [0, () => ({})],
+};
+
+/**
+ * Walk raw TLV data and return every entry without decoding payloads
+ *
+ * Token-2022 stores extensions as a 2-byte type, a 2-byte length and the payload.
+ * An Uninitialized (0) type marks the start of unused space.
+ *
+ * @param tlvData - TLV bytes following the account type byte
+ * @returns List of TLV entries in on-chain order
+ */
+export function parseTlvEntries(tlvData: Buffer): TlvEntry[] {
+  const entries: TlvEntry[] = [];
+  let offset = 0;
+
+  while (offset + TLV_TYPE_SIZE + TLV_LENGTH_SIZE <= tlvData.length) {
+    const type = tlvData.readUInt16LE(offset);
+    if (type === TokenExtensionType.Uninitialized) {
+      break;
+    }
+
+    const length = tlvData.readUInt16LE(offset + TLV_TYPE_SIZE);
+    const start = offset + TLV_TYPE_SIZE + TLV_LENGTH_SIZE;
+    if (start + length > tlvData.length) {
+      break;
+    }
+
+    entries.push({ type, length, data: tlvData.subarray(start, start + length) });
+    offset = start + length;
+  }
+
+  return entries;
+}
+
+function decodeState(entry: TlvEntry): unknown {
+  try {
+    if (entry.type === TokenExtensionType.TokenMetadata) {
+      return unpack(entry.data);
+    }
+
+    const decoder = DECODERS[entry.type];
+    if (!decoder || entry.data.length < decoder[0]) {
+      return null;
+    }
+    return decoder[1](entry.data);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse TLV data into a typed list of extensions with decoded payloads
+ *
+ * @param tlvData - TLV bytes of a mint or token account
+ * @returns Decoded extensions in on-chain order
+ */
+export function decodeExtensions(tlvData: Buffer): DecodedExtension[] {
+  return parseTlvEntries(tlvData).map((entry) => ({
+    ...entry,
+    name: getExtensionName(entry.type),
+    present: true as const,
+    state: decodeState(entry),
+  }));
+}
+
+/**
+ * Decode the extensions of a mint fetched with getMint
+ *
+ * @param mint - Mint information
+ * @returns Decoded extensions
+ */
+export function decodeMintExtensions(mint: Mint): DecodedExtension[] {
+  return mint.tlvData ? decodeExtensions(mint.tlvData) : [];
+}
+
+/**
+ * Decode the extensions of a token account fetched with getAccount
+ *
+ * @param account - Token account information
+ * @returns Decoded extensions
+ */
+export function decodeAccountExtensions(account: Account): DecodedExtension[] {
+  return account.tlvData ? decodeExtensions(account.tlvData) : [];
+}
+
+/**
+ * Find a decoded extension in a list
+ *
+ * @param extensions - Decoded extensions
+ * @param type - Extension discriminator to look for
+ * @returns The extension entry or null if absent
+ */
+export function findExtension<T extends keyof ExtensionStateMap>(
+  extensions: DecodedExtension[],
+  type: T
+): DecodedExtension<ExtensionStateMap[T]> | null {
+  const extension = extensions.find((entry) => entry.type === type);
+  return extension ? (extension as DecodedExtension<ExtensionStateMap[T]>) : null;
+}
+
+/**
+ * Get the decoded payload of an extension
+ *
+ * @param extensions - Decoded extensions
+ * @param type - Extension discriminator to look for
+ * @returns Decoded state or null if the extension is absent or malformed
+ */
+export function getExtensionState<T extends keyof ExtensionStateMap>(
+  extensions: DecodedExtension[],
+  type: T
+): ExtensionStateMap[T] | null {
+  return findExtension(extensions, type)?.state ?? null;
+}
+
+/**
+ * Check whether an extension is present in a list
+ *
+ * @param extensions - Decoded extensions
+ * @param type - Extension discriminator to look for
+ * @returns true if present
+ */
+export function hasExtension(extensions: DecodedExtension[], type: number): boolean {
+  return extensions.some((entry) => entry.type === type);
+}
@@ -0,0 +1,118 @@
+import { ExtensionType, getAccountLen, getMintLen } from "@solana/spl-token";
+import {
+  TokenExtensionType,
+  calculateAccountLen,
+  calculateMintLen,
+  getIncompatibleExtensions,
+  getRequiredAccountExtensions,
+} from "./extension-registry";
+
+describe("calculateMintLen", () => {
+  it("returns the base mint size without extensions", () => {
+    expect(calculateMintLen([])).toBe(82);
+  });
+
+  it("matches getMintLen for fixed-size extensions", () => {
+    const types = [
+      TokenExtensionType.TransferFeeConfig,
+      TokenExtensionType.MintCloseAuthority,
+      TokenExtensionType.InterestBearingConfig,
+      TokenExtensionType.MetadataPointer,
+    ];
+    expect(calculateMintLen(types)).toBe(getMintLen(types as number[] as ExtensionType[]));
+  });
+
+  it("pads a 355-byte mint by the extension type size", () => {
+    // 166 + 112 + 36 + 36 + 5 = 355, the size of a multisig
+    const types = [
+      TokenExtensionType.TransferFeeConfig,
+      TokenExtensionType.PermanentDelegate,
+      TokenExtensionType.MintCloseAuthority,
+      TokenExtensionType.DefaultAccountState,
+    ];
+    expect(calculateMintLen(types)).toBe(357);
+    expect(calculateMintLen(types)).toBe(getMintLen(types as number[] as ExtensionType[]));
+  });
+
+  it("counts duplicated extensions once", () => {
+    expect(calculateMintLen([TokenExtensionType.NonTransferable, TokenExtensionType.NonTransferable])).toBe(170);
+  });
+
+  it("adds the length of variable-length extensions", () => {
+    const length = calculateMintLen([TokenExtensionType.MetadataPointer, TokenExtensionType.TokenMetadata], {
+      [TokenExtensionType.TokenMetadata]: 100,
+    });
+    expect(length).toBe(166 + 68 + 104);
+  });
+
+  it("rejects variable-length extensions without a length", () => {
+    expect(() => calculateMintLen([TokenExtensionType.TokenMetadata])).toThrow("variable length");
+  });
+
+  it("rejects account extensions", () => {
+    expect(() => calculateMintLen([TokenExtensionType.ImmutableOwner])).toThrow("is not a mint extension");
+  });
+});
+
+describe("calculateAccountLen", () => {
+  it("returns the base account size without extensions", () => {
+    expect(calculateAccountLen([])).toBe(165);
+  });
+
+  it("matches getAccountLen", () => {
+    const types = [
+      TokenExtensionType.ImmutableOwner,
+      TokenExtensionType.TransferFeeAmount,
+      TokenExtensionType.MemoTransfer,
+      TokenExtensionType.CpiGuard,
+    ];
+    expect(calculateAccountLen(types)).toBe(getAccountLen(types as number[] as ExtensionType[]));
+  });
+
+  it("rejects mint extensions", () => {
+    expect(() => calculateAccountLen([TokenExtensionType.TransferFeeConfig])).toThrow("is not an account extension");
+  });
+});
+
+describe("getRequiredAccountExtensions", () => {
+  it("maps mint extensions to the account extensions they require", () => {
+    expect(
+      getRequiredAccountExtensions([
+        TokenExtensionType.TransferFeeConfig,
+        TokenExtensionType.MetadataPointer,
+        TokenExtensionType.TransferHook,
+        TokenExtensionType.NonTransferable,
+        TokenExtensionType.Pausable,
+      ])
+    ).toEqual([
+      TokenExtensionType.TransferFeeAmount,
+      TokenExtensionType.TransferHookAccount,
+      TokenExtensionType.NonTransferableAccount,
+      TokenExtensionType.PausableAccount,
+    ]);
+  });
+
+  it("returns nothing for mints without such extensions", () => {
+    expect(getRequiredAccountExtensions([TokenExtensionType.MintCloseAuthority])).toEqual([]);
+  });
+});
+
+describe("getIncompatibleExtensions", () => {
+  it("reports pairs Token-2022 refuses", () => {
+    expect(
+      getIncompatibleExtensions([TokenExtensionType.NonTransferable, TokenExtensionType.TransferFeeConfig])
+    ).toEqual([[TokenExtensionType.NonTransferable, TokenExtensionType.TransferFeeConfig]]);
+  });
+
+  it("allows confidential transfers with fees when the confidential fee config is present", () => {
+    const types = [TokenExtensionType.ConfidentialTransferMint, TokenExtensionType.TransferFeeConfig];
+    expect(getIncompatibleExtensions(types)).toHaveLength(1);
+    expect(getIncompatibleExtensions([...types, TokenExtensionType.ConfidentialTransferFeeConfig])).toEqual([]);
+  });
+
+  it("returns nothing for compatible extensions", () => {
+    expect(
+      getIncompatibleExtensions([TokenExtensionType.TransferFeeConfig, TokenExtensionType.InterestBearingConfig])
+    ).toEqual([]);
+  });
+});
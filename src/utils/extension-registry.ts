@@ -0,0 +1,285 @@
+import { ExtensionType } from "@solana/spl-token";
+
+/**
+ * On-chain discriminators of every Token-2022 extension
+ *
+ * Values match the `ExtensionType` enum of the Token-2022 program. The enum shipped
+ * with @solana/spl-token stops at TokenMetadata, so the SDK keeps its own copy.
+ */
+export enum TokenExtensionType {
+  Uninitialized = 0,
+  TransferFeeConfig = 1,
+  TransferFeeAmount = 2,
+  MintCloseAuthority = 3,
+  ConfidentialTransferMint = 4,
+  ConfidentialTransferAccount = 5,
+  DefaultAccountState = 6,
+  ImmutableOwner = 7,
+  MemoTransfer = 8,
+  NonTransferable = 9,
+  InterestBearingConfig = 10,
+  CpiGuard = 11,
+  PermanentDelegate = 12,
+  NonTransferableAccount = 13,
+  TransferHook = 14,
+  TransferHookAccount = 15,
+  ConfidentialTransferFeeConfig = 16,
+  ConfidentialTransferFeeAmount = 17,
+  MetadataPointer = 18,
+  TokenMetadata = 19,
+  GroupPointer = 20,
+  TokenGroup = 21,
+  GroupMemberPointer = 22,
+  TokenGroupMember = 23,
+  ConfidentialMintBurn = 24,
+  ScaledUiAmount = 25,
+  Pausable = 26,
+  PausableAccount = 27,
+}
+
+/**
+ * Either the SDK discriminator or the one exported by @solana/spl-token
+ */
+export type ExtensionTypeLike = TokenExtensionType | ExtensionType;
+
+/**
+ * When an extension gets initialized relative to InitializeMint / InitializeAccount
+ *
+ * - beforeInitialize: the extension instruction must precede the base initialize instruction
+ * - afterInitialize: the extension is written once the mint or account is initialized
+ * - automatic: the program adds it itself (account counterparts of mint extensions)
+ */
+export type ExtensionInitialization = "beforeInitialize" | "afterInitialize" | "automatic";
+
+export interface ExtensionRegistryEntry {
+  type: TokenExtensionType;
+  name: string;
+  /** Whether the extension lives on mints or token accounts */
+  scope: "mint" | "account";
+  /** Payload length in bytes, null for variable-length extensions */
+  size: number | null;
+  initialization: ExtensionInitialization;
+  /** Whether the extension can be added to an existing account with Reallocate */
+  reallocatable: boolean;
+  /** Account extension required on every token account of a mint using this extension */
+  accountExtension?: TokenExtensionType;
+}
+
+function entry(
+  type: TokenExtensionType,
+  scope: "mint" | "account",
+  size: number | null,
+  initialization: ExtensionInitialization,
+  reallocatable = false,
+  accountExtension?: TokenExtensionType
+): ExtensionRegistryEntry {
+  return {
+    type,
+    name: TokenExtensionType[type],
+    scope,
+    size,
+    initialization,
+    reallocatable,
+    accountExtension,
+  };
+}
+
+/**
+ * Registry of every Token-2022 extension keyed by its on-chain discriminator
+ */
+export const EXTENSION_REGISTRY: Readonly<Record<Exclude<TokenExtensionType, TokenExtensionType.Uninitialized>, ExtensionRegistryEntry>> = {
+  [TokenExtensionType.TransferFeeConfig]: entry(TokenExtensionType.TransferFeeConfig, "mint", 108, "beforeInitialize", false, TokenExtensionType.TransferFeeAmount),
+  [TokenExtensionType.TransferFeeAmount]: entry(TokenExtensionType.TransferFeeAmount, "account", 8, "automatic"),
+  [TokenExtensionType.MintCloseAuthority]: entry(TokenExtensionType.MintCloseAuthority, "mint", 32, "beforeInitialize"),
+  [TokenExtensionType.ConfidentialTransferMint]: entry(TokenExtensionType.ConfidentialTransferMint, "mint", 65, "beforeInitialize"),
+  [TokenExtensionType.ConfidentialTransferAccount]: entry(TokenExtensionType.ConfidentialTransferAccount, "account", 295, "afterInitialize", true),
+  [TokenExtensionType.DefaultAccountState]: entry(TokenExtensionType.DefaultAccountState, "mint", 1, "beforeInitialize"),
+  [TokenExtensionType.ImmutableOwner]: entry(TokenExtensionType.ImmutableOwner, "account", 0, "beforeInitialize"),
+  [TokenExtensionType.MemoTransfer]: entry(TokenExtensionType.MemoTransfer, "account", 1, "afterInitialize", true),
+  [TokenExtensionType.NonTransferable]: entry(TokenExtensionType.NonTransferable, "mint", 0, "beforeInitialize", false, TokenExtensionType.NonTransferableAccount),
+  [TokenExtensionType.InterestBearingConfig]: entry(TokenExtensionType.InterestBearingConfig, "mint", 52, "beforeInitialize"),
+  [TokenExtensionType.CpiGuard]: entry(TokenExtensionType.CpiGuard, "account", 1, "afterInitialize", true),
+  [TokenExtensionType.PermanentDelegate]: entry(TokenExtensionType.PermanentDelegate, "mint", 32, "beforeInitialize"),
+  [TokenExtensionType.NonTransferableAccount]: entry(TokenExtensionType.NonTransferableAccount, "account", 0, "automatic"),
+  [TokenExtensionType.TransferHook]: entry(TokenExtensionType.TransferHook, "mint", 64, "beforeInitialize", false, TokenExtensionType.TransferHookAccount),
+  [TokenExtensionType.TransferHookAccount]: entry(TokenExtensionType.TransferHookAccount, "account", 1, "automatic"),
+  [TokenExtensionType.ConfidentialTransferFeeConfig]: entry(TokenExtensionType.ConfidentialTransferFeeConfig, "mint", 129, "beforeInitialize", false, TokenExtensionType.ConfidentialTransferFeeAmount),
+  [TokenExtensionType.ConfidentialTransferFeeAmount]: entry(TokenExtensionType.ConfidentialTransferFeeAmount, "account", 64, "automatic"),
+  [TokenExtensionType.MetadataPointer]: entry(TokenExtensionType.MetadataPointer, "mint", 64, "beforeInitialize"),
+  [TokenExtensionType.TokenMetadata]: entry(TokenExtensionType.TokenMetadata, "mint", null, "afterInitialize"),
+  [TokenExtensionType.GroupPointer]: entry(TokenExtensionType.GroupPointer, "mint", 64, "beforeInitialize"),
+  [TokenExtensionType.TokenGroup]: entry(TokenExtensionType.TokenGroup, "mint", 80, "afterInitialize"),
+  [TokenExtensionType.GroupMemberPointer]: entry(TokenExtensionType.GroupMemberPointer, "mint", 64, "beforeInitialize"),
+  [TokenExtensionType.TokenGroupMember]: entry(TokenExtensionType.TokenGroupMember, "mint", 72, "afterInitialize"),
+  [TokenExtensionType.ConfidentialMintBurn]: entry(TokenExtensionType.ConfidentialMintBurn, "mint", 196, "beforeInitialize"),
+  [TokenExtensionType.ScaledUiAmount]: entry(TokenExtensionType.ScaledUiAmount, "mint", 56, "beforeInitialize"),
+  [TokenExtensionType.Pausable]: entry(TokenExtensionType.Pausable, "mint", 33, "beforeInitialize", false, TokenExtensionType.PausableAccount),
+  [TokenExtensionType.PausableAccount]: entry(TokenExtensionType.PausableAccount, "account", 0, "automatic"),
+};
+
+// Sizes used by the Token-2022 account layout
+const ACCOUNT_SIZE = 165;
+const ACCOUNT_TYPE_SIZE = 1;
+const MINT_SIZE = 82;
+const MULTISIG_SIZE = 355;
+const TLV_HEADER_SIZE = 4;
+const TYPE_SIZE = 2;
+
+/**
+ * Get the registry entry of an extension
+ *
+ * @param type - Extension discriminator
+ * @returns Registry entry or undefined for unknown discriminators
+ */
+export function getExtensionInfo(type: number): ExtensionRegistryEntry | undefined {
+  return (EXTENSION_REGISTRY as Record<number, ExtensionRegistryEntry>)[type];
+}
+
+/**
+ * Get the name of an extension
+ *
+ * @param type - Extension discriminator
+ * @returns Extension name
+ */
+export function getExtensionName(type: number): string {
+  return getExtensionInfo(type)?.name || `Unknown Extension (${type})`;
+}
+
+export function isMintExtension(type: ExtensionTypeLike): boolean {
+  return getExtensionInfo(type)?.scope === "mint";
+}
+
+export function isAccountExtension(type: ExtensionTypeLike): boolean {
+  return getExtensionInfo(type)?.scope === "account";
+}
+
+/**
+ * Check whether an extension can be added to an existing token account with Reallocate
+ *
+ * @param type - Extension discriminator
+ * @returns true if reallocatable
+ */
+export function isReallocatable(type: ExtensionTypeLike): boolean {
+  return getExtensionInfo(type)?.reallocatable === true;
+}
+
+function getTlvLength(type: ExtensionTypeLike, variableLengths: Partial<Record<number, number>>): number {
+  const info = getExtensionInfo(type);
+  if (!info) {
+    throw new Error(`Unknown extension type: ${type}`);
+  }
+
+  const size = info.size ?? variableLengths[type];
+  if (size === undefined) {
+    throw new Error(`Extension ${info.name} has a variable length, provide it explicitly`);
+  }
+
+  return TLV_HEADER_SIZE + size;
+}
+
+function getExtendedLength(extensionLength: number): number {
+  const length = ACCOUNT_SIZE + ACCOUNT_TYPE_SIZE + extensionLength;
+  // An extended account must never be mistaken for a multisig, Token-2022 pads it with an extension type
+  return length === MULTISIG_SIZE ? length + TYPE_SIZE : length;
+}
+
+/**
+ * Calculate the size of a mint account with the given extensions
+ *
+ * Unlike getMintLen from @solana/spl-token, this covers every extension in the registry.
+ *
+ * @param extensionTypes - Mint extensions
+ * @param variableLengths - Payload lengths of variable-length extensions
+ * @returns Account size in bytes
+ */
+export function calculateMintLen(
+  extensionTypes: ExtensionTypeLike[],
+  variableLengths: Partial<Record<number, number>> = {}
+): number {
+  const unique = [...new Set(extensionTypes)];
+  if (unique.length === 0) {
+    return MINT_SIZE;
+  }
+
+  for (const type of unique) {
+    if (!isMintExtension(type)) {
+      throw new Error(`${getExtensionName(type)} is not a mint extension`);
+    }
+  }
+
+  return getExtendedLength(unique.reduce((total, type) => total + getTlvLength(type, variableLengths), 0));
+}
+
+/**
+ * Calculate the size of a token account with the given extensions
+ *
+ * @param extensionTypes - Account extensions
+ * @returns Account size in bytes
+ */
+export function calculateAccountLen(extensionTypes: ExtensionTypeLike[]): number {
+  const unique = [...new Set(extensionTypes)];
+  if (unique.length === 0) {
+    return ACCOUNT_SIZE;
+  }
+
+  for (const type of unique) {
+    if (!isAccountExtension(type)) {
+      throw new Error(`${getExtensionName(type)} is not an account extension`);
+    }
+  }
+
+  return getExtendedLength(unique.reduce((total, type) => total + getTlvLength(type, {}), 0));
+}
+
+/**
+ * Get the account extensions every token account of a mint must carry
+ *
+ * @param mintExtensionTypes - Extensions present on the mint
+ * @returns Required account extensions
+ */
+export function getRequiredAccountExtensions(mintExtensionTypes: ExtensionTypeLike[]): TokenExtensionType[] {
+  const required: TokenExtensionType[] = [];
+  for (const type of mintExtensionTypes) {
+    const accountExtension = getExtensionInfo(type)?.accountExtension;
+    if (accountExtension !== undefined && !required.includes(accountExtension)) {
+      required.push(accountExtension);
+    }
+  }
+  return required;
+}
+
+interface IncompatibleExtensionRule {
+  pair: [TokenExtensionType, TokenExtensionType];
+  /** Extension that makes the pair compatible when the mint has it too */
+  allowedWith?: TokenExtensionType;
+}
+
+// Extension pairs Token-2022 refuses on the same mint
+const INCOMPATIBLE_EXTENSIONS: IncompatibleExtensionRule[] = [
+  { pair: [TokenExtensionType.NonTransferable, TokenExtensionType.TransferFeeConfig] },
+  { pair: [TokenExtensionType.NonTransferable, TokenExtensionType.TransferHook] },
+  { pair: [TokenExtensionType.NonTransferable, TokenExtensionType.ConfidentialTransferMint] },
+  {
+    pair: [TokenExtensionType.ConfidentialTransferMint, TokenExtensionType.TransferFeeConfig],
+    allowedWith: TokenExtensionType.ConfidentialTransferFeeConfig,
+  },
+  { pair: [TokenExtensionType.ConfidentialTransferMint, TokenExtensionType.TransferHook] },
+  { pair: [TokenExtensionType.ConfidentialTransferMint, TokenExtensionType.PermanentDelegate] },
+  { pair: [TokenExtensionType.ScaledUiAmount, TokenExtensionType.InterestBearingConfig] },
+];
+
+/**
+ * Find the extension pairs Token-2022 refuses on the same mint
+ *
+ * @param extensionTypes - Mint extensions
+ * @returns Incompatible pairs, empty if the extensions can be combined
+ */
+export function getIncompatibleExtensions(
+  extensionTypes: ExtensionTypeLike[]
+): [TokenExtensionType, TokenExtensionType][] {
+  const types = extensionTypes.map(Number);
+  return INCOMPATIBLE_EXTENSIONS.filter(
+    ({ pair: [a, b], allowedWith }) =>
+      types.includes(a) && types.includes(b) && (allowedWith === undefined || !types.includes(allowedWith))
+  ).map(({ pair }) => pair);
+}
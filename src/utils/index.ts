@@ -2,6 +2,12 @@ export * from './token-account';
 export * from './helpers';
 export * from './constants';
 export * from './extension-helpers';
+export * from './extension-decoder';
+export * from './extension-registry';
 export * from './token-builder';
 export * from './token-account-builder';
-export * from './metadata-helper'; 
\ No newline at end of file
+export * from './metadata-helper';
+export * from './mint-inspector';
+export * from './account-inspector';
+export * from './multisig';
+export * from './token-manifest';
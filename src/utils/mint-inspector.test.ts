@@ -0,0 +1,120 @@
+import { Keypair, PublicKey } from "@solana/web3.js";
+import { MINT_SIZE, MintLayout, TOKEN_PROGRAM_ID } from "@solana/spl-token";
+import { pack } from "@solana/spl-token-metadata";
+import { TokenExtensionType } from "./extension-registry";
+import { inspectMint, parseMintSnapshot } from "./mint-inspector";
+
+const address = Keypair.generate().publicKey;
+const mintAuthority = Keypair.generate().publicKey;
+const closeAuthority = Keypair.generate().publicKey;
+
+function tlv(type: number, data: Buffer): Buffer {
+  const header = Buffer.alloc(4);
+  header.writeUInt16LE(type, 0);
+  header.writeUInt16LE(data.length, 2);
+  return Buffer.concat([header, data]);
+}
+
+function baseMint(): Buffer {
+  const data = Buffer.alloc(MINT_SIZE);
+  MintLayout.encode(
+    {
+      mintAuthorityOption: 1,
+      mintAuthority,
+      supply: BigInt(1_000_000),
+      decimals: 6,
+      isInitialized: true,
+      freezeAuthorityOption: 0,
+      freezeAuthority: PublicKey.default,
+    },
+    data
+  );
+  return data;
+}
+
+function mintData(...extensions: Buffer[]): Buffer {
+  // Extensions follow the base mint padded to the token account size, then the account type
+  return Buffer.concat([baseMint(), Buffer.alloc(165 - MINT_SIZE), Buffer.from([1]), ...extensions]);
+}
+
+describe("parseMintSnapshot", () => {
+  it("decodes the base mint and its extensions", () => {
+    const metadataPointer = Buffer.concat([mintAuthority.toBuffer(), address.toBuffer()]);
+    const metadata = pack({
+      updateAuthority: mintAuthority,
+      mint: address,
+      name: "Example",
+      symbol: "EXM",
+      uri: "https://example.com/token.json",
+      additionalMetadata: [["tier", "gold"]],
+    });
+    const snapshot = parseMintSnapshot(
+      address,
+      mintData(
+        tlv(TokenExtensionType.MintCloseAuthority, closeAuthority.toBuffer()),
+        tlv(TokenExtensionType.MetadataPointer, metadataPointer),
+        tlv(TokenExtensionType.TokenMetadata, Buffer.from(metadata))
+      )
+    );
+
+    expect(snapshot.supply).toBe(BigInt(1_000_000));
+    expect(snapshot.decimals).toBe(6);
+    expect(snapshot.extensions.map((extension) => extension.type)).toEqual([
+      TokenExtensionType.MintCloseAuthority,
+      TokenExtensionType.MetadataPointer,
+      TokenExtensionType.TokenMetadata,
+    ]);
+    expect(snapshot.metadata?.name).toBe("Example");
+    expect(snapshot.metadata?.additionalMetadata).toEqual([["tier", "gold"]]);
+    expect(snapshot.authorities).toEqual({
+      mintAuthority,
+      freezeAuthority: null,
+      closeAuthority,
+      metadataPointerAuthority: mintAuthority,
+      metadataUpdateAuthority: mintAuthority,
+    });
+    expect(snapshot.flags).toEqual({
+      transferable: true,
+      mintable: true,
+      freezable: false,
+      closable: true,
+      hasFees: false,
+      hasTransferHook: false,
+    });
+  });
+
+  it("flags non-transferable and paused mints as not transferable", () => {
+    expect(
+      parseMintSnapshot(address, mintData(tlv(TokenExtensionType.NonTransferable, Buffer.alloc(0)))).flags.transferable
+    ).toBe(false);
+
+    const pausable = Buffer.concat([mintAuthority.toBuffer(), Buffer.from([1])]);
+    const paused = parseMintSnapshot(address, mintData(tlv(TokenExtensionType.Pausable, pausable)));
+    expect(paused.flags.transferable).toBe(false);
+    expect(paused.authorities.pauseAuthority).toEqual(mintAuthority);
+  });
+
+  it("decodes mints of the original token program", () => {
+    const snapshot = parseMintSnapshot(address, {
+      data: baseMint(),
+      owner: TOKEN_PROGRAM_ID,
+      lamports: 1,
+      executable: false,
+    });
+
+    expect(snapshot.programId.equals(TOKEN_PROGRAM_ID)).toBe(true);
+    expect(snapshot.extensions).toEqual([]);
+  });
+
+  it("rejects data that is not a mint", () => {
+    expect(() => parseMintSnapshot(address, Buffer.alloc(40))).toThrow(`Could not decode mint ${address.toBase58()}`);
+  });
+});
+
+describe("inspectMint", () => {
+  it("inspects raw data without a connection", async () => {
+    const snapshot = await inspectMint(mintData(), address);
+    expect(snapshot.address.equals(address)).toBe(true);
+    expect(snapshot.flags.mintable).toBe(true);
+  });
+});
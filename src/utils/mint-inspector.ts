@@ -0,0 +1,232 @@
+import { AccountInfo, Commitment, Connection, PublicKey } from "@solana/web3.js";
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID, unpackMint } from "@solana/spl-token";
+import { TokenMetadata } from "@solana/spl-token-metadata";
+import { DecodedExtension, ExtensionStateMap, decodeMintExtensions, getExtensionState } from "./extension-decoder";
+import { TokenExtensionType } from "./extension-registry";
+
+/**
+ * Decoded state of each extension present on a mint, keyed by discriminator
+ */
+export type ExtensionStates = {
+  [K in keyof ExtensionStateMap]?: ExtensionStateMap[K];
+};
+
+/**
+ * Authorities of a mint grouped by type
+ *
+ * A key is only set when the mint carries the extension owning that authority;
+ * null means the authority was renounced.
+ */
+export interface MintAuthorities {
+  mintAuthority: PublicKey | null;
+  freezeAuthority: PublicKey | null;
+  closeAuthority?: PublicKey | null;
+  transferFeeConfigAuthority?: PublicKey | null;
+  withdrawWithheldAuthority?: PublicKey | null;
+  interestRateAuthority?: PublicKey | null;
+  permanentDelegate?: PublicKey | null;
+  confidentialTransferAuthority?: PublicKey | null;
+  confidentialTransferFeeAuthority?: PublicKey | null;
+  transferHookAuthority?: PublicKey | null;
+  metadataPointerAuthority?: PublicKey | null;
+  metadataUpdateAuthority?: PublicKey | null;
+  groupPointerAuthority?: PublicKey | null;
+  groupUpdateAuthority?: PublicKey | null;
+  groupMemberPointerAuthority?: PublicKey | null;
+  scaledUiAmountAuthority?: PublicKey | null;
+  pauseAuthority?: PublicKey | null;
+}
+
+/**
+ * Properties derived from the base mint and its extensions
+ */
+export interface MintFlags {
+  /** Tokens can move between accounts: not NonTransferable and not paused */
+  transferable: boolean;
+  /** New tokens can still be minted */
+  mintable: boolean;
+  /** Accounts can be frozen */
+  freezable: boolean;
+  /** The mint account can be closed once the supply is zero */
+  closable: boolean;
+  /** Transfers may withhold a fee */
+  hasFees: boolean;
+  /** Transfers invoke a hook program */
+  hasTransferHook: boolean;
+}
+
+/**
+ * Typed snapshot of a mint and all its extension state
+ */
+export interface MintSnapshot {
+  address: PublicKey;
+  programId: PublicKey;
+  supply: bigint;
+  decimals: number;
+  isInitialized: boolean;
+  mintAuthority: PublicKey | null;
+  freezeAuthority: PublicKey | null;
+  /** Extensions in on-chain order */
+  extensions: DecodedExtension[];
+  states: ExtensionStates;
+  authorities: MintAuthorities;
+  /** Metadata stored in the mint itself, null when held elsewhere or absent */
+  metadata: TokenMetadata | null;
+  flags: MintFlags;
+}
+
+/**
+ * Group the authorities of a mint by type
+ * @param mintAuthority - Mint authority of the base mint
+ * @param freezeAuthority - Freeze authority of the base mint
+ * @param states - Decoded extension states
+ * @returns Authorities of the base mint and of every extension present
+ */
+export function getMintAuthorities(
+  mintAuthority: PublicKey | null,
+  freezeAuthority: PublicKey | null,
+  states: ExtensionStates
+): MintAuthorities {
+  const authorities: MintAuthorities = { mintAuthority, freezeAuthority };
+  const transferFeeConfig = states[TokenExtensionType.TransferFeeConfig];
+  const metadata = states[TokenExtensionType.TokenMetadata];
+
+  if (states[TokenExtensionType.MintCloseAuthority]) {
+    authorities.closeAuthority = states[TokenExtensionType.MintCloseAuthority].closeAuthority;
+  }
+  if (transferFeeConfig) {
+    authorities.transferFeeConfigAuthority = transferFeeConfig.transferFeeConfigAuthority;
+    authorities.withdrawWithheldAuthority = transferFeeConfig.withdrawWithheldAuthority;
+  }
+  if (states[TokenExtensionType.InterestBearingConfig]) {
+    authorities.interestRateAuthority = states[TokenExtensionType.InterestBearingConfig].rateAuthority;
+  }
+  if (states[TokenExtensionType.PermanentDelegate]) {
+    authorities.permanentDelegate = states[TokenExtensionType.PermanentDelegate].delegate;
+  }
+  if (states[TokenExtensionType.ConfidentialTransferMint]) {
+    authorities.confidentialTransferAuthority = states[TokenExtensionType.ConfidentialTransferMint].authority;
+  }
+  if (states[TokenExtensionType.ConfidentialTransferFeeConfig]) {
+    authorities.confidentialTransferFeeAuthority = states[TokenExtensionType.ConfidentialTransferFeeConfig].authority;
+  }
+  if (states[TokenExtensionType.TransferHook]) {
+    authorities.transferHookAuthority = states[TokenExtensionType.TransferHook].authority;
+  }
+  if (states[TokenExtensionType.MetadataPointer]) {
+    authorities.metadataPointerAuthority = states[TokenExtensionType.MetadataPointer].authority;
+  }
+  if (metadata) {
+    // The metadata interface also uses the zero key for "no authority"
+    authorities.metadataUpdateAuthority =
+      metadata.updateAuthority && !metadata.updateAuthority.equals(PublicKey.default)
+        ? metadata.updateAuthority
+        : null;
+  }
+  if (states[TokenExtensionType.GroupPointer]) {
+    authorities.groupPointerAuthority = states[TokenExtensionType.GroupPointer].authority;
+  }
+  if (states[TokenExtensionType.TokenGroup]) {
+    authorities.groupUpdateAuthority = states[TokenExtensionType.TokenGroup].updateAuthority;
+  }
+  if (states[TokenExtensionType.GroupMemberPointer]) {
+    authorities.groupMemberPointerAuthority = states[TokenExtensionType.GroupMemberPointer].authority;
+  }
+  if (states[TokenExtensionType.ScaledUiAmount]) {
+    authorities.scaledUiAmountAuthority = states[TokenExtensionType.ScaledUiAmount].authority;
+  }
+  if (states[TokenExtensionType.Pausable]) {
+    authorities.pauseAuthority = states[TokenExtensionType.Pausable].authority;
+  }
+
+  return authorities;
+}
+
+/**
+ * Decode a mint account into a snapshot without any RPC call
+ *
+ * Raw data is assumed to belong to the Token Extension Program.
+ *
+ * @param address - Mint address
+ * @param account - Account info as returned by getAccountInfo, or the raw account data
+ * @returns Mint snapshot
+ */
+export function parseMintSnapshot(address: PublicKey, account: AccountInfo<Buffer> | Buffer): MintSnapshot {
+  const info: AccountInfo<Buffer> = Buffer.isBuffer(account)
+    ? { data: account, owner: TOKEN_2022_PROGRAM_ID, lamports: 0, executable: false }
+    : account;
+  const programId = info.owner.equals(TOKEN_PROGRAM_ID) ? TOKEN_PROGRAM_ID : TOKEN_2022_PROGRAM_ID;
+
+  let mint;
+  try {
+    mint = unpackMint(address, info, programId);
+  } catch (error: any) {
+    throw new Error(`Could not decode mint ${address.toBase58()}: ${error.message || error.name}`);
+  }
+
+  const extensions = decodeMintExtensions(mint);
+  const states: ExtensionStates = {};
+  for (const extension of extensions) {
+    if (extension.state !== null) {
+      (states as Record<number, unknown>)[extension.type] = extension.state;
+    }
+  }
+
+  const closeAuthority = getExtensionState(extensions, TokenExtensionType.MintCloseAuthority);
+  const transferHook = getExtensionState(extensions, TokenExtensionType.TransferHook);
+  const pausable = getExtensionState(extensions, TokenExtensionType.Pausable);
+  const nonTransferable = extensions.some((entry) => entry.type === TokenExtensionType.NonTransferable);
+
+  return {
+    address,
+    programId,
+    supply: mint.supply,
+    decimals: mint.decimals,
+    isInitialized: mint.isInitialized,
+    mintAuthority: mint.mintAuthority,
+    freezeAuthority: mint.freezeAuthority,
+    extensions,
+    states,
+    authorities: getMintAuthorities(mint.mintAuthority, mint.freezeAuthority, states),
+    metadata: states[TokenExtensionType.TokenMetadata] ?? null,
+    flags: {
+      transferable: !nonTransferable && !(pausable?.paused ?? false),
+      mintable: mint.mintAuthority !== null,
+      freezable: mint.freezeAuthority !== null,
+      closable: closeAuthority?.closeAuthority != null,
+      hasFees: states[TokenExtensionType.TransferFeeConfig] !== undefined,
+      hasTransferHook: transferHook?.programId != null,
+    },
+  };
+}
+
+/**
+ * Read a mint and all its extension state with a single RPC call
+ *
+ * Pass the account info or raw data instead of a connection to inspect a fixture offline.
+ *
+ * @param source - Connection to Solana cluster, or the mint account itself
+ * @param mint - Mint address
+ * @param commitment - Commitment level, used when fetching
+ * @returns Mint snapshot
+ */
+export async function inspectMint(
+  source: Connection | AccountInfo<Buffer> | Buffer,
+  mint: PublicKey,
+  commitment: Commitment = "confirmed"
+): Promise<MintSnapshot> {
+  if (!(source instanceof Connection)) {
+    return parseMintSnapshot(mint, source);
+  }
+
+  let info: AccountInfo<Buffer> | null;
+  try {
+    info = await source.getAccountInfo(mint, commitment);
+  } catch (error: any) {
+    throw new Error(`Could not fetch mint ${mint.toBase58()}: ${error.message}`);
+  }
+  if (!info) {
+    throw new Error(`Mint ${mint.toBase58()} not found`);
+  }
+  return parseMintSnapshot(mint, info);
+}
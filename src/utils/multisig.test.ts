@@ -0,0 +1,130 @@
+import { AccountInfo, Connection, Keypair, PublicKey } from "@solana/web3.js";
+import { MULTISIG_SIZE, MultisigLayout, TOKEN_2022_PROGRAM_ID, TokenInstruction } from "@solana/spl-token";
+import {
+  MAX_MULTISIG_SIGNERS,
+  createInitializeMultisig2Instruction,
+  createMultisigInstructions,
+  getAuthorityKeys,
+  getMultisigInfo,
+  isMultisig,
+} from "./multisig";
+
+const authority = Keypair.generate().publicKey;
+const members = [Keypair.generate().publicKey, Keypair.generate().publicKey, Keypair.generate().publicKey];
+
+function connectionWith(info: AccountInfo<Buffer> | null): Connection {
+  return {
+    getAccountInfo: async () => info,
+    getMinimumBalanceForRentExemption: async (size: number) => size * 10,
+  } as unknown as Connection;
+}
+
+function multisigAccount(m: number, signers: PublicKey[], isInitialized = true): AccountInfo<Buffer> {
+  const data = Buffer.alloc(MULTISIG_SIZE);
+  const padded = [...signers, ...Array(MAX_MULTISIG_SIGNERS - signers.length).fill(PublicKey.default)];
+  MultisigLayout.encode(
+    {
+      m,
+      n: signers.length,
+      isInitialized,
+      signer1: padded[0],
+      signer2: padded[1],
+      signer3: padded[2],
+      signer4: padded[3],
+      signer5: padded[4],
+      signer6: padded[5],
+      signer7: padded[6],
+      signer8: padded[7],
+      signer9: padded[8],
+      signer10: padded[9],
+      signer11: padded[10],
+    },
+    data
+  );
+  return { data, owner: TOKEN_2022_PROGRAM_ID, lamports: 1, executable: false };
+}
+
+describe("getAuthorityKeys", () => {
+  it("makes a single authority sign", () => {
+    expect(getAuthorityKeys(authority)).toEqual([{ pubkey: authority, isSigner: true, isWritable: false }]);
+  });
+
+  it("passes a multisig read-only followed by its signing members", () => {
+    const signer = Keypair.generate();
+    expect(getAuthorityKeys(authority, [signer, members[0]])).toEqual([
+      { pubkey: authority, isSigner: false, isWritable: false },
+      { pubkey: signer.publicKey, isSigner: true, isWritable: false },
+      { pubkey: members[0], isSigner: true, isWritable: false },
+    ]);
+  });
+});
+
+describe("createInitializeMultisig2Instruction", () => {
+  it("encodes the threshold and the members", () => {
+    const instruction = createInitializeMultisig2Instruction(authority, members, 2);
+
+    expect(instruction.data).toEqual(Buffer.from([TokenInstruction.InitializeMultisig2, 2]));
+    expect(instruction.keys.map((key) => key.pubkey)).toEqual([authority, ...members]);
+    expect(instruction.keys[0].isWritable).toBe(true);
+  });
+
+  it("rejects thresholds outside 1 to the number of members", () => {
+    expect(() => createInitializeMultisig2Instruction(authority, members, 0)).toThrow(
+      "Required signatures must be between 1 and 3, got 0"
+    );
+    expect(() => createInitializeMultisig2Instruction(authority, members, 4)).toThrow(
+      "Required signatures must be between 1 and 3, got 4"
+    );
+    expect(() => createInitializeMultisig2Instruction(authority, members, 1.5)).toThrow("got 1.5");
+  });
+
+  it("rejects more members than a multisig holds", () => {
+    const tooMany = Array.from({ length: MAX_MULTISIG_SIGNERS + 1 }, () => Keypair.generate().publicKey);
+    expect(() => createInitializeMultisig2Instruction(authority, tooMany, 1)).toThrow(
+      "A multisig needs between 1 and 11 signers, got 12"
+    );
+    expect(() => createInitializeMultisig2Instruction(authority, [], 1)).toThrow("got 0");
+  });
+});
+
+describe("createMultisigInstructions", () => {
+  it("allocates and initializes the multisig", async () => {
+    const { instructions, signers, multisig } = await createMultisigInstructions(connectionWith(null), authority, members, 2);
+
+    expect(signers.map((signer) => signer.publicKey)).toEqual([multisig]);
+    expect(instructions).toHaveLength(2);
+    expect(instructions[1].keys[0].pubkey.equals(multisig)).toBe(true);
+  });
+
+  it("checks the threshold before fetching rent", async () => {
+    await expect(createMultisigInstructions(connectionWith(null), authority, members, 5)).rejects.toThrow(
+      "Required signatures must be between 1 and 3, got 5"
+    );
+  });
+});
+
+describe("getMultisigInfo", () => {
+  it("decodes the threshold and the valid members", async () => {
+    const info = await getMultisigInfo(connectionWith(multisigAccount(2, members)), authority);
+
+    expect(info).toEqual({ address: authority, m: 2, n: 3, isInitialized: true, signers: members });
+  });
+
+  it("returns null for accounts that are not multisigs", async () => {
+    expect(await getMultisigInfo(connectionWith(null), authority)).toBeNull();
+
+    const wrongOwner = { ...multisigAccount(1, members), owner: Keypair.generate().publicKey };
+    expect(await getMultisigInfo(connectionWith(wrongOwner), authority)).toBeNull();
+
+    const mintSized = { ...multisigAccount(1, members), data: Buffer.alloc(82) };
+    expect(await getMultisigInfo(connectionWith(mintSized), authority)).toBeNull();
+  });
+});
+
+describe("isMultisig", () => {
+  it("only accepts initialized multisigs", async () => {
+    expect(await isMultisig(connectionWith(multisigAccount(1, members)), authority)).toBe(true);
+    expect(await isMultisig(connectionWith(multisigAccount(1, members, false)), authority)).toBe(false);
+    expect(await isMultisig(connectionWith(null), authority)).toBe(false);
+  });
+});
@@ -0,0 +1,191 @@
+import {
+  AccountMeta,
+  Commitment,
+  Connection,
+  Keypair,
+  PublicKey,
+  Signer,
+  SystemProgram,
+  TransactionInstruction,
+} from "@solana/web3.js";
+import { MULTISIG_SIZE, TOKEN_2022_PROGRAM_ID, TokenInstruction, unpackMultisig } from "@solana/spl-token";
+
+/**
+ * Largest number of signers a multisig account can hold
+ */
+export const MAX_MULTISIG_SIGNERS = 11;
+
+/**
+ * Decoded multisig account
+ */
+export interface MultisigInfo {
+  address: PublicKey;
+  /** Number of signers required */
+  m: number;
+  /** Number of valid signers */
+  n: number;
+  isInitialized: boolean;
+  signers: PublicKey[];
+}
+
+/**
+ * Build the authority keys of an instruction
+ *
+ * A single authority signs itself; a multisig authority is passed read-only, followed by its signing members.
+ *
+ * @param authority - Authority or multisig address
+ * @param multiSigners - Signers if the authority is a multisig
+ * @returns Account metas of the authority and its signers
+ */
+export function getAuthorityKeys(authority: PublicKey, multiSigners: (Signer | PublicKey)[] = []): AccountMeta[] {
+  return [
+    { pubkey: authority, isSigner: multiSigners.length === 0, isWritable: false },
+    ...multiSigners.map((signer) => ({
+      pubkey: signer instanceof PublicKey ? signer : signer.publicKey,
+      isSigner: true,
+      isWritable: false,
+    })),
+  ];
+}
+
+function validateThreshold(signerCount: number, m: number): void {
+  if (signerCount < 1 || signerCount > MAX_MULTISIG_SIGNERS) {
+    throw new Error(`A multisig needs between 1 and ${MAX_MULTISIG_SIGNERS} signers, got ${signerCount}`);
+  }
+  if (!Number.isInteger(m) || m < 1 || m > signerCount) {
+    throw new Error(`Required signatures must be between 1 and ${signerCount}, got ${m}`);
+  }
+}
+
+/**
+ * Create an InitializeMultisig2 instruction
+ *
+ * Unlike InitializeMultisig, it does not need the Rent sysvar.
+ *
+ * @param multisig - Multisig account, already allocated with MULTISIG_SIZE bytes
+ * @param signers - Members of the multisig
+ * @param m - Number of signatures required
+ * @param programId - Token program ID
+ * @returns Instruction to initialize the multisig
+ */
+export function createInitializeMultisig2Instruction(
+  multisig: PublicKey,
+  signers: PublicKey[],
+  m: number,
+  programId = TOKEN_2022_PROGRAM_ID
+): TransactionInstruction {
+  validateThreshold(signers.length, m);
+
+  return new TransactionInstruction({
+    keys: [
+      { pubkey: multisig, isSigner: false, isWritable: true },
+      ...signers.map((pubkey) => ({ pubkey, isSigner: false, isWritable: false })),
+    ],
+    programId,
+    data: Buffer.from([TokenInstruction.InitializeMultisig2, m]),
+  });
+}
+
+/**
+ * Create instructions to create an m-of-n multisig account
+ *
+ * @param connection - Connection to Solana cluster
+ * @param payer - Public key of the fee payer
+ * @param signers - Members of the multisig
+ * @param m - Number of signatures required
+ * @param programId - Token program ID
+ * @returns Instructions, signers, and multisig address
+ */
+export async function createMultisigInstructions(
+  connection: Connection,
+  payer: PublicKey,
+  signers: PublicKey[],
+  m: number,
+  programId = TOKEN_2022_PROGRAM_ID
+): Promise<{
+  instructions: TransactionInstruction[];
+  signers: Keypair[];
+  multisig: PublicKey;
+}> {
+  validateThreshold(signers.length, m);
+
+  try {
+    const multisigKeypair = Keypair.generate();
+    const multisig = multisigKeypair.publicKey;
+    const lamports = await connection.getMinimumBalanceForRentExemption(MULTISIG_SIZE);
+
+    return {
+      instructions: [
+        SystemProgram.createAccount({
+          fromPubkey: payer,
+          newAccountPubkey: multisig,
+          space: MULTISIG_SIZE,
+          lamports,
+          programId,
+        }),
+        createInitializeMultisig2Instruction(multisig, signers, m, programId),
+      ],
+      signers: [multisigKeypair],
+      multisig,
+    };
+  } catch (error: any) {
+    throw new Error(`Could not create multisig instructions: ${error.message}`);
+  }
+}
+
+/**
+ * Read a multisig account
+ *
+ * @param connection - Connection to Solana cluster
+ * @param multisig - Multisig address
+ * @param commitment - Commitment level
+ * @param programId - Token program ID
+ * @returns Threshold and members, null if the address is not a multisig account
+ */
+export async function getMultisigInfo(
+  connection: Connection,
+  multisig: PublicKey,
+  commitment: Commitment = "confirmed",
+  programId = TOKEN_2022_PROGRAM_ID
+): Promise<MultisigInfo | null> {
+  let info;
+  try {
+    info = await connection.getAccountInfo(multisig, commitment);
+  } catch (error: any) {
+    throw new Error(`Could not fetch multisig ${multisig.toBase58()}: ${error.message}`);
+  }
+  if (!info || !info.owner.equals(programId) || info.data.length !== MULTISIG_SIZE) {
+    return null;
+  }
+
+  const decoded = unpackMultisig(multisig, info, programId);
+  const members = [
+    decoded.signer1, decoded.signer2, decoded.signer3, decoded.signer4,
+    decoded.signer5, decoded.signer6, decoded.signer7, decoded.signer8,
+    decoded.signer9, decoded.signer10, decoded.signer11,
+  ];
+  return {
+    address: multisig,
+    m: decoded.m,
+    n: decoded.n,
+    isInitialized: decoded.isInitialized,
+    signers: members.slice(0, decoded.n),
+  };
+}
+
+/**
+ * Check whether an authority is a multisig account
+ *
+ * @param connection - Connection to Solana cluster
+ * @param authority - Authority address
+ * @param programId - Token program ID
+ * @returns true if the authority is an initialized multisig
+ */
+export async function isMultisig(
+  connection: Connection,
+  authority: PublicKey,
+  programId = TOKEN_2022_PROGRAM_ID
+): Promise<boolean> {
+  const info = await getMultisigInfo(connection, authority, "confirmed", programId);
+  return info?.isInitialized ?? false;
+}
@@ -12,14 +12,47 @@ import {
   ExtensionType,
   TOKEN_2022_PROGRAM_ID,
   createInitializeAccountInstruction,
-  getAccountLen,
   createInitializeImmutableOwnerInstruction,
   createAssociatedTokenAccountInstruction,
   ASSOCIATED_TOKEN_PROGRAM_ID,
   getAssociatedTokenAddressSync,
   createInitializeDefaultAccountStateInstruction,
+  createEnableCpiGuardInstruction,
+  createEnableRequiredMemoTransfersInstruction,
+  createReallocateInstruction,
+  getMint,
+  unpackAccount,
   AccountState
 } from "@solana/spl-token";
+import { decodeAccountExtensions, decodeMintExtensions } from "./extension-decoder";
+import {
+  ExtensionTypeLike,
+  TokenExtensionType,
+  calculateAccountLen,
+  getExtensionInfo,
+  getExtensionName,
+  getRequiredAccountExtensions,
+  isAccountExtension
+} from "./extension-registry";
+
+/**
+ * Map a reallocatable account extension to the discriminator expected by createReallocateInstruction
+ *
+ * @param type - Account extension discriminator
+ * @returns Extension type of @solana/spl-token
+ */
+function toReallocateExtensionType(type: ExtensionTypeLike): ExtensionType {
+  switch (type) {
+    case TokenExtensionType.ConfidentialTransferAccount:
+      return ExtensionType.ConfidentialTransferAccount;
+    case TokenExtensionType.MemoTransfer:
+      return ExtensionType.MemoTransfer;
+    case TokenExtensionType.CpiGuard:
+      return ExtensionType.CpiGuard;
+    default:
+      throw new Error(`${getExtensionName(type)} cannot be added to an existing token account`);
+  }
+}
 
 /**
  * TokenAccountBuilder - Helper class for creating token accounts with extensions
@@ -78,6 +111,30 @@ export class TokenAccountBuilder {
     return this;
   }
   
+  /**
+   * Add CpiGuard extension
+   * CpiGuard stops other programs from moving tokens out of the account through CPI.
+   * It is enabled by the owner, so the owner must sign the transaction.
+   */
+  addCpiGuard(): TokenAccountBuilder {
+    if (!this.extensions.includes(ExtensionType.CpiGuard)) {
+      this.extensions.push(ExtensionType.CpiGuard);
+    }
+    return this;
+  }
+  
+  /**
+   * Add MemoTransfer extension
+   * Incoming transfers must then be preceded by a memo, e.g. for exchange deposit accounts.
+   * It is enabled by the owner, so the owner must sign the transaction.
+   */
+  addRequiredMemoTransfers(): TokenAccountBuilder {
+    if (!this.extensions.includes(ExtensionType.MemoTransfer)) {
+      this.extensions.push(ExtensionType.MemoTransfer);
+    }
+    return this;
+  }
+  
   /**
    * Create instructions for standard (non-associated) token account
    * 
@@ -98,12 +155,17 @@ export class TokenAccountBuilder {
       const tokenAccountKeypair = Keypair.generate();
       const tokenAccount = tokenAccountKeypair.publicKey;
       
-      // 2. Calculate account size and rent
-      const accountLen = getAccountLen(this.extensions);
+      // 2. Calculate account size and rent, including the account extensions the mint requires
+      const mintInfo = await getMint(this.connection, this.mint, "confirmed", TOKEN_2022_PROGRAM_ID);
+      const requiredExtensions = getRequiredAccountExtensions(
+        decodeMintExtensions(mintInfo).map((extension) => extension.type)
+      );
+      const accountLen = calculateAccountLen([
+        ...this.extensions.filter(isAccountExtension),
+        ...requiredExtensions
+      ]);
       const lamports = await this.connection.getMinimumBalanceForRentExemption(accountLen);
       
-      console.log(`Token account size: ${accountLen} bytes`);
-      
       // 3. Create instructions array
       const instructions: TransactionInstruction[] = [];
       
@@ -153,6 +215,29 @@ export class TokenAccountBuilder {
         )
       );
       
+      // CpiGuard can only be enabled on an initialized account
+      if (this.extensions.includes(ExtensionType.CpiGuard)) {
+        instructions.push(
+          createEnableCpiGuardInstruction(
+            tokenAccount,
+            this.owner,
+            [],
+            TOKEN_2022_PROGRAM_ID
+          )
+        );
+      }
+      
+      if (this.extensions.includes(ExtensionType.MemoTransfer)) {
+        instructions.push(
+          createEnableRequiredMemoTransfersInstruction(
+            tokenAccount,
+            this.owner,
+            [],
+            TOKEN_2022_PROGRAM_ID
+          )
+        );
+      }
+      
       return {
         instructions,
         signers: [tokenAccountKeypair],
@@ -168,9 +253,10 @@ export class TokenAccountBuilder {
    * Create standard (non-associated) token account
    * 
    * @param payer - Transaction fee payer
+   * @param owner - Owner keypair, required when the owner must sign (CpiGuard, MemoTransfer) and is not the payer
    * @returns Information about the created token account
    */
-  async buildStandardAccount(payer: Keypair): Promise<{
+  async buildStandardAccount(payer: Keypair, owner?: Keypair): Promise<{
     tokenAccount: PublicKey;
     tokenAccountKeypair: Keypair;
     transactionSignature: string;
@@ -188,7 +274,7 @@ export class TokenAccountBuilder {
       const transactionSignature = await sendAndConfirmTransaction(
         this.connection,
         transaction,
-        [payer, tokenAccountKeypair],
+        owner ? [payer, tokenAccountKeypair, owner] : [payer, tokenAccountKeypair],
         { commitment: 'confirmed' }
       );
       
@@ -246,6 +332,44 @@ export class TokenAccountBuilder {
         )
       ];
       
+      // CpiGuard and MemoTransfer are added after creation: grow the account, then the owner enables them
+      const ownerEnabledExtensions = [ExtensionType.CpiGuard, ExtensionType.MemoTransfer]
+        .filter((extension) => this.extensions.includes(extension));
+      if (ownerEnabledExtensions.length > 0) {
+        instructions.push(
+          createReallocateInstruction(
+            tokenAccount,
+            payer,
+            ownerEnabledExtensions,
+            this.owner,
+            [],
+            TOKEN_2022_PROGRAM_ID
+          )
+        );
+      }
+      
+      if (this.extensions.includes(ExtensionType.CpiGuard)) {
+        instructions.push(
+          createEnableCpiGuardInstruction(
+            tokenAccount,
+            this.owner,
+            [],
+            TOKEN_2022_PROGRAM_ID
+          )
+        );
+      }
+      
+      if (this.extensions.includes(ExtensionType.MemoTransfer)) {
+        instructions.push(
+          createEnableRequiredMemoTransfersInstruction(
+            tokenAccount,
+            this.owner,
+            [],
+            TOKEN_2022_PROGRAM_ID
+          )
+        );
+      }
+      
       return {
         instructions,
         tokenAccount
@@ -262,9 +386,10 @@ export class TokenAccountBuilder {
    * Note: Not all extensions work with ATA
    * 
    * @param payer - Transaction fee payer
+   * @param owner - Owner keypair, required when the owner must sign (CpiGuard, MemoTransfer) and is not the payer
    * @returns Information about the created token account
    */
-  async buildAssociatedAccount(payer: Keypair): Promise<{
+  async buildAssociatedAccount(payer: Keypair, owner?: Keypair): Promise<{
     tokenAccount: PublicKey;
     transactionSignature: string;
   }> {
@@ -276,7 +401,7 @@ export class TokenAccountBuilder {
       const transactionSignature = await sendAndConfirmTransaction(
         this.connection,
         transaction,
-        [payer],
+        owner ? [payer, owner] : [payer],
         { commitment: 'confirmed' }
       );
       
@@ -292,4 +417,97 @@ export class TokenAccountBuilder {
       throw new Error(`Failed to create Associated Token Account: ${errorMessage}`);
     }
   }
-} 
\ No newline at end of file
+  
+  /**
+   * Create instructions to add extensions to an existing token account
+   * 
+   * Reallocate grows the account to the size computed from the registry and the payer tops up
+   * its rent. MemoTransfer and CpiGuard are then enabled by the owner; ConfidentialTransferAccount
+   * only gets its space and must still be configured through ConfidentialTransferToken.
+   * Extensions already on the account are not reallocated again.
+   * 
+   * @param account - Token account address
+   * @param owner - Owner of the token account, must sign
+   * @param extensionTypes - Account extensions to add
+   * @param payer - Public key paying the extra rent, defaults to the owner
+   * @param multiSigners - Signers if the owner is a multisig
+   * @returns Instructions, the new account size and the rent the payer adds
+   */
+  async reallocateAccount(
+    account: PublicKey,
+    owner: PublicKey,
+    extensionTypes: ExtensionTypeLike[],
+    payer: PublicKey = owner,
+    multiSigners: (Signer | PublicKey)[] = []
+  ): Promise<{
+    instructions: TransactionInstruction[];
+    newSize: number;
+    additionalRent: number;
+  }> {
+    for (const type of extensionTypes) {
+      const info = getExtensionInfo(type);
+      if (!info) {
+        throw new Error(`Unknown extension type: ${type}`);
+      }
+      if (info.scope === "mint") {
+        throw new Error(`${info.name} is a mint extension and cannot be added to a token account`);
+      }
+      if (!info.reallocatable) {
+        throw new Error(`${info.name} cannot be added to an existing token account`);
+      }
+    }
+    
+    try {
+      const accountInfo = await this.connection.getAccountInfo(account, "confirmed");
+      if (!accountInfo) {
+        throw new Error("Token account not found");
+      }
+      const tokenAccount = unpackAccount(account, accountInfo, TOKEN_2022_PROGRAM_ID);
+      if (!tokenAccount.owner.equals(owner)) {
+        throw new Error(`Token account is owned by ${tokenAccount.owner.toBase58()}`);
+      }
+      
+      const existing = decodeAccountExtensions(tokenAccount).map((extension) => extension.type);
+      const missing = [...new Set(extensionTypes)].filter((type) => !existing.includes(type));
+      const newSize = missing.length > 0
+        ? calculateAccountLen([...existing, ...missing])
+        : accountInfo.data.length;
+      const rent = await this.connection.getMinimumBalanceForRentExemption(newSize);
+      
+      const instructions: TransactionInstruction[] = [];
+      if (missing.length > 0) {
+        instructions.push(
+          createReallocateInstruction(
+            account,
+            payer,
+            missing.map(toReallocateExtensionType),
+            owner,
+            multiSigners,
+            TOKEN_2022_PROGRAM_ID
+          )
+        );
+      }
+      
+      if (extensionTypes.includes(TokenExtensionType.MemoTransfer)) {
+        instructions.push(
+          createEnableRequiredMemoTransfersInstruction(account, owner, multiSigners, TOKEN_2022_PROGRAM_ID)
+        );
+      }
+      
+      if (extensionTypes.includes(TokenExtensionType.CpiGuard)) {
+        instructions.push(
+          createEnableCpiGuardInstruction(account, owner, multiSigners, TOKEN_2022_PROGRAM_ID)
+        );
+      }
+      
+      return {
+        instructions,
+        newSize,
+        additionalRent: Math.max(0, rent - accountInfo.lamports)
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to create reallocation instructions: ${errorMessage}`);
+    }
+  }
+}
@@ -0,0 +1,182 @@
+import { Connection, Keypair, PublicKey, SystemProgram } from "@solana/web3.js";
+import { AccountState, TOKEN_2022_PROGRAM_ID, TokenInstruction } from "@solana/spl-token";
+import { pack } from "@solana/spl-token-metadata";
+import { TokenExtensionType, calculateMintLen } from "./extension-registry";
+import { TokenBuilder } from "./token-builder";
+
+// Rent is only used to fund the mint account
+const connection = {
+    getMinimumBalanceForRentExemption: async (size: number) => size * 10
+} as unknown as Connection;
+
+const payer = Keypair.generate().publicKey;
+const mintAuthority = Keypair.generate().publicKey;
+
+describe("TokenBuilder.fromManifest", () => {
+    it("keeps the confidential transfer authority and auditor", async () => {
+        const authority = Keypair.generate().publicKey;
+        const auditor = Keypair.generate().publicKey;
+        const builder = TokenBuilder.fromManifest(connection, {
+            version: 1,
+            decimals: 6,
+            authorities: { mint: mintAuthority.toBase58() },
+            extensions: {
+                confidentialTransfer: {
+                    autoApprove: false,
+                    authority: authority.toBase58(),
+                    auditorElGamalPubkey: auditor.toBase58()
+                }
+            }
+        });
+
+        const { instructions } = await builder.planToken(payer);
+        const initialize = instructions.find(
+            instruction => instruction.data[0] === TokenInstruction.ConfidentialTransferExtension
+        );
+        expect(initialize?.data).toEqual(
+            Buffer.concat([
+                Buffer.from([TokenInstruction.ConfidentialTransferExtension, 0]),
+                authority.toBuffer(),
+                Buffer.from([0]),
+                auditor.toBuffer()
+            ])
+        );
+    });
+
+    it("defaults the confidential transfer authority to the mint authority", async () => {
+        const builder = TokenBuilder.fromManifest(connection, {
+            version: 1,
+            decimals: 6,
+            authorities: { mint: mintAuthority.toBase58() },
+            extensions: { confidentialTransfer: { autoApprove: true } }
+        });
+
+        const { instructions } = await builder.planToken(payer);
+        const initialize = instructions.find(
+            instruction => instruction.data[0] === TokenInstruction.ConfidentialTransferExtension
+        );
+        expect(new PublicKey(initialize!.data.subarray(2, 34)).equals(mintAuthority)).toBe(true);
+        expect(initialize!.data.subarray(35).equals(Buffer.alloc(32))).toBe(true);
+    });
+});
+
+describe("TokenBuilder.planToken", () => {
+    it("initializes fixed-size extensions before the mint and metadata after it", async () => {
+        const plan = await new TokenBuilder(connection)
+            .setTokenInfo(6, mintAuthority)
+            .addMetadata("Example", "EXM", "https://example.com/token.json")
+            .addTransferFee(50, BigInt(5000), mintAuthority, null)
+            .addMintCloseAuthority(mintAuthority)
+            .planToken(payer);
+
+        expect(plan.extensions[plan.extensions.length - 1]).toBe(TokenExtensionType.TokenMetadata);
+        const fixedSize = plan.extensions.slice(0, -1);
+        expect([...fixedSize].sort()).toEqual([
+            TokenExtensionType.TransferFeeConfig,
+            TokenExtensionType.MintCloseAuthority,
+            TokenExtensionType.MetadataPointer
+        ].sort());
+
+        const instructionOf: Partial<Record<TokenExtensionType, number>> = {
+            [TokenExtensionType.TransferFeeConfig]: TokenInstruction.TransferFeeExtension,
+            [TokenExtensionType.MintCloseAuthority]: TokenInstruction.InitializeMintCloseAuthority,
+            [TokenExtensionType.MetadataPointer]: TokenInstruction.MetadataPointerExtension
+        };
+        const [createAccount, ...steps] = plan.instructions;
+        expect(createAccount.programId.equals(SystemProgram.programId)).toBe(true);
+        expect(steps.slice(0, 3).map(instruction => instruction.data[0])).toEqual(
+            fixedSize.map(type => instructionOf[type])
+        );
+        expect(steps[3].data[0]).toBe(TokenInstruction.InitializeMint);
+        expect(steps[4].programId.equals(TOKEN_2022_PROGRAM_ID)).toBe(true);
+        expect(steps).toHaveLength(5);
+    });
+
+    it("allocates the fixed-size extensions and funds the size with metadata", async () => {
+        const plan = await new TokenBuilder(connection)
+            .setTokenInfo(6, mintAuthority)
+            .addMetadata("Example", "EXM", "https://example.com/token.json", { tier: "gold" })
+            .addPermanentDelegate(mintAuthority)
+            .planToken(payer);
+
+        const metadataLength = pack({
+            updateAuthority: payer,
+            mint: plan.mint,
+            name: "Example",
+            symbol: "EXM",
+            uri: "https://example.com/token.json",
+            additionalMetadata: [["tier", "gold"]]
+        }).length;
+        expect(plan.space).toBe(calculateMintLen([TokenExtensionType.MetadataPointer, TokenExtensionType.PermanentDelegate]));
+        expect(plan.size).toBe(calculateMintLen(
+            [TokenExtensionType.MetadataPointer, TokenExtensionType.PermanentDelegate, TokenExtensionType.TokenMetadata],
+            { [TokenExtensionType.TokenMetadata]: metadataLength }
+        ));
+        expect(plan.rent).toBe(plan.size * 10);
+
+        // SystemProgram.createAccount: u32 instruction, u64 lamports, u64 space
+        const createAccount = plan.instructions[0].data;
+        expect(Number(createAccount.readBigUInt64LE(4))).toBe(plan.rent);
+        expect(Number(createAccount.readBigUInt64LE(12))).toBe(plan.space);
+        expect(plan.requiredSigners).toEqual([payer, mintAuthority]);
+    });
+
+    it("only needs the payer when nothing is written after InitializeMint", async () => {
+        const plan = await new TokenBuilder(connection)
+            .setTokenInfo(6, mintAuthority)
+            .addNonTransferable()
+            .planToken(payer);
+
+        expect(plan.space).toBe(plan.size);
+        expect(plan.requiredSigners).toEqual([payer]);
+        expect(plan.signers.map(signer => signer.publicKey)).toEqual([plan.mint]);
+    });
+
+    it("rejects extensions configured twice", () => {
+        const builder = new TokenBuilder(connection)
+            .setTokenInfo(6, mintAuthority)
+            .addTransferFee(50, BigInt(5000), null, null)
+            .addMetadata("Example", "EXM", "https://example.com/token.json");
+
+        expect(() => builder.addTransferFee(10, BigInt(1), null, null)).toThrow("TransferFeeConfig is already configured");
+        expect(() => builder.addTokenMetadata("Other", "OTH", "")).toThrow("Metadata is already configured");
+    });
+
+    it("rejects configurations Token-2022 refuses", async () => {
+        const freezeAuthority = Keypair.generate().publicKey;
+
+        await expect(new TokenBuilder(connection).planToken(payer)).rejects.toThrow("Mint authority is required");
+        await expect(
+            new TokenBuilder(connection)
+                .setTokenInfo(6, mintAuthority)
+                .addNonTransferable()
+                .addTransferFee(50, BigInt(5000), null, null)
+                .planToken(payer)
+        ).rejects.toThrow("Incompatible extensions: ");
+        await expect(
+            new TokenBuilder(connection)
+                .setTokenInfo(6, mintAuthority)
+                .addConfidentialTransferFee(null, Keypair.generate().publicKey)
+                .planToken(payer)
+        ).rejects.toThrow("addConfidentialTransferFee needs addTransferFee and addConfidentialTransfer");
+        await expect(
+            new TokenBuilder(connection)
+                .setTokenInfo(6, mintAuthority, freezeAuthority)
+                .addDefaultAccountState(AccountState.Frozen, Keypair.generate().publicKey)
+                .planToken(payer)
+        ).rejects.toThrow("addDefaultAccountState and setTokenInfo set different freeze authorities");
+        await expect(
+            new TokenBuilder(connection)
+                .setTokenInfo(6, mintAuthority)
+                .addDefaultAccountState(AccountState.Frozen)
+                .planToken(payer)
+        ).rejects.toThrow("Accounts that start frozen need a freeze authority to be thawed");
+        await expect(
+            new TokenBuilder(connection)
+                .setTokenInfo(6, mintAuthority, freezeAuthority)
+                .addDefaultAccountState(AccountState.Frozen)
+                .addInitialDistribution(payer, BigInt(1))
+                .planToken(payer)
+        ).rejects.toThrow("Tokens cannot be minted to accounts that start frozen");
+    });
+});
@@ -1,9 +1,7 @@
-import { Connection, Keypair, PublicKey, SystemProgram, Transaction, TransactionInstruction } from "@solana/web3.js";
+import { Commitment, Connection, Keypair, PublicKey, SystemProgram, Transaction, TransactionInstruction } from "@solana/web3.js";
 import {
     AccountState,
-    ExtensionType,
     TOKEN_2022_PROGRAM_ID,
-    getMintLen,
     createInitializeMintInstruction,
     createInitializeMetadataPointerInstruction,
     createInitializeTransferFeeConfigInstruction,
@@ -13,18 +11,48 @@ import {
     createInitializeNonTransferableMintInstruction,
     createInitializeDefaultAccountStateInstruction,
     createInitializeMintCloseAuthorityInstruction,
-    TYPE_SIZE,
-    LENGTH_SIZE
+    createSetAuthorityInstruction,
+    createAssociatedTokenAccountIdempotentInstruction,
+    createMintToInstruction,
+    getAssociatedTokenAddressSync,
+    AuthorityType
 } from "@solana/spl-token";
 import {
+    TokenMetadata,
     createInitializeInstruction,
     createUpdateFieldInstruction,
     pack
 } from "@solana/spl-token-metadata";
+import {
+    ExtraAccountMetaConfig,
+    createExtraAccountMetaListInstructions
+} from "../extensions/transfer-hook/extra-account-metas";
+import {
+    createInitializeConfidentialTransferFeeConfigInstruction,
+    createInitializeConfidentialTransferMintInstruction
+} from "../extensions/confidential-transfer/instructions";
+import {
+    createInitializeGroupPointerInstruction,
+    createInitializeTokenGroupInstruction,
+    createInitializeTokenGroupMemberInstruction
+} from "../extensions/token-groups";
+import { createInitializeMemberPointerInstruction } from "../extensions/member-pointer";
+import { createInitializePausableConfigInstruction } from "../extensions/pausable";
+import { createInitializeScaledUiAmountConfigInstruction } from "../extensions/scaled-ui-amount";
+import {
+    TokenExtensionType,
+    calculateMintLen,
+    getExtensionInfo,
+    getExtensionName,
+    getIncompatibleExtensions
+} from "./extension-registry";
+import { getOptimalInitializationOrder } from "./extension-helpers";
+import { inspectMint } from "./mint-inspector";
+import { TokenManifest, assertValidTokenManifest, mintSnapshotToManifest } from "./token-manifest";
 
 interface ExtensionCompatibilityResult {
     isCompatible: boolean;
-    incompatiblePairs?: [ExtensionType, ExtensionType][];
+    incompatiblePairs?: [TokenExtensionType, TokenExtensionType][];
     reason?: string;
 }
 
@@ -38,8 +66,8 @@ interface MetadataConfig {
 interface TransferFeeConfig {
     feeBasisPoints: number;
     maxFee: bigint;
-    transferFeeConfigAuthority: PublicKey;
-    withdrawWithheldAuthority: PublicKey;
+    transferFeeConfigAuthority: PublicKey | null;
+    withdrawWithheldAuthority: PublicKey | null;
 }
 
 interface InterestBearingConfig {
@@ -49,11 +77,38 @@ interface InterestBearingConfig {
 
 interface TransferHookConfig {
     programId: PublicKey;
-    extraMetas?: PublicKey[];
+    extraMetas: ExtraAccountMetaConfig[];
 }
 
 interface ConfidentialTransferConfig {
     autoEnable: boolean;
+    authority?: PublicKey | null;
+    auditorElGamalPubkey: PublicKey | Uint8Array | null;
+}
+
+interface ConfidentialTransferFeeSettings {
+    authority: PublicKey | null;
+    withdrawWithheldAuthorityElGamalPubkey: PublicKey | Uint8Array;
+}
+
+interface GroupConfig {
+    maxSize: bigint;
+    updateAuthority: PublicKey | null;
+}
+
+interface GroupMemberConfig {
+    group: PublicKey;
+    groupUpdateAuthority: PublicKey;
+}
+
+interface ScaledUiAmountConfig {
+    authority: PublicKey | null;
+    multiplier: number;
+}
+
+interface InitialAllocation {
+    owner: PublicKey;
+    amount: bigint;
 }
 
 /**
@@ -62,36 +117,12 @@ interface ConfidentialTransferConfig {
  * @param extensionTypes Array of extension types to check
  * @returns Compatibility check result
  */
-function checkExtensionCompatibility(extensionTypes: ExtensionType[]): ExtensionCompatibilityResult {
-    const incompatiblePairs: [ExtensionType, ExtensionType][] = [];
-
-    if (extensionTypes.includes(ExtensionType.NonTransferable)) {
-        if (extensionTypes.includes(ExtensionType.TransferFeeConfig)) {
-            incompatiblePairs.push([ExtensionType.NonTransferable, ExtensionType.TransferFeeConfig]);
-        }
-        if (extensionTypes.includes(ExtensionType.TransferHook)) {
-            incompatiblePairs.push([ExtensionType.NonTransferable, ExtensionType.TransferHook]);
-        }
-        if (extensionTypes.includes(ExtensionType.ConfidentialTransferMint)) {
-            incompatiblePairs.push([ExtensionType.NonTransferable, ExtensionType.ConfidentialTransferMint]);
-        }
-    }
-
-    if (extensionTypes.includes(ExtensionType.ConfidentialTransferMint)) {
-        if (extensionTypes.includes(ExtensionType.TransferFeeConfig)) {
-            incompatiblePairs.push([ExtensionType.ConfidentialTransferMint, ExtensionType.TransferFeeConfig]);
-        }
-        if (extensionTypes.includes(ExtensionType.TransferHook)) {
-            incompatiblePairs.push([ExtensionType.ConfidentialTransferMint, ExtensionType.TransferHook]);
-        }
-        if (extensionTypes.includes(ExtensionType.PermanentDelegate)) {
-            incompatiblePairs.push([ExtensionType.ConfidentialTransferMint, ExtensionType.PermanentDelegate]);
-        }
-    }
+function checkExtensionCompatibility(extensionTypes: TokenExtensionType[]): ExtensionCompatibilityResult {
+    const incompatiblePairs = getIncompatibleExtensions(extensionTypes);
 
     if (incompatiblePairs.length > 0) {
         const reasons = incompatiblePairs.map(([a, b]) => 
-            `${ExtensionType[a]} and ${ExtensionType[b]} cannot be used together`
+            `${getExtensionName(a)} and ${getExtensionName(b)} cannot be used together`
         );
         return {
             isCompatible: false,
@@ -103,22 +134,49 @@ function checkExtensionCompatibility(extensionTypes: ExtensionType[]): Extension
     return { isCompatible: true };
 }
 
+/**
+ * Everything needed to create a token, computed before any transaction is built
+ */
+export interface TokenPlan {
+    mint: PublicKey;
+    /** Mint extensions in initialization order */
+    extensions: TokenExtensionType[];
+    /** Bytes allocated when the mint account is created */
+    space: number;
+    /** Size of the mint once its metadata is written */
+    size: number;
+    /** Lamports funding the mint account for its final size */
+    rent: number;
+    instructions: TransactionInstruction[];
+    /** Generated keypairs that sign the transaction */
+    signers: Keypair[];
+    /** Keys that must sign as well: the payer, and the mint authority when it writes after InitializeMint */
+    requiredSigners: PublicKey[];
+}
+
 export class TokenBuilder {
     private connection: Connection;
-    private extensions: ExtensionType[] = [];
+    private extensions: TokenExtensionType[] = [];
     private decimals: number = 9;
     private mintAuthority: PublicKey | null = null;
     private freezeAuthority: PublicKey | null = null;
     
     private metadata?: MetadataConfig;
-    private tokenMetadata?: MetadataConfig;
     private transferFee?: TransferFeeConfig;
     private permanentDelegate?: PublicKey;
     private transferHook?: TransferHookConfig;
     private confidentialTransfer?: ConfidentialTransferConfig;
     private interestBearing?: InterestBearingConfig;
     private defaultAccountState?: AccountState;
+    private defaultAccountStateFreezeAuthority?: PublicKey;
     private mintCloseAuthority?: PublicKey;
+    private confidentialTransferFee?: ConfidentialTransferFeeSettings;
+    private group?: GroupConfig;
+    private groupMember?: GroupMemberConfig;
+    private pausableAuthority?: PublicKey;
+    private scaledUiAmount?: ScaledUiAmountConfig;
+    private multisigMintAuthority?: PublicKey;
+    private distribution: InitialAllocation[] = [];
 
     /**
      * Initialize builder with connection
@@ -154,8 +212,11 @@ export class TokenBuilder {
      * @returns this - for method chaining
      */
     addMetadata(name: string, symbol: string, uri: string, additionalMetadata?: Record<string, string>): TokenBuilder {
+        if (this.metadata) {
+            throw new Error("Metadata is already configured");
+        }
+        this.registerExtension(TokenExtensionType.MetadataPointer);
         this.metadata = { name, symbol, uri, additionalMetadata };
-        this.extensions.push(ExtensionType.MetadataPointer);
         return this;
     }
 
@@ -163,7 +224,7 @@ export class TokenBuilder {
      * Add token metadata extension (embedded metadata)
      *
      * When using this extension, metadata will be stored directly in the mint account
-     * and does not require a separate metadata account
+     * and does not require a separate metadata account. Same as addMetadata, only one of them can be used.
      *
      * @param name - Token name
      * @param symbol - Token symbol
@@ -172,10 +233,7 @@ export class TokenBuilder {
      * @returns this - for method chaining
      */
     addTokenMetadata(name: string, symbol: string, uri: string, additionalMetadata?: Record<string, string>): TokenBuilder {
-        this.tokenMetadata = { name, symbol, uri, additionalMetadata };
-        // Metadata needs MetadataPointer extension
-        this.extensions.push(ExtensionType.MetadataPointer);
-        return this;
+        return this.addMetadata(name, symbol, uri, additionalMetadata);
     }
 
     /**
@@ -183,23 +241,23 @@ export class TokenBuilder {
      *
      * @param feeBasisPoints - Fee in basis points (1% = 100 basis points)
      * @param maxFee - Maximum fee
-     * @param transferFeeConfigAuthority - Account with authority to update fee config
-     * @param withdrawWithheldAuthority - Account with authority to withdraw collected fees
+     * @param transferFeeConfigAuthority - Account with authority to update fee config, null for none
+     * @param withdrawWithheldAuthority - Account with authority to withdraw collected fees, null for none
      * @returns this - for method chaining
      */
     addTransferFee(
         feeBasisPoints: number,
         maxFee: bigint,
-        transferFeeConfigAuthority: PublicKey,
-        withdrawWithheldAuthority: PublicKey
+        transferFeeConfigAuthority: PublicKey | null,
+        withdrawWithheldAuthority: PublicKey | null
     ): TokenBuilder {
+        this.registerExtension(TokenExtensionType.TransferFeeConfig);
         this.transferFee = {
             feeBasisPoints,
             maxFee,
             transferFeeConfigAuthority,
             withdrawWithheldAuthority
         };
-        this.extensions.push(ExtensionType.TransferFeeConfig);
         return this;
     }
 
@@ -210,8 +268,8 @@ export class TokenBuilder {
      * @returns this - for method chaining
      */
     addPermanentDelegate(delegate: PublicKey): TokenBuilder {
+        this.registerExtension(TokenExtensionType.PermanentDelegate);
         this.permanentDelegate = delegate;
-        this.extensions.push(ExtensionType.PermanentDelegate);
         return this;
     }
 
@@ -223,27 +281,30 @@ export class TokenBuilder {
      * @returns this - for method chaining
      */
     addInterestBearing(rate: number, rateAuthority: PublicKey): TokenBuilder {
+        this.registerExtension(TokenExtensionType.InterestBearingConfig);
         this.interestBearing = {
             rate,
             rateAuthority
         };
-        this.extensions.push(ExtensionType.InterestBearingConfig);
         return this;
     }
 
     /**
      * Add transfer hook extension
      *
+     * When extra accounts are given, the created instructions also initialize the
+     * ExtraAccountMetaList through the hook program, which the mint authority must sign.
+     *
      * @param programId - Address of transfer hook program
-     * @param extraMetas - Additional metadata (optional)
+     * @param extraMetas - Extra accounts the hook program needs, plain keys are fixed read-only accounts (optional)
      * @returns this - for method chaining
      */
-    addTransferHook(programId: PublicKey, extraMetas?: PublicKey[]): TokenBuilder {
+    addTransferHook(programId: PublicKey, extraMetas: (ExtraAccountMetaConfig | PublicKey)[] = []): TokenBuilder {
+        this.registerExtension(TokenExtensionType.TransferHook);
         this.transferHook = {
             programId,
-            extraMetas
+            extraMetas: extraMetas.map(meta => meta instanceof PublicKey ? { address: meta } : meta)
         };
-        this.extensions.push(ExtensionType.TransferHook);
         return this;
     }
 
@@ -253,34 +314,45 @@ export class TokenBuilder {
      * @returns this - for method chaining
      */
     addNonTransferable(): TokenBuilder {
-        this.extensions.push(ExtensionType.NonTransferable);
+        this.registerExtension(TokenExtensionType.NonTransferable);
         return this;
     }
 
     /**
      * Add confidential transfer extension
      *
-     * @param autoEnable - Whether to auto-enable confidential transfers
+     * @param autoEnable - Whether new accounts can use confidential transfers without approval
+     * @param authority - Authority approving accounts and updating the configuration, defaults to the mint authority
+     * @param auditorElGamalPubkey - ElGamal public key of the auditor, null for none
      * @returns this - for method chaining
      */
-    addConfidentialTransfer(autoEnable: boolean = false): TokenBuilder {
+    addConfidentialTransfer(
+        autoEnable: boolean = false,
+        authority?: PublicKey | null,
+        auditorElGamalPubkey: PublicKey | Uint8Array | null = null
+    ): TokenBuilder {
+        this.registerExtension(TokenExtensionType.ConfidentialTransferMint);
         this.confidentialTransfer = {
-            autoEnable
+            autoEnable,
+            authority,
+            auditorElGamalPubkey
         };
-        this.extensions.push(ExtensionType.ConfidentialTransferMint);
         return this;
     }
 
     /**
      * Add default account state extension
      *
+     * Frozen accounts need a freeze authority to be thawed, given here or with setTokenInfo.
+     *
      * @param state - Default account state
-     * @param freezeAuthority - Freeze authority (optional)
+     * @param freezeAuthority - Freeze authority of the mint (optional)
      * @returns this - for method chaining
      */
     addDefaultAccountState(state: AccountState, freezeAuthority?: PublicKey): TokenBuilder {
+        this.registerExtension(TokenExtensionType.DefaultAccountState);
         this.defaultAccountState = state;
-        this.extensions.push(ExtensionType.DefaultAccountState);
+        this.defaultAccountStateFreezeAuthority = freezeAuthority;
         return this;
     }
 
@@ -291,224 +363,412 @@ export class TokenBuilder {
      * @returns this - for method chaining
      */
     addMintCloseAuthority(closeAuthority: PublicKey): TokenBuilder {
+        this.registerExtension(TokenExtensionType.MintCloseAuthority);
         this.mintCloseAuthority = closeAuthority;
-        this.extensions.push(ExtensionType.MintCloseAuthority);
         return this;
     }
 
     /**
-     * Create instructions for token with configured extensions
+     * Add confidential transfer fee extension
      *
-     * This method returns instructions instead of executing transaction,
-     * making it easy to integrate with wallet adapter.
+     * Needed to combine confidential transfers with a transfer fee: requires addTransferFee and addConfidentialTransfer.
      *
-     * @param payer - Public key of the transaction fee payer
-     * @returns Promise with instructions, required signers, and mint address
+     * @param authority - Authority that can change the configuration and harvest fees, null for none
+     * @param withdrawWithheldAuthorityElGamalPubkey - ElGamal public key encrypting the withheld fees
+     * @returns this - for method chaining
      */
-    async createTokenInstructions(payer: PublicKey): Promise<{
-        instructions: TransactionInstruction[];
-        signers: Keypair[];
-        mint: PublicKey;
-    }> {
-        const hasMetadata = this.metadata || this.tokenMetadata;
-        const hasOtherExtensions = this.extensions.filter(ext => 
-            ext !== ExtensionType.MetadataPointer
-        ).length > 0;
+    addConfidentialTransferFee(
+        authority: PublicKey | null,
+        withdrawWithheldAuthorityElGamalPubkey: PublicKey | Uint8Array
+    ): TokenBuilder {
+        this.registerExtension(TokenExtensionType.ConfidentialTransferFeeConfig);
+        this.confidentialTransferFee = {
+            authority,
+            withdrawWithheldAuthorityElGamalPubkey
+        };
+        return this;
+    }
 
-        // Check extension compatibility
-        const compatibilityCheck = checkExtensionCompatibility(this.extensions);
-        if (!compatibilityCheck.isCompatible) {
-            throw new Error(`Incompatible extensions: ${compatibilityCheck.reason}`);
-        }
+    /**
+     * Make the token a group that other mints can join
+     *
+     * The mint points to itself with GroupPointer and holds the TokenGroup data,
+     * which the mint authority writes after InitializeMint.
+     *
+     * @param maxSize - Maximum number of members
+     * @param updateAuthority - Authority that adds members and updates the group, null for none
+     * @returns this - for method chaining
+     */
+    addGroup(maxSize: number | bigint, updateAuthority: PublicKey | null): TokenBuilder {
+        this.registerExtension(TokenExtensionType.GroupPointer);
+        this.registerExtension(TokenExtensionType.TokenGroup);
+        this.group = {
+            maxSize: BigInt(maxSize),
+            updateAuthority
+        };
+        return this;
+    }
 
-        if (hasMetadata && hasOtherExtensions) {
-            return this.createTokenWithMetadataAndExtensionsInstructions(payer);
-        } else {
-            return this.createTokenWithExtensionsInstructions(payer);
-        }
+    /**
+     * Make the token a member of an existing group
+     *
+     * The mint points to itself with GroupMemberPointer and holds the TokenGroupMember data.
+     * Both the mint authority and the group update authority sign the membership.
+     *
+     * @param groupMint - Mint holding the TokenGroup data
+     * @param groupUpdateAuthority - Update authority of the group
+     * @returns this - for method chaining
+     */
+    addGroupMember(groupMint: PublicKey, groupUpdateAuthority: PublicKey): TokenBuilder {
+        this.registerExtension(TokenExtensionType.GroupMemberPointer);
+        this.registerExtension(TokenExtensionType.TokenGroupMember);
+        this.groupMember = {
+            group: groupMint,
+            groupUpdateAuthority
+        };
+        return this;
     }
 
     /**
-     * Create instructions for token with multiple extensions - simplified version
+     * Add pausable extension
      *
-     * @param payer - Public key of the transaction fee payer
-     * @returns Promise with instructions, required signers, and mint address
+     * While paused, the mint refuses transfers, mints and burns.
+     *
+     * @param authority - Authority that can pause and resume the mint
+     * @returns this - for method chaining
      */
-    async createTokenWithExtensionsInstructions(payer: PublicKey): Promise<{
-        instructions: TransactionInstruction[];
-        signers: Keypair[];
-        mint: PublicKey;
-    }> {
-        if (!this.mintAuthority) {
-            throw new Error("Mint authority is required");
-        }
+    addPausable(authority: PublicKey): TokenBuilder {
+        this.registerExtension(TokenExtensionType.Pausable);
+        this.pausableAuthority = authority;
+        return this;
+    }
 
-        try {
-            console.log("Creating instructions for token with extensions...");
-            const mintKeypair = Keypair.generate();
-            const mint = mintKeypair.publicKey;
-            console.log(`Mint address: ${mint.toString()}`);
-
-            // If tokenMetadata is provided, use MetadataHelper
-            if (this.tokenMetadata) {
-                console.log("Using MetadataHelper to create token with metadata...");
-                const { MetadataHelper } = require('./metadata-helper');
-                const result = await MetadataHelper.createTokenWithMetadataInstructions(
-                    this.connection,
-                    payer,
-                    {
-                        decimals: this.decimals,
-                        mintAuthority: this.mintAuthority,
-                        name: this.tokenMetadata.name,
-                        symbol: this.tokenMetadata.symbol,
-                        uri: this.tokenMetadata.uri,
-                        additionalMetadata: this.tokenMetadata.additionalMetadata,
-                        extensions: this.extensions
-                    }
-                );
-
-                return {
-                    instructions: result.instructions,
-                    signers: result.signers,
-                    mint: result.mint
-                };
-            }
+    /**
+     * Add scaled UI amount extension
+     *
+     * Wallets display balances multiplied by the multiplier, for stock splits or rebasing assets.
+     *
+     * @param authority - Authority that can update the multiplier, null for none
+     * @param multiplier - Multiplier applied to UI amounts
+     * @returns this - for method chaining
+     */
+    addScaledUiAmount(authority: PublicKey | null, multiplier: number): TokenBuilder {
+        this.registerExtension(TokenExtensionType.ScaledUiAmount);
+        this.scaledUiAmount = {
+            authority,
+            multiplier
+        };
+        return this;
+    }
 
-            console.log("Creating mint with other extensions...");
-            const extensionsToUse = [...this.extensions];
-            const mintLen = getMintLen(extensionsToUse);
-            console.log(`Mint size: ${mintLen} bytes`);
+    /**
+     * Hand the mint authority to a multisig once the token is set up
+     *
+     * Metadata and the ExtraAccountMetaList need a single signing mint authority, so the
+     * authority from setTokenInfo signs the setup and a final SetAuthority moves it to the multisig.
+     * Extension authorities can be multisig addresses directly.
+     *
+     * @param multisig - Multisig account, see createMultisigInstructions
+     * @returns this - for method chaining
+     */
+    setMultisigMintAuthority(multisig: PublicKey): TokenBuilder {
+        this.multisigMintAuthority = multisig;
+        return this;
+    }
 
-            const lamports = await this.connection.getMinimumBalanceForRentExemption(mintLen);
-            const instructions: TransactionInstruction[] = [];
+    /**
+     * Mint tokens to an owner right after the token is created
+     *
+     * The owner's associated token account is created if needed, and the mint authority signs the mint.
+     *
+     * @param owner - Owner receiving the tokens
+     * @param amount - Amount in base units
+     * @returns this - for method chaining
+     */
+    addInitialDistribution(owner: PublicKey, amount: bigint): TokenBuilder {
+        this.distribution.push({ owner, amount });
+        return this;
+    }
 
-            // Create account
-            instructions.push(
-                SystemProgram.createAccount({
-                    fromPubkey: payer,
-                    newAccountPubkey: mint,
-                    space: mintLen,
-                    lamports,
-                    programId: TOKEN_2022_PROGRAM_ID,
-                })
+    /**
+     * Create a builder configured from a manifest
+     *
+     * The manifest is validated first; the error lists the path of every invalid value.
+     *
+     * @param connection - Connection to Solana cluster
+     * @param manifest - Token manifest, typically parsed from JSON or YAML
+     * @returns Configured builder
+     */
+    static fromManifest(connection: Connection, manifest: unknown): TokenBuilder {
+        assertValidTokenManifest(manifest);
+        const key = (address: string | null): PublicKey => {
+            // Unreachable after validation, which refuses null wherever a key is required
+            if (address === null) {
+                throw new Error("Invalid token manifest: a required key is null");
+            }
+            return new PublicKey(address);
+        };
+        const optionalKey = (address: string | null) => address === null ? null : new PublicKey(address);
+
+        const { authorities, metadata, extensions = {}, distribution = [] } = manifest;
+        const builder = new TokenBuilder(connection).setTokenInfo(
+            manifest.decimals,
+            key(authorities.mint),
+            optionalKey(authorities.freeze ?? null)
+        );
+
+        if (metadata) {
+            builder.addTokenMetadata(metadata.name, metadata.symbol, metadata.uri, metadata.additionalMetadata);
+        }
+        if (extensions.transferFee) {
+            const { feeBasisPoints, maxFee, configAuthority, withdrawAuthority } = extensions.transferFee;
+            builder.addTransferFee(feeBasisPoints, BigInt(maxFee), optionalKey(configAuthority), optionalKey(withdrawAuthority));
+        }
+        if (extensions.interestBearing) {
+            builder.addInterestBearing(extensions.interestBearing.rate, key(extensions.interestBearing.rateAuthority));
+        }
+        if (extensions.permanentDelegate) {
+            builder.addPermanentDelegate(key(extensions.permanentDelegate.delegate));
+        }
+        if (extensions.transferHook) {
+            const extraMetas = (extensions.transferHook.extraAccounts || []).map(account =>
+                typeof account === "string"
+                    ? { address: new PublicKey(account) }
+                    : { address: new PublicKey(account.address), isSigner: account.isSigner, isWritable: account.isWritable }
+            );
+            builder.addTransferHook(key(extensions.transferHook.programId), extraMetas);
+        }
+        if (extensions.mintCloseAuthority) {
+            builder.addMintCloseAuthority(key(extensions.mintCloseAuthority.closeAuthority));
+        }
+        if (extensions.defaultAccountState) {
+            builder.addDefaultAccountState(
+                extensions.defaultAccountState.state === "frozen" ? AccountState.Frozen : AccountState.Initialized
+            );
+        }
+        if (extensions.nonTransferable) {
+            builder.addNonTransferable();
+        }
+        if (extensions.confidentialTransfer) {
+            const { autoApprove, authority, auditorElGamalPubkey } = extensions.confidentialTransfer;
+            builder.addConfidentialTransfer(
+                autoApprove,
+                authority === undefined ? undefined : optionalKey(authority),
+                optionalKey(auditorElGamalPubkey ?? null)
+            );
+        }
+        if (extensions.confidentialTransferFee) {
+            const { authority, withdrawWithheldAuthorityElGamalPubkey } = extensions.confidentialTransferFee;
+            builder.addConfidentialTransferFee(optionalKey(authority), key(withdrawWithheldAuthorityElGamalPubkey));
+        }
+        if (extensions.group) {
+            builder.addGroup(BigInt(extensions.group.maxSize), optionalKey(extensions.group.updateAuthority));
+        }
+        if (extensions.groupMember) {
+            builder.addGroupMember(
+                key(extensions.groupMember.group),
+                key(extensions.groupMember.groupUpdateAuthority)
             );
+        }
+        if (extensions.pausable) {
+            builder.addPausable(key(extensions.pausable.authority));
+        }
+        if (extensions.scaledUiAmount) {
+            builder.addScaledUiAmount(
+                optionalKey(extensions.scaledUiAmount.authority),
+                extensions.scaledUiAmount.multiplier
+            );
+        }
+        if (authorities.mintMultisig) {
+            builder.setMultisigMintAuthority(new PublicKey(authorities.mintMultisig));
+        }
+        for (const allocation of distribution) {
+            builder.addInitialDistribution(new PublicKey(allocation.owner), BigInt(allocation.amount));
+        }
 
-            // Add extension instructions
-            if (this.extensions.includes(ExtensionType.NonTransferable)) {
-                console.log("Adding NonTransferable extension...");
-                instructions.push(
-                    createInitializeNonTransferableMintInstruction(
-                        mint,
-                        TOKEN_2022_PROGRAM_ID
-                    )
-                );
-            }
+        return builder;
+    }
 
-            if (this.transferFee) {
-                console.log("Adding TransferFee extension...");
-                instructions.push(
-                    createInitializeTransferFeeConfigInstruction(
-                        mint,
-                        this.transferFee.transferFeeConfigAuthority,
-                        this.transferFee.withdrawWithheldAuthority,
-                        this.transferFee.feeBasisPoints,
-                        this.transferFee.maxFee,
-                        TOKEN_2022_PROGRAM_ID
-                    )
-                );
-            }
+    /**
+     * Describe an existing mint as a manifest, from chain state
+     *
+     * Holders are not read back, so the manifest has no distribution. For a group member,
+     * the group update authority is read from the group mint.
+     *
+     * @param connection - Connection to Solana cluster
+     * @param mint - Mint address
+     * @param commitment - Commitment level
+     * @returns Manifest describing the mint
+     */
+    static async toManifest(
+        connection: Connection,
+        mint: PublicKey,
+        commitment: Commitment = "confirmed"
+    ): Promise<TokenManifest> {
+        const snapshot = await inspectMint(connection, mint, commitment);
+        const member = snapshot.states[TokenExtensionType.TokenGroupMember];
+        if (!member) {
+            return mintSnapshotToManifest(snapshot);
+        }
+        const group = await inspectMint(connection, member.group, commitment);
+        return mintSnapshotToManifest(snapshot, group.states[TokenExtensionType.TokenGroup]?.updateAuthority ?? null);
+    }
 
-            if (this.permanentDelegate) {
-                console.log("Adding PermanentDelegate extension...");
-                instructions.push(
-                    createInitializePermanentDelegateInstruction(
-                        mint,
-                        this.permanentDelegate,
-                        TOKEN_2022_PROGRAM_ID
-                    )
-                );
-            }
+    /**
+     * Compute everything needed to create the token, without building or sending a transaction
+     *
+     * Extensions are initialized in the order given by getOptimalInitializationOrder: fixed-size
+     * extensions before InitializeMint, embedded metadata after it. The account is allocated for the
+     * fixed-size extensions and funded for its final size, since writing the metadata grows it.
+     *
+     * @param payer - Public key of the transaction fee payer
+     * @returns Sizes, rent, ordered instructions and signers
+     */
+    async planToken(payer: PublicKey): Promise<TokenPlan> {
+        const mintAuthority = this.mintAuthority;
+        if (!mintAuthority) {
+            throw new Error("Mint authority is required");
+        }
+        const freezeAuthority = this.resolveFreezeAuthority();
+        this.checkConfiguration(freezeAuthority);
 
-            if (this.interestBearing) {
-                console.log("Adding InterestBearing extension...");
-                instructions.push(
-                    createInitializeInterestBearingMintInstruction(
-                        mint,
-                        this.interestBearing.rateAuthority,
-                        this.interestBearing.rate,
-                        TOKEN_2022_PROGRAM_ID
-                    )
-                );
-            }
+        const mintKeypair = Keypair.generate();
+        const mint = mintKeypair.publicKey;
+        const tokenMetadata = this.metadata ? this.getTokenMetadata(mint, payer) : undefined;
 
-            if (this.transferHook) {
-                console.log("Adding TransferHook extension...");
-                instructions.push(
-                    createInitializeTransferHookInstruction(
-                        mint,
-                        payer,
-                        this.transferHook.programId,
-                        TOKEN_2022_PROGRAM_ID
-                    )
-                );
-            }
+        const extensions = getOptimalInitializationOrder(
+            tokenMetadata ? [...this.extensions, TokenExtensionType.TokenMetadata] : [...this.extensions]
+        );
+        const isAfterInitialize = (type: TokenExtensionType) => getExtensionInfo(type)?.initialization === "afterInitialize";
+        const space = calculateMintLen(extensions.filter(type => !isAfterInitialize(type)));
+        const size = calculateMintLen(extensions, {
+            [TokenExtensionType.TokenMetadata]: tokenMetadata ? pack(tokenMetadata).length : 0
+        });
 
-            if (this.confidentialTransfer) {
-                console.log("Warning: ConfidentialTransfer extension is not fully supported yet");
-            }
+        let rent: number;
+        try {
+            rent = await this.connection.getMinimumBalanceForRentExemption(size);
+        } catch (error: any) {
+            throw new Error(`Could not get rent for a mint of ${size} bytes: ${error.message}`);
+        }
 
-            if (this.defaultAccountState !== undefined) {
-                console.log("Adding DefaultAccountState extension...");
-                instructions.push(
-                    createInitializeDefaultAccountStateInstruction(
-                        mint,
-                        this.defaultAccountState,
-                        TOKEN_2022_PROGRAM_ID
-                    )
-                );
-            }
+        const steps = extensions.map(type => this.createExtensionInstructions(type, mint, payer, mintAuthority));
+        const firstAfterInitialize = extensions.findIndex(isAfterInitialize);
+        steps.splice(firstAfterInitialize === -1 ? steps.length : firstAfterInitialize, 0, [
+            createInitializeMintInstruction(mint, this.decimals, mintAuthority, freezeAuthority, TOKEN_2022_PROGRAM_ID)
+        ]);
+
+        const instructions: TransactionInstruction[] = [
+            SystemProgram.createAccount({
+                fromPubkey: payer,
+                newAccountPubkey: mint,
+                space,
+                lamports: rent,
+                programId: TOKEN_2022_PROGRAM_ID,
+            }),
+            ...steps.flat()
+        ];
+
+        // The hook program can only write the ExtraAccountMetaList once the mint exists
+        const hasExtraMetas = this.transferHook !== undefined && this.transferHook.extraMetas.length > 0;
+        if (this.transferHook && hasExtraMetas) {
+            const extraMetaList = await createExtraAccountMetaListInstructions(
+                this.connection,
+                payer,
+                this.transferHook.programId,
+                mint,
+                mintAuthority,
+                this.transferHook.extraMetas
+            );
+            instructions.push(...extraMetaList.instructions);
+        }
 
-            if (this.mintCloseAuthority) {
-                console.log("Adding MintCloseAuthority extension...");
-                instructions.push(
-                    createInitializeMintCloseAuthorityInstruction(
-                        mint,
-                        this.mintCloseAuthority,
-                        TOKEN_2022_PROGRAM_ID
-                    )
-                );
-            }
+        for (const { owner, amount } of this.distribution) {
+            const account = getAssociatedTokenAddressSync(mint, owner, true, TOKEN_2022_PROGRAM_ID);
+            instructions.push(
+                createAssociatedTokenAccountIdempotentInstruction(payer, account, owner, mint, TOKEN_2022_PROGRAM_ID),
+                createMintToInstruction(mint, account, mintAuthority, amount, [], TOKEN_2022_PROGRAM_ID)
+            );
+        }
 
-            // Initialize mint after extensions
-            console.log("Initializing mint after extensions...");
+        if (this.multisigMintAuthority) {
             instructions.push(
-                createInitializeMintInstruction(
+                createSetAuthorityInstruction(
                     mint,
-                    this.decimals,
-                    this.mintAuthority,
-                    this.freezeAuthority,
+                    mintAuthority,
+                    AuthorityType.MintTokens,
+                    this.multisigMintAuthority,
+                    [],
                     TOKEN_2022_PROGRAM_ID
                 )
             );
+        }
 
-            return {
-                instructions,
-                signers: [mintKeypair],
-                mint
-            };
-
-        } catch (error) {
-            if (error instanceof Error) {
-                throw new Error(`Failed to create token instructions: ${error.message}`);
-            } else {
-                throw new Error(`Unknown error creating token instructions: ${String(error)}`);
-            }
+        // The mint authority signs whatever it writes after InitializeMint
+        const requiredSigners = [payer];
+        const mintAuthoritySigns =
+            extensions.some(isAfterInitialize) ||
+            hasExtraMetas ||
+            this.distribution.length > 0 ||
+            this.multisigMintAuthority !== undefined;
+        if (mintAuthoritySigns) {
+            requiredSigners.push(mintAuthority);
+        }
+        if (this.groupMember) {
+            requiredSigners.push(this.groupMember.groupUpdateAuthority);
         }
+
+        return {
+            mint,
+            extensions,
+            space,
+            size,
+            rent,
+            instructions,
+            signers: [mintKeypair],
+            requiredSigners: requiredSigners.filter(
+                (key, index) => requiredSigners.findIndex(other => other.equals(key)) === index
+            )
+        };
+    }
+
+    /**
+     * Create instructions for token with configured extensions
+     *
+     * This method returns instructions instead of executing transaction,
+     * making it easy to integrate with wallet adapter. Use planToken to inspect sizes and signers first.
+     *
+     * @param payer - Public key of the transaction fee payer
+     * @returns Promise with instructions, required signers, and mint address
+     */
+    async createTokenInstructions(payer: PublicKey): Promise<{
+        instructions: TransactionInstruction[];
+        signers: Keypair[];
+        mint: PublicKey;
+    }> {
+        const { instructions, signers, mint } = await this.planToken(payer);
+        return { instructions, signers, mint };
+    }
+
+    /**
+     * Create instructions for token with multiple extensions
+     *
+     * @deprecated Use createTokenInstructions, which handles every configuration
+     * @param payer - Public key of the transaction fee payer
+     * @returns Promise with instructions, required signers, and mint address
+     */
+    async createTokenWithExtensionsInstructions(payer: PublicKey): Promise<{
+        instructions: TransactionInstruction[];
+        signers: Keypair[];
+        mint: PublicKey;
+    }> {
+        return this.createTokenInstructions(payer);
     }
 
     /**
      * Create instructions for token with metadata and other extensions
      *
+     * @deprecated Use createTokenInstructions, which handles every configuration
      * @param payer - Public key of the transaction fee payer
      * @returns Promise with instructions, required signers, and mint address
      */
@@ -517,230 +777,240 @@ export class TokenBuilder {
         signers: Keypair[];
         mint: PublicKey;
     }> {
-        if (!this.mintAuthority) {
-            throw new Error("Mint authority is required");
-        }
-
-        const metadata = this.metadata || this.tokenMetadata;
-        if (!metadata) {
+        if (!this.metadata) {
             throw new Error("Metadata is required for this method");
         }
+        return this.createTokenInstructions(payer);
+    }
 
-        try {
-            console.log("Creating instructions for token with metadata and other extensions...");
-            const mintKeypair = Keypair.generate();
-            const mint = mintKeypair.publicKey;
-            console.log(`Mint address: ${mint.toString()}`);
-
-            // Prepare token metadata
-            const tokenMetadata = {
-                mint: mint,
-                name: metadata.name,
-                symbol: metadata.symbol,
-                uri: metadata.uri,
-                additionalMetadata: Object.entries(metadata.additionalMetadata || {}).map(
-                    ([key, value]) => [key, value] as const
-                ),
-            };
-
-            // Ensure MetadataPointer extension is included
-            let extensionsToUse = [...this.extensions];
-            if (!extensionsToUse.includes(ExtensionType.MetadataPointer)) {
-                extensionsToUse.push(ExtensionType.MetadataPointer);
-            }
-
-            // Check if Non-Transferable extension is included
-            const hasNonTransferable = extensionsToUse.includes(ExtensionType.NonTransferable);
-
-            // Calculate sizes
-            const metadataExtension = TYPE_SIZE + LENGTH_SIZE;
-            const metadataLen = pack(tokenMetadata).length;
-            const mintLen = getMintLen(extensionsToUse);
-            const lamports = await this.connection.getMinimumBalanceForRentExemption(
-                mintLen + metadataExtension + metadataLen
-            );
-
-            console.log(`Size: mint=${mintLen}, metadata extension=${metadataExtension}, metadata=${metadataLen}`);
+    /**
+     * Build transaction from token instructions
+     *
+     * Utility method to help users create transaction from instructions
+     *
+     * @param instructions - Instructions to include in transaction
+     * @param feePayer - Public key of fee payer
+     * @returns Configured transaction
+     */
+    buildTransaction(instructions: TransactionInstruction[], feePayer: PublicKey): Transaction {
+        const transaction = new Transaction();
+        instructions.forEach(instruction => transaction.add(instruction));
+        transaction.feePayer = feePayer;
+        return transaction;
+    }
 
-            const instructions: TransactionInstruction[] = [];
+    private registerExtension(type: TokenExtensionType): void {
+        if (this.extensions.includes(type)) {
+            throw new Error(`${getExtensionName(type)} is already configured`);
+        }
+        this.extensions.push(type);
+    }
 
-            // Create account
-            instructions.push(
-                SystemProgram.createAccount({
-                    fromPubkey: payer,
-                    newAccountPubkey: mint,
-                    space: mintLen,
-                    lamports,
-                    programId: TOKEN_2022_PROGRAM_ID,
-                })
-            );
+    private resolveFreezeAuthority(): PublicKey | null {
+        const fromDefaultState = this.defaultAccountStateFreezeAuthority;
+        if (fromDefaultState && this.freezeAuthority && !fromDefaultState.equals(this.freezeAuthority)) {
+            throw new Error("addDefaultAccountState and setTokenInfo set different freeze authorities");
+        }
+        return this.freezeAuthority ?? fromDefaultState ?? null;
+    }
 
-            // Initialize MetadataPointer extension
-            instructions.push(
-                createInitializeMetadataPointerInstruction(
-                    mint,
-                    payer,
-                    mint,
-                    TOKEN_2022_PROGRAM_ID
-                )
-            );
+    private checkConfiguration(freezeAuthority: PublicKey | null): void {
+        const compatibilityCheck = checkExtensionCompatibility(this.extensions);
+        if (!compatibilityCheck.isCompatible) {
+            throw new Error(`Incompatible extensions: ${compatibilityCheck.reason}`);
+        }
 
-            // Split extensions into 3 groups:
-            // 1. Non-Transferable (must be initialized before mint)
-            // 2. Other extensions (except Non-Transferable)
-            // 3. Metadata (must be initialized after mint)
+        if (
+            this.confidentialTransferFee &&
+            !(this.transferFee && this.confidentialTransfer)
+        ) {
+            throw new Error("addConfidentialTransferFee needs addTransferFee and addConfidentialTransfer");
+        }
 
-            // 1. Initialize Non-Transferable extension first (if present)
-            if (hasNonTransferable) {
-                console.log("Adding NonTransferable extension before initializing mint...");
-                instructions.push(
-                    createInitializeNonTransferableMintInstruction(
-                        mint,
-                        TOKEN_2022_PROGRAM_ID
-                    )
-                );
+        if (this.defaultAccountState === AccountState.Frozen) {
+            if (!freezeAuthority) {
+                throw new Error("Accounts that start frozen need a freeze authority to be thawed");
             }
+            if (this.distribution.length > 0) {
+                throw new Error("Tokens cannot be minted to accounts that start frozen");
+            }
+        }
+    }
 
-            // 2. Add other extensions (except Non-Transferable)
-            if (this.transferFee) {
-                instructions.push(
+    private getTokenMetadata(mint: PublicKey, updateAuthority: PublicKey): TokenMetadata {
+        const metadata = this.metadata as MetadataConfig;
+        return {
+            updateAuthority,
+            mint,
+            name: metadata.name,
+            symbol: metadata.symbol,
+            uri: metadata.uri,
+            additionalMetadata: Object.entries(metadata.additionalMetadata || {})
+        };
+    }
+
+    private createExtensionInstructions(
+        type: TokenExtensionType,
+        mint: PublicKey,
+        payer: PublicKey,
+        mintAuthority: PublicKey
+    ): TransactionInstruction[] {
+        switch (type) {
+            case TokenExtensionType.MetadataPointer:
+                // The metadata lives in the mint itself
+                return [createInitializeMetadataPointerInstruction(mint, payer, mint, TOKEN_2022_PROGRAM_ID)];
+            case TokenExtensionType.NonTransferable:
+                return [createInitializeNonTransferableMintInstruction(mint, TOKEN_2022_PROGRAM_ID)];
+            case TokenExtensionType.TransferFeeConfig: {
+                const transferFee = this.transferFee as TransferFeeConfig;
+                return [
                     createInitializeTransferFeeConfigInstruction(
                         mint,
-                        this.transferFee.transferFeeConfigAuthority,
-                        this.transferFee.withdrawWithheldAuthority,
-                        this.transferFee.feeBasisPoints,
-                        this.transferFee.maxFee,
+                        transferFee.transferFeeConfigAuthority,
+                        transferFee.withdrawWithheldAuthority,
+                        transferFee.feeBasisPoints,
+                        transferFee.maxFee,
                         TOKEN_2022_PROGRAM_ID
                     )
-                );
+                ];
             }
-
-            if (this.permanentDelegate) {
-                instructions.push(
-                    createInitializePermanentDelegateInstruction(
+            case TokenExtensionType.PermanentDelegate:
+                return [
+                    createInitializePermanentDelegateInstruction(mint, this.permanentDelegate as PublicKey, TOKEN_2022_PROGRAM_ID)
+                ];
+            case TokenExtensionType.InterestBearingConfig: {
+                const interestBearing = this.interestBearing as InterestBearingConfig;
+                return [
+                    createInitializeInterestBearingMintInstruction(
                         mint,
-                        this.permanentDelegate,
+                        interestBearing.rateAuthority,
+                        interestBearing.rate,
                         TOKEN_2022_PROGRAM_ID
                     )
-                );
+                ];
             }
-
-            if (this.transferHook) {
-                instructions.push(
+            case TokenExtensionType.TransferHook:
+                return [
                     createInitializeTransferHookInstruction(
                         mint,
                         payer,
-                        this.transferHook.programId,
+                        (this.transferHook as TransferHookConfig).programId,
                         TOKEN_2022_PROGRAM_ID
                     )
-                );
-            }
-
-            if (this.confidentialTransfer) {
-                console.log("Warning: ConfidentialTransfer extension is not fully supported yet");
-            }
-
-            if (this.interestBearing) {
-                instructions.push(
-                    createInitializeInterestBearingMintInstruction(
+                ];
+            case TokenExtensionType.ConfidentialTransferMint: {
+                const confidentialTransfer = this.confidentialTransfer as ConfidentialTransferConfig;
+                return [
+                    createInitializeConfidentialTransferMintInstruction(
                         mint,
-                        this.interestBearing.rateAuthority,
-                        this.interestBearing.rate,
+                        confidentialTransfer.authority === undefined ? mintAuthority : confidentialTransfer.authority,
+                        confidentialTransfer.autoEnable,
+                        confidentialTransfer.auditorElGamalPubkey,
                         TOKEN_2022_PROGRAM_ID
                     )
-                );
+                ];
             }
-
-            if (this.defaultAccountState !== undefined) {
-                instructions.push(
+            case TokenExtensionType.DefaultAccountState:
+                return [
                     createInitializeDefaultAccountStateInstruction(
                         mint,
-                        this.defaultAccountState,
+                        this.defaultAccountState as AccountState,
                         TOKEN_2022_PROGRAM_ID
                     )
-                );
-            }
-
-            if (this.mintCloseAuthority) {
-                instructions.push(
-                    createInitializeMintCloseAuthorityInstruction(
+                ];
+            case TokenExtensionType.MintCloseAuthority:
+                return [
+                    createInitializeMintCloseAuthorityInstruction(mint, this.mintCloseAuthority as PublicKey, TOKEN_2022_PROGRAM_ID)
+                ];
+            case TokenExtensionType.TokenMetadata: {
+                const metadata = this.metadata as MetadataConfig;
+                return [
+                    createInitializeInstruction({
+                        programId: TOKEN_2022_PROGRAM_ID,
+                        metadata: mint,
+                        updateAuthority: payer,
                         mint,
-                        this.mintCloseAuthority,
-                        TOKEN_2022_PROGRAM_ID
-                    )
-                );
-            }
-
-            // 3. Initialize mint after extensions (important: after Non-Transferable and before Metadata)
-            console.log("Initializing mint after extensions...");
-            instructions.push(
-                createInitializeMintInstruction(
-                    mint,
-                    this.decimals,
-                    this.mintAuthority,
-                    this.freezeAuthority,
-                    TOKEN_2022_PROGRAM_ID
-                )
-            );
-
-            // 4. Initialize metadata (must be after mint initialization)
-            console.log("Initializing metadata after initializing mint...");
-            instructions.push(
-                createInitializeInstruction({
-                    programId: TOKEN_2022_PROGRAM_ID,
-                    metadata: mint,
-                    updateAuthority: payer,
-                    mint: mint,
-                    mintAuthority: this.mintAuthority,
-                    name: metadata.name,
-                    symbol: metadata.symbol,
-                    uri: metadata.uri,
-                })
-            );
-
-            // Add additional metadata if provided
-            if (metadata.additionalMetadata) {
-                for (const [key, value] of Object.entries(metadata.additionalMetadata)) {
-                    instructions.push(
+                        mintAuthority,
+                        name: metadata.name,
+                        symbol: metadata.symbol,
+                        uri: metadata.uri,
+                    }),
+                    ...Object.entries(metadata.additionalMetadata || {}).map(([field, value]) =>
                         createUpdateFieldInstruction({
                             programId: TOKEN_2022_PROGRAM_ID,
                             metadata: mint,
                             updateAuthority: payer,
-                            field: key,
-                            value: value,
+                            field,
+                            value,
                         })
-                    );
-                }
+                    )
+                ];
             }
-
-            return {
-                instructions,
-                signers: [mintKeypair],
-                mint
-            };
-
-        } catch (error) {
-            if (error instanceof Error) {
-                throw new Error(`Failed to create token instructions: ${error.message}`);
-            } else {
-                throw new Error(`Unknown error creating token instructions: ${String(error)}`);
+            case TokenExtensionType.ConfidentialTransferFeeConfig: {
+                const confidentialTransferFee = this.confidentialTransferFee as ConfidentialTransferFeeSettings;
+                return [
+                    createInitializeConfidentialTransferFeeConfigInstruction(
+                        mint,
+                        confidentialTransferFee.authority,
+                        confidentialTransferFee.withdrawWithheldAuthorityElGamalPubkey,
+                        TOKEN_2022_PROGRAM_ID
+                    )
+                ];
+            }
+            case TokenExtensionType.GroupPointer:
+                return [
+                    createInitializeGroupPointerInstruction(
+                        mint,
+                        (this.group as GroupConfig).updateAuthority,
+                        mint,
+                        TOKEN_2022_PROGRAM_ID
+                    )
+                ];
+            case TokenExtensionType.TokenGroup: {
+                const group = this.group as GroupConfig;
+                return [
+                    createInitializeTokenGroupInstruction(
+                        mint,
+                        mint,
+                        mintAuthority,
+                        group.updateAuthority,
+                        group.maxSize,
+                        TOKEN_2022_PROGRAM_ID
+                    )
+                ];
+            }
+            case TokenExtensionType.GroupMemberPointer:
+                return [createInitializeMemberPointerInstruction(mint, mintAuthority, mint, TOKEN_2022_PROGRAM_ID)];
+            case TokenExtensionType.TokenGroupMember: {
+                const groupMember = this.groupMember as GroupMemberConfig;
+                return [
+                    createInitializeTokenGroupMemberInstruction(
+                        mint,
+                        mint,
+                        mintAuthority,
+                        groupMember.group,
+                        groupMember.groupUpdateAuthority,
+                        TOKEN_2022_PROGRAM_ID
+                    )
+                ];
             }
+            case TokenExtensionType.Pausable:
+                return [
+                    createInitializePausableConfigInstruction(mint, this.pausableAuthority as PublicKey, TOKEN_2022_PROGRAM_ID)
+                ];
+            case TokenExtensionType.ScaledUiAmount: {
+                const scaledUiAmount = this.scaledUiAmount as ScaledUiAmountConfig;
+                return [
+                    createInitializeScaledUiAmountConfigInstruction(
+                        mint,
+                        scaledUiAmount.authority,
+                        scaledUiAmount.multiplier,
+                        TOKEN_2022_PROGRAM_ID
+                    )
+                ];
+            }
+            default:
+                throw new Error(`${getExtensionName(type)} is not supported by TokenBuilder`);
         }
     }
-
-    /**
-     * Build transaction from token instructions
-     *
-     * Utility method to help users create transaction from instructions
-     *
-     * @param instructions - Instructions to include in transaction
-     * @param feePayer - Public key of fee payer
-     * @returns Configured transaction
-     */
-    buildTransaction(instructions: TransactionInstruction[], feePayer: PublicKey): Transaction {
-        const transaction = new Transaction();
-        instructions.forEach(instruction => transaction.add(instruction));
-        transaction.feePayer = feePayer;
-        return transaction;
-    }
-}
\ No newline at end of file
+}
@@ -0,0 +1,194 @@
+import { Keypair } from "@solana/web3.js";
+import { MintLayout } from "@solana/spl-token";
+import { TokenExtensionType } from "./extension-registry";
+import { parseMintSnapshot } from "./mint-inspector";
+import {
+  TokenManifest,
+  assertValidTokenManifest,
+  mintSnapshotToManifest,
+  parseTokenManifest,
+  validateTokenManifest,
+} from "./token-manifest";
+
+const mintAuthority = Keypair.generate().publicKey.toBase58();
+const owner = Keypair.generate().publicKey.toBase58();
+
+function manifest(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  const base: TokenManifest = {
+    version: 1,
+    decimals: 6,
+    authorities: { mint: mintAuthority, freeze: null },
+    metadata: { name: "Example", symbol: "EXM", uri: "https://example.com/token.json" },
+    extensions: {
+      transferFee: { feeBasisPoints: 50, maxFee: "5000", configAuthority: mintAuthority, withdrawAuthority: null },
+    },
+    distribution: [{ owner, amount: "1000000" }],
+  };
+  return { ...base, ...overrides };
+}
+
+function errorsOf(input: unknown): string[] {
+  return validateTokenManifest(input).errors.map((error) => `${error.path}: ${error.message}`);
+}
+
+describe("validateTokenManifest", () => {
+  it("accepts a well-formed manifest", () => {
+    expect(validateTokenManifest(manifest())).toEqual({ valid: true, errors: [] });
+  });
+
+  it("rejects a manifest that is not an object", () => {
+    expect(errorsOf([])).toEqual([": Expected an object"]);
+  });
+
+  it("reports every problem with its path", () => {
+    const errors = errorsOf(
+      manifest({
+        version: 2,
+        decimals: 1.5,
+        distribution: [
+          { owner, amount: "1" },
+          { owner: "not a key", amount: "-1" },
+        ],
+      })
+    );
+    expect(errors).toEqual([
+      "version: Unsupported manifest version 2, expected 1",
+      "decimals: Expected an integer between 0 and 255",
+      'distribution[1].owner: Invalid public key "not a key"',
+      "distribution[1].amount: Expected a u64 amount as a decimal string",
+    ]);
+  });
+
+  it("rejects unknown fields", () => {
+    expect(errorsOf(manifest({ extensions: { transferHooks: {} } }))).toEqual([
+      expect.stringMatching(/^extensions\.transferHooks: Unknown field, expected one of transferFee, /),
+    ]);
+  });
+
+  it("rejects amounts above u64 and fees above 100%", () => {
+    const extensions = {
+      transferFee: { feeBasisPoints: 10001, maxFee: "18446744073709551616", configAuthority: null, withdrawAuthority: null },
+    };
+    expect(errorsOf(manifest({ extensions }))).toEqual([
+      "extensions.transferFee.feeBasisPoints: Expected an integer between 0 and 10000",
+      "extensions.transferFee.maxFee: Expected a u64 amount as a decimal string",
+    ]);
+  });
+
+  it("rejects a renounced mint authority", () => {
+    expect(errorsOf(manifest({ authorities: { mint: null } }))).toEqual([
+      "authorities.mint: Cannot be null, a renounced authority cannot be recreated",
+    ]);
+  });
+
+  it("rejects extensions Token-2022 refuses on the same mint", () => {
+    const extensions = {
+      nonTransferable: true,
+      transferFee: { feeBasisPoints: 50, maxFee: "5000", configAuthority: null, withdrawAuthority: null },
+    };
+    expect(errorsOf(manifest({ extensions }))).toEqual([
+      "extensions.transferFee: transferFee cannot be used together with nonTransferable",
+    ]);
+  });
+
+  it("requires transfer fees and confidential transfers for confidential transfer fees", () => {
+    const extensions = {
+      confidentialTransferFee: { authority: null, withdrawWithheldAuthorityElGamalPubkey: owner },
+    };
+    expect(errorsOf(manifest({ extensions }))).toEqual([
+      "extensions.confidentialTransferFee: Requires transferFee",
+      "extensions.confidentialTransferFee: Requires confidentialTransfer",
+    ]);
+  });
+
+  it("accepts confidential transfers with fees", () => {
+    const extensions = {
+      transferFee: { feeBasisPoints: 50, maxFee: "5000", configAuthority: null, withdrawAuthority: null },
+      confidentialTransfer: { autoApprove: true },
+      confidentialTransferFee: { authority: null, withdrawWithheldAuthorityElGamalPubkey: owner },
+    };
+    expect(errorsOf(manifest({ extensions }))).toEqual([]);
+  });
+
+  it("refuses frozen accounts without a freeze authority or with a distribution", () => {
+    const extensions = { defaultAccountState: { state: "frozen" } };
+    expect(errorsOf(manifest({ extensions }))).toEqual([
+      "extensions.defaultAccountState.state: Accounts can only start frozen when authorities.freeze is set",
+      "distribution: Tokens cannot be minted to accounts that start frozen",
+    ]);
+  });
+});
+
+describe("assertValidTokenManifest", () => {
+  it("throws with every error", () => {
+    expect(() => assertValidTokenManifest(manifest({ version: 0, decimals: -1 }))).toThrow(
+      "Invalid token manifest: version: Unsupported manifest version 0, expected 1; decimals: Expected an integer between 0 and 255"
+    );
+  });
+});
+
+describe("parseTokenManifest", () => {
+  it("parses a valid manifest", () => {
+    expect(parseTokenManifest(JSON.stringify(manifest()))).toEqual(manifest());
+  });
+
+  it("rejects invalid JSON", () => {
+    expect(() => parseTokenManifest("{")).toThrow("Could not parse token manifest");
+  });
+});
+
+describe("mintSnapshotToManifest", () => {
+  function mintData(extension: Buffer): Buffer {
+    const base = Buffer.alloc(166);
+    MintLayout.encode(
+      {
+        mintAuthorityOption: 1,
+        mintAuthority: Keypair.generate().publicKey,
+        supply: BigInt(0),
+        decimals: 6,
+        isInitialized: true,
+        freezeAuthorityOption: 0,
+        freezeAuthority: Keypair.generate().publicKey,
+      },
+      base
+    );
+    base[165] = 1;
+    return Buffer.concat([base, extension]);
+  }
+
+  function scaledMint(multiplier: number, newMultiplier: number, effectiveTimestamp: number): Buffer {
+    const extension = Buffer.alloc(60);
+    extension.writeUInt16LE(TokenExtensionType.ScaledUiAmount, 0);
+    extension.writeUInt16LE(56, 2);
+    extension.writeDoubleLE(multiplier, 36);
+    extension.writeBigInt64LE(BigInt(effectiveTimestamp), 44);
+    extension.writeDoubleLE(newMultiplier, 52);
+    return mintData(extension);
+  }
+
+  it("exports the scaled UI amount multiplier in force", () => {
+    const snapshot = parseMintSnapshot(Keypair.generate().publicKey, scaledMint(1.5, 3, 1000));
+
+    expect(mintSnapshotToManifest(snapshot, null, BigInt(999)).extensions?.scaledUiAmount?.multiplier).toBe(1.5);
+    expect(mintSnapshotToManifest(snapshot, null, BigInt(1000)).extensions?.scaledUiAmount?.multiplier).toBe(3);
+  });
+
+  it("exports the confidential transfer authority and auditor", () => {
+    const authority = Keypair.generate().publicKey;
+    const auditor = Keypair.generate().publicKey;
+    const extension = Buffer.alloc(69);
+    extension.writeUInt16LE(TokenExtensionType.ConfidentialTransferMint, 0);
+    extension.writeUInt16LE(65, 2);
+    authority.toBuffer().copy(extension, 4);
+    extension[36] = 1;
+    auditor.toBuffer().copy(extension, 37);
+
+    const exported = mintSnapshotToManifest(parseMintSnapshot(Keypair.generate().publicKey, mintData(extension)));
+    expect(exported.extensions?.confidentialTransfer).toEqual({
+      autoApprove: true,
+      authority: authority.toBase58(),
+      auditorElGamalPubkey: auditor.toBase58(),
+    });
+    expect(validateTokenManifest(exported).errors).toEqual([]);
+  });
+});
@@ -0,0 +1,661 @@
+import { PublicKey } from "@solana/web3.js";
+import { AccountState } from "@solana/spl-token";
+import { TokenExtensionType, getExtensionName, getIncompatibleExtensions } from "./extension-registry";
+import { MintSnapshot } from "./mint-inspector";
+import { getCurrentMultiplier } from "../extensions/scaled-ui-amount";
+
+/**
+ * Version of the manifest schema written by this SDK
+ */
+export const TOKEN_MANIFEST_VERSION = 1;
+
+const U64_MAX = BigInt("18446744073709551615");
+
+/**
+ * Authorities of the base mint
+ *
+ * Keys are base58 strings; null means no authority. Manifests exported from a mint keep
+ * renounced authorities as null, which validation refuses where a token cannot be created without them.
+ */
+export interface TokenManifestAuthorities {
+  /** Mint authority, it signs the token setup */
+  mint: string | null;
+  freeze?: string | null;
+  /** Multisig receiving the mint authority once the token is set up */
+  mintMultisig?: string;
+}
+
+/**
+ * Metadata stored in the mint itself
+ */
+export interface TokenManifestMetadata {
+  name: string;
+  symbol: string;
+  uri: string;
+  additionalMetadata?: Record<string, string>;
+}
+
+/**
+ * Fixed extra account passed to the transfer hook program
+ */
+export interface TokenManifestExtraAccount {
+  address: string;
+  isSigner?: boolean;
+  isWritable?: boolean;
+}
+
+/**
+ * Parameters of every extension the manifest can describe
+ *
+ * u64 amounts are decimal strings, since JSON numbers cannot hold them exactly.
+ */
+export interface TokenManifestExtensions {
+  transferFee?: {
+    feeBasisPoints: number;
+    maxFee: string;
+    configAuthority: string | null;
+    withdrawAuthority: string | null;
+  };
+  interestBearing?: {
+    /** Rate in basis points */
+    rate: number;
+    rateAuthority: string | null;
+  };
+  permanentDelegate?: {
+    delegate: string | null;
+  };
+  transferHook?: {
+    programId: string | null;
+    /** Plain strings are read-only, non-signer accounts */
+    extraAccounts?: (string | TokenManifestExtraAccount)[];
+  };
+  mintCloseAuthority?: {
+    closeAuthority: string | null;
+  };
+  defaultAccountState?: {
+    state: "initialized" | "frozen";
+  };
+  nonTransferable?: boolean;
+  confidentialTransfer?: {
+    autoApprove: boolean;
+    /** Authority approving accounts, defaults to the mint authority when omitted */
+    authority?: string | null;
+    /** ElGamal public key of the auditor, 32 bytes in base58 */
+    auditorElGamalPubkey?: string | null;
+  };
+  /** Lets confidential transfers carry a fee, requires transferFee and confidentialTransfer */
+  confidentialTransferFee?: {
+    authority: string | null;
+    /** ElGamal public key encrypting the withheld fees, 32 bytes in base58 */
+    withdrawWithheldAuthorityElGamalPubkey: string;
+  };
+  /** The mint is a group, holding its own group data */
+  group?: {
+    maxSize: string;
+    updateAuthority: string | null;
+  };
+  /** The mint is a member of the group held by another mint */
+  groupMember?: {
+    group: string;
+    groupUpdateAuthority: string | null;
+  };
+  pausable?: {
+    authority: string | null;
+  };
+  scaledUiAmount?: {
+    multiplier: number;
+    authority: string | null;
+  };
+}
+
+/**
+ * Tokens minted to an owner right after creation, into its associated token account
+ */
+export interface TokenManifestAllocation {
+  owner: string;
+  amount: string;
+}
+
+/**
+ * Declarative description of a Token-2022 mint
+ */
+export interface TokenManifest {
+  version: number;
+  decimals: number;
+  authorities: TokenManifestAuthorities;
+  metadata?: TokenManifestMetadata;
+  extensions?: TokenManifestExtensions;
+  distribution?: TokenManifestAllocation[];
+}
+
+/**
+ * Problem found in a manifest, with the path of the offending value
+ */
+export interface ManifestValidationError {
+  /** Path such as extensions.transferFee.maxFee or distribution[2].owner, empty for the root */
+  path: string;
+  message: string;
+}
+
+export interface ManifestValidationResult {
+  valid: boolean;
+  errors: ManifestValidationError[];
+}
+
+// Mint extensions behind each manifest key, compatibility is checked on these
+const MANIFEST_EXTENSION_TYPES: Record<keyof TokenManifestExtensions, TokenExtensionType[]> = {
+  transferFee: [TokenExtensionType.TransferFeeConfig],
+  interestBearing: [TokenExtensionType.InterestBearingConfig],
+  permanentDelegate: [TokenExtensionType.PermanentDelegate],
+  transferHook: [TokenExtensionType.TransferHook],
+  mintCloseAuthority: [TokenExtensionType.MintCloseAuthority],
+  defaultAccountState: [TokenExtensionType.DefaultAccountState],
+  nonTransferable: [TokenExtensionType.NonTransferable],
+  confidentialTransfer: [TokenExtensionType.ConfidentialTransferMint],
+  confidentialTransferFee: [TokenExtensionType.ConfidentialTransferFeeConfig],
+  group: [TokenExtensionType.GroupPointer, TokenExtensionType.TokenGroup],
+  groupMember: [TokenExtensionType.GroupMemberPointer, TokenExtensionType.TokenGroupMember],
+  pausable: [TokenExtensionType.Pausable],
+  scaledUiAmount: [TokenExtensionType.ScaledUiAmount],
+};
+
+const MANIFEST_EXTENSION_KEYS = Object.keys(MANIFEST_EXTENSION_TYPES) as (keyof TokenManifestExtensions)[];
+
+// Extensions implied by the metadata section
+const IMPLIED_EXTENSIONS = [TokenExtensionType.MetadataPointer, TokenExtensionType.TokenMetadata];
+
+function getManifestKey(type: TokenExtensionType): keyof TokenManifestExtensions | undefined {
+  return MANIFEST_EXTENSION_KEYS.find((key) => MANIFEST_EXTENSION_TYPES[key].includes(type));
+}
+
+type Errors = ManifestValidationError[];
+
+function join(path: string, key: string | number): string {
+  if (typeof key === "number") {
+    return `${path}[${key}]`;
+  }
+  return path ? `${path}.${key}` : key;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function checkObject(
+  value: unknown,
+  path: string,
+  keys: string[],
+  errors: Errors
+): value is Record<string, unknown> {
+  if (!isObject(value)) {
+    errors.push({ path, message: "Expected an object" });
+    return false;
+  }
+  for (const key of Object.keys(value)) {
+    if (!keys.includes(key)) {
+      errors.push({ path: join(path, key), message: `Unknown field, expected one of ${keys.join(", ")}` });
+    }
+  }
+  return true;
+}
+
+function checkString(value: unknown, path: string, errors: Errors): void {
+  if (typeof value !== "string") {
+    errors.push({ path, message: "Expected a string" });
+  }
+}
+
+function checkBoolean(value: unknown, path: string, errors: Errors): void {
+  if (typeof value !== "boolean") {
+    errors.push({ path, message: "Expected a boolean" });
+  }
+}
+
+function checkInteger(value: unknown, path: string, min: number, max: number, errors: Errors): void {
+  if (typeof value !== "number" || !Number.isInteger(value) || value < min || value > max) {
+    errors.push({ path, message: `Expected an integer between ${min} and ${max}` });
+  }
+}
+
+function checkPublicKey(value: unknown, path: string, errors: Errors, nullable = false): void {
+  if (value === null) {
+    if (!nullable) {
+      errors.push({ path, message: "Cannot be null, a renounced authority cannot be recreated" });
+    }
+    return;
+  }
+  if (typeof value !== "string") {
+    errors.push({ path, message: nullable ? "Expected a base58 public key or null" : "Expected a base58 public key" });
+    return;
+  }
+  try {
+    new PublicKey(value);
+  } catch {
+    errors.push({ path, message: `Invalid public key ${JSON.stringify(value)}` });
+  }
+}
+
+function checkAmount(value: unknown, path: string, errors: Errors): void {
+  if (typeof value !== "string" || !/^\d+$/.test(value) || BigInt(value) > U64_MAX) {
+    errors.push({ path, message: "Expected a u64 amount as a decimal string" });
+  }
+}
+
+function validateAuthorities(value: unknown, errors: Errors): void {
+  const path = "authorities";
+  if (!checkObject(value, path, ["mint", "freeze", "mintMultisig"], errors)) {
+    return;
+  }
+  checkPublicKey(value.mint, join(path, "mint"), errors);
+  if (value.freeze !== undefined) {
+    checkPublicKey(value.freeze, join(path, "freeze"), errors, true);
+  }
+  if (value.mintMultisig !== undefined) {
+    checkPublicKey(value.mintMultisig, join(path, "mintMultisig"), errors);
+  }
+}
+
+function validateMetadata(value: unknown, errors: Errors): void {
+  const path = "metadata";
+  if (!checkObject(value, path, ["name", "symbol", "uri", "additionalMetadata"], errors)) {
+    return;
+  }
+  checkString(value.name, join(path, "name"), errors);
+  checkString(value.symbol, join(path, "symbol"), errors);
+  checkString(value.uri, join(path, "uri"), errors);
+  if (value.additionalMetadata !== undefined) {
+    const fieldsPath = join(path, "additionalMetadata");
+    if (!isObject(value.additionalMetadata)) {
+      errors.push({ path: fieldsPath, message: "Expected an object of string values" });
+      return;
+    }
+    for (const [key, field] of Object.entries(value.additionalMetadata)) {
+      checkString(field, join(fieldsPath, key), errors);
+    }
+  }
+}
+
+function validateExtensions(value: unknown, errors: Errors): void {
+  const path = "extensions";
+  if (!checkObject(value, path, MANIFEST_EXTENSION_KEYS, errors)) {
+    return;
+  }
+
+  const { transferFee, interestBearing, permanentDelegate, transferHook } = value;
+  if (transferFee !== undefined) {
+    const p = join(path, "transferFee");
+    if (checkObject(transferFee, p, ["feeBasisPoints", "maxFee", "configAuthority", "withdrawAuthority"], errors)) {
+      checkInteger(transferFee.feeBasisPoints, join(p, "feeBasisPoints"), 0, 10000, errors);
+      checkAmount(transferFee.maxFee, join(p, "maxFee"), errors);
+      checkPublicKey(transferFee.configAuthority, join(p, "configAuthority"), errors, true);
+      checkPublicKey(transferFee.withdrawAuthority, join(p, "withdrawAuthority"), errors, true);
+    }
+  }
+  if (interestBearing !== undefined) {
+    const p = join(path, "interestBearing");
+    if (checkObject(interestBearing, p, ["rate", "rateAuthority"], errors)) {
+      checkInteger(interestBearing.rate, join(p, "rate"), -32768, 32767, errors);
+      checkPublicKey(interestBearing.rateAuthority, join(p, "rateAuthority"), errors);
+    }
+  }
+  if (permanentDelegate !== undefined) {
+    const p = join(path, "permanentDelegate");
+    if (checkObject(permanentDelegate, p, ["delegate"], errors)) {
+      checkPublicKey(permanentDelegate.delegate, join(p, "delegate"), errors);
+    }
+  }
+  if (transferHook !== undefined) {
+    const p = join(path, "transferHook");
+    if (checkObject(transferHook, p, ["programId", "extraAccounts"], errors)) {
+      checkPublicKey(transferHook.programId, join(p, "programId"), errors);
+      if (transferHook.extraAccounts !== undefined) {
+        const accountsPath = join(p, "extraAccounts");
+        if (!Array.isArray(transferHook.extraAccounts)) {
+          errors.push({ path: accountsPath, message: "Expected an array" });
+        } else {
+          transferHook.extraAccounts.forEach((account, index) => {
+            const accountPath = join(accountsPath, index);
+            if (typeof account === "string") {
+              checkPublicKey(account, accountPath, errors);
+            } else if (checkObject(account, accountPath, ["address", "isSigner", "isWritable"], errors)) {
+              checkPublicKey(account.address, join(accountPath, "address"), errors);
+              if (account.isSigner !== undefined) checkBoolean(account.isSigner, join(accountPath, "isSigner"), errors);
+              if (account.isWritable !== undefined) checkBoolean(account.isWritable, join(accountPath, "isWritable"), errors);
+            }
+          });
+        }
+      }
+    }
+  }
+  if (value.mintCloseAuthority !== undefined) {
+    const p = join(path, "mintCloseAuthority");
+    if (checkObject(value.mintCloseAuthority, p, ["closeAuthority"], errors)) {
+      checkPublicKey(value.mintCloseAuthority.closeAuthority, join(p, "closeAuthority"), errors);
+    }
+  }
+  if (value.defaultAccountState !== undefined) {
+    const p = join(path, "defaultAccountState");
+    if (checkObject(value.defaultAccountState, p, ["state"], errors)) {
+      const { state } = value.defaultAccountState;
+      if (state !== "initialized" && state !== "frozen") {
+        errors.push({ path: join(p, "state"), message: 'Expected "initialized" or "frozen"' });
+      }
+    }
+  }
+  if (value.nonTransferable !== undefined) {
+    checkBoolean(value.nonTransferable, join(path, "nonTransferable"), errors);
+  }
+  if (value.confidentialTransfer !== undefined) {
+    const p = join(path, "confidentialTransfer");
+    if (checkObject(value.confidentialTransfer, p, ["autoApprove", "authority", "auditorElGamalPubkey"], errors)) {
+      const { autoApprove, authority, auditorElGamalPubkey } = value.confidentialTransfer;
+      checkBoolean(autoApprove, join(p, "autoApprove"), errors);
+      if (authority !== undefined) {
+        checkPublicKey(authority, join(p, "authority"), errors, true);
+      }
+      if (auditorElGamalPubkey !== undefined) {
+        checkPublicKey(auditorElGamalPubkey, join(p, "auditorElGamalPubkey"), errors, true);
+      }
+    }
+  }
+  if (value.confidentialTransferFee !== undefined) {
+    const p = join(path, "confidentialTransferFee");
+    const keys = ["authority", "withdrawWithheldAuthorityElGamalPubkey"];
+    if (checkObject(value.confidentialTransferFee, p, keys, errors)) {
+      const { authority, withdrawWithheldAuthorityElGamalPubkey } = value.confidentialTransferFee;
+      checkPublicKey(authority, join(p, "authority"), errors, true);
+      checkPublicKey(withdrawWithheldAuthorityElGamalPubkey, join(p, "withdrawWithheldAuthorityElGamalPubkey"), errors);
+    }
+  }
+  if (value.group !== undefined) {
+    const p = join(path, "group");
+    if (checkObject(value.group, p, ["maxSize", "updateAuthority"], errors)) {
+      checkAmount(value.group.maxSize, join(p, "maxSize"), errors);
+      checkPublicKey(value.group.updateAuthority, join(p, "updateAuthority"), errors, true);
+    }
+  }
+  if (value.groupMember !== undefined) {
+    const p = join(path, "groupMember");
+    if (checkObject(value.groupMember, p, ["group", "groupUpdateAuthority"], errors)) {
+      checkPublicKey(value.groupMember.group, join(p, "group"), errors);
+      checkPublicKey(value.groupMember.groupUpdateAuthority, join(p, "groupUpdateAuthority"), errors);
+    }
+  }
+  if (value.pausable !== undefined) {
+    const p = join(path, "pausable");
+    if (checkObject(value.pausable, p, ["authority"], errors)) {
+      checkPublicKey(value.pausable.authority, join(p, "authority"), errors);
+    }
+  }
+  if (value.scaledUiAmount !== undefined) {
+    const p = join(path, "scaledUiAmount");
+    if (checkObject(value.scaledUiAmount, p, ["multiplier", "authority"], errors)) {
+      const { multiplier } = value.scaledUiAmount;
+      if (typeof multiplier !== "number" || !Number.isFinite(multiplier) || multiplier <= 0) {
+        errors.push({ path: join(p, "multiplier"), message: "Expected a positive number" });
+      }
+      checkPublicKey(value.scaledUiAmount.authority, join(p, "authority"), errors, true);
+    }
+  }
+
+  const enabled = MANIFEST_EXTENSION_KEYS.filter((key) => value[key] !== undefined && value[key] !== false);
+  for (const [a, b] of getIncompatibleExtensions(enabled.flatMap((key) => MANIFEST_EXTENSION_TYPES[key]))) {
+    // Both types come from enabled keys
+    const [keyA, keyB] = [getManifestKey(a) as string, getManifestKey(b) as string];
+    errors.push({ path: join(path, keyB), message: `${keyB} cannot be used together with ${keyA}` });
+  }
+  if (enabled.includes("confidentialTransferFee")) {
+    for (const required of ["transferFee", "confidentialTransfer"] as const) {
+      if (!enabled.includes(required)) {
+        errors.push({ path: join(path, "confidentialTransferFee"), message: `Requires ${required}` });
+      }
+    }
+  }
+}
+
+function validateDistribution(value: unknown, errors: Errors): void {
+  const path = "distribution";
+  if (!Array.isArray(value)) {
+    errors.push({ path, message: "Expected an array" });
+    return;
+  }
+  value.forEach((allocation, index) => {
+    const p = join(path, index);
+    if (checkObject(allocation, p, ["owner", "amount"], errors)) {
+      checkPublicKey(allocation.owner, join(p, "owner"), errors);
+      checkAmount(allocation.amount, join(p, "amount"), errors);
+    }
+  });
+}
+
+/**
+ * Validate a manifest, typically parsed from JSON or YAML
+ *
+ * Every problem is reported, each with the path of the offending value.
+ *
+ * @param input - Manifest to validate
+ * @returns Whether the manifest is valid, and the errors found
+ */
+export function validateTokenManifest(input: unknown): ManifestValidationResult {
+  const errors: Errors = [];
+  if (!checkObject(input, "", ["version", "decimals", "authorities", "metadata", "extensions", "distribution"], errors)) {
+    return { valid: false, errors };
+  }
+
+  if (input.version !== TOKEN_MANIFEST_VERSION) {
+    errors.push({
+      path: "version",
+      message: `Unsupported manifest version ${JSON.stringify(input.version)}, expected ${TOKEN_MANIFEST_VERSION}`,
+    });
+  }
+  checkInteger(input.decimals, "decimals", 0, 255, errors);
+  validateAuthorities(input.authorities, errors);
+  if (input.metadata !== undefined) {
+    validateMetadata(input.metadata, errors);
+  }
+  if (input.extensions !== undefined) {
+    validateExtensions(input.extensions, errors);
+  }
+  if (input.distribution !== undefined) {
+    validateDistribution(input.distribution, errors);
+  }
+
+  // Checks spanning several sections, once each section is well formed
+  if (errors.length === 0) {
+    const manifest = input as unknown as TokenManifest;
+    if (manifest.extensions?.defaultAccountState?.state === "frozen") {
+      if (!manifest.authorities.freeze) {
+        errors.push({
+          path: "extensions.defaultAccountState.state",
+          message: "Accounts can only start frozen when authorities.freeze is set",
+        });
+      }
+      if (manifest.distribution && manifest.distribution.length > 0) {
+        errors.push({
+          path: "distribution",
+          message: "Tokens cannot be minted to accounts that start frozen",
+        });
+      }
+    }
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Validate a manifest and throw if it is invalid
+ * @param input - Manifest to validate
+ */
+export function assertValidTokenManifest(input: unknown): asserts input is TokenManifest {
+  const { valid, errors } = validateTokenManifest(input);
+  if (!valid) {
+    const details = errors.map((error) => `${error.path || "(root)"}: ${error.message}`).join("; ");
+    throw new Error(`Invalid token manifest: ${details}`);
+  }
+}
+
+/**
+ * Parse and validate a JSON manifest
+ * @param json - Manifest as JSON text
+ * @returns Validated manifest
+ */
+export function parseTokenManifest(json: string): TokenManifest {
+  let input: unknown;
+  try {
+    input = JSON.parse(json);
+  } catch (error: any) {
+    throw new Error(`Could not parse token manifest: ${error.message}`);
+  }
+  assertValidTokenManifest(input);
+  return input;
+}
+
+function toBase58(key: PublicKey | null): string | null {
+  return key ? key.toBase58() : null;
+}
+
+/**
+ * Describe an existing mint as a manifest
+ *
+ * The transfer fee is the newer of the two fee configurations, and the scaled UI amount
+ * multiplier the one in force at the given time. Holders and the extra accounts of a transfer hook
+ * are not read back.
+ *
+ * @param snapshot - Mint snapshot, see inspectMint
+ * @param groupUpdateAuthority - Update authority of the group, for a group member
+ * @param unixTimestamp - Cluster unix timestamp, defaults to the local clock
+ * @returns Manifest describing the mint
+ */
+export function mintSnapshotToManifest(
+  snapshot: MintSnapshot,
+  groupUpdateAuthority: PublicKey | null = null,
+  unixTimestamp: bigint = BigInt(Math.floor(Date.now() / 1000))
+): TokenManifest {
+  const { states } = snapshot;
+  const unsupported = snapshot.extensions
+    .map((extension) => extension.type)
+    .filter((type) => !IMPLIED_EXTENSIONS.includes(type) && getManifestKey(type) === undefined);
+  // Pointers are only implied when they point to the mint itself
+  const pointers = [
+    TokenExtensionType.MetadataPointer,
+    TokenExtensionType.GroupPointer,
+    TokenExtensionType.GroupMemberPointer,
+  ] as const;
+  for (const type of pointers) {
+    const pointer = states[type];
+    if (pointer && !pointer.address?.equals(snapshot.address)) {
+      unsupported.push(type);
+    }
+  }
+  if (unsupported.length > 0) {
+    throw new Error(
+      `Mint ${snapshot.address.toBase58()} uses extensions a manifest cannot describe: ${unsupported
+        .map(getExtensionName)
+        .join(", ")}`
+    );
+  }
+
+  const manifest: TokenManifest = {
+    version: TOKEN_MANIFEST_VERSION,
+    decimals: snapshot.decimals,
+    authorities: {
+      mint: toBase58(snapshot.mintAuthority),
+      freeze: toBase58(snapshot.freezeAuthority),
+    },
+  };
+
+  if (snapshot.metadata) {
+    const { name, symbol, uri, additionalMetadata } = snapshot.metadata;
+    manifest.metadata = { name, symbol, uri };
+    if (additionalMetadata.length > 0) {
+      manifest.metadata.additionalMetadata = Object.fromEntries(additionalMetadata);
+    }
+  }
+
+  const extensions: TokenManifestExtensions = {};
+  const transferFee = states[TokenExtensionType.TransferFeeConfig];
+  if (transferFee) {
+    extensions.transferFee = {
+      feeBasisPoints: transferFee.newerTransferFee.transferFeeBasisPoints,
+      maxFee: transferFee.newerTransferFee.maximumFee.toString(),
+      configAuthority: toBase58(transferFee.transferFeeConfigAuthority),
+      withdrawAuthority: toBase58(transferFee.withdrawWithheldAuthority),
+    };
+  }
+  const interestBearing = states[TokenExtensionType.InterestBearingConfig];
+  if (interestBearing) {
+    extensions.interestBearing = {
+      rate: interestBearing.currentRate,
+      rateAuthority: toBase58(interestBearing.rateAuthority),
+    };
+  }
+  const permanentDelegate = states[TokenExtensionType.PermanentDelegate];
+  if (permanentDelegate) {
+    extensions.permanentDelegate = { delegate: toBase58(permanentDelegate.delegate) };
+  }
+  const transferHook = states[TokenExtensionType.TransferHook];
+  if (transferHook) {
+    extensions.transferHook = { programId: toBase58(transferHook.programId) };
+  }
+  const mintCloseAuthority = states[TokenExtensionType.MintCloseAuthority];
+  if (mintCloseAuthority) {
+    extensions.mintCloseAuthority = { closeAuthority: toBase58(mintCloseAuthority.closeAuthority) };
+  }
+  const defaultAccountState = states[TokenExtensionType.DefaultAccountState];
+  if (defaultAccountState) {
+    extensions.defaultAccountState = {
+      state: defaultAccountState.state === AccountState.Frozen ? "frozen" : "initialized",
+    };
+  }
+  if (snapshot.extensions.some((extension) => extension.type === TokenExtensionType.NonTransferable)) {
+    extensions.nonTransferable = true;
+  }
+  const confidentialTransfer = states[TokenExtensionType.ConfidentialTransferMint];
+  if (confidentialTransfer) {
+    const { auditorElGamalPubkey } = confidentialTransfer;
+    extensions.confidentialTransfer = {
+      autoApprove: confidentialTransfer.autoApproveNewAccounts,
+      authority: toBase58(confidentialTransfer.authority),
+      auditorElGamalPubkey: auditorElGamalPubkey ? new PublicKey(auditorElGamalPubkey).toBase58() : null,
+    };
+  }
+  const confidentialTransferFee = states[TokenExtensionType.ConfidentialTransferFeeConfig];
+  if (confidentialTransferFee) {
+    extensions.confidentialTransferFee = {
+      authority: toBase58(confidentialTransferFee.authority),
+      withdrawWithheldAuthorityElGamalPubkey: new PublicKey(
+        confidentialTransferFee.withdrawWithheldAuthorityElGamalPubkey
+      ).toBase58(),
+    };
+  }
+  const group = states[TokenExtensionType.TokenGroup];
+  if (group) {
+    extensions.group = {
+      maxSize: group.maxSize.toString(),
+      updateAuthority: toBase58(group.updateAuthority),
+    };
+  }
+  const groupMember = states[TokenExtensionType.TokenGroupMember];
+  if (groupMember) {
+    extensions.groupMember = {
+      group: groupMember.group.toBase58(),
+      groupUpdateAuthority: toBase58(groupUpdateAuthority),
+    };
+  }
+  const pausable = states[TokenExtensionType.Pausable];
+  if (pausable) {
+    extensions.pausable = { authority: toBase58(pausable.authority) };
+  }
+  const scaledUiAmount = states[TokenExtensionType.ScaledUiAmount];
+  if (scaledUiAmount) {
+    extensions.scaledUiAmount = {
+      multiplier: getCurrentMultiplier(scaledUiAmount, unixTimestamp),
+      authority: toBase58(scaledUiAmount.authority),
+    };
+  }
+
+  if (Object.keys(extensions).length > 0) {
+    manifest.extensions = extensions;
+  }
+  return manifest;
+}